@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { AccompanimentGenerator, type AccompanimentStyle } from './AccompanimentGenerator';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+// The accompaniment of a tune, as the notes struck at each beat position
+function accompany(style: AccompanimentStyle, abc: string): [number, number[]][] {
+    const hits = new Map<number, number[]>();
+    for (const note of new AccompanimentGenerator(style).generate(new ABCPlusParser().parse(abc))) {
+        hits.set(note.startTime, [...(hits.get(note.startTime) ?? []), note.midiNote]);
+    }
+    return [...hits];
+}
+
+const REEL = 'X:1\nM:4/4\nL:1/4\nK:C\n"C"C D E F|"G7"G A B c|]';
+
+describe('AccompanimentGenerator', () => {
+    it('plays bass and chord on every beat in block style', () => {
+        const hits = accompany('block', REEL);
+        expect(hits).toHaveLength(8);
+        expect(hits[0]).toEqual([0, [36, 55, 60, 64]]);
+        expect(hits[4]).toEqual([1, [43, 55, 59, 62, 65]]);
+    });
+
+    it('alternates root and fifth in the bass under chords between, for boom-chick in common time', () => {
+        expect(accompany('boom-chick', REEL).slice(0, 4)).toEqual([
+            [0, [36]], [0.25, [55, 60, 64]], [0.5, [43]], [0.75, [55, 60, 64]]
+        ]);
+    });
+
+    it('plays boom-chick in dotted-quarter beats in 6/8', () => {
+        expect(accompany('boom-chick', 'X:1\nM:6/8\nL:1/8\nK:D\n"D"DEF GAB|]')).toEqual([
+            [0, [38]], [0.25, [57, 62, 66]], [0.375, [45]], [0.625, [57, 62, 66]]
+        ]);
+    });
+
+    it('plays the bass on one and the chord on two and three in waltz style, skipping a pickup without harmony', () => {
+        expect(accompany('waltz', 'X:1\nM:3/4\nL:1/4\nK:C\nC|"F"F G A|]')).toEqual([
+            [0.25, [41]], [0.5, [57, 60, 65]], [0.75, [57, 60, 65]]
+        ]);
+    });
+
+    it('breaks the chord into lowest, highest, middle, highest in Alberti style', () => {
+        expect(accompany('alberti', 'X:1\nM:2/4\nL:1/4\nK:C\n"C"C D|]')).toEqual([
+            [0, [55]], [0.125, [64]], [0.25, [60]], [0.375, [64]]
+        ]);
+    });
+
+    it('walks the swing bass into the next chord a semitone below it', () => {
+        const bass = accompany('swing', REEL).map(([time, notes]) => [time, notes[0]]);
+        expect(bass.slice(0, 4)).toEqual([[0, 36], [0.25, 43], [0.5, 36], [0.75, 42]]);
+    });
+
+    it('plays nothing for a tune without chord symbols', () => {
+        expect(accompany('block', 'X:1\nL:1/4\nK:C\nCDEF|]')).toEqual([]);
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * Accompaniment Generator
+ * Builds a bass line and chord part from a score's chord symbols in a choice of styles
+ */
+
+import type { ParseResult, Harmony, ScoreChange } from '../types';
+import { ChordSymbol } from '../theory/ChordSymbol';
+
+export type AccompanimentStyle = 'block' | 'waltz' | 'alberti' | 'boom-chick' | 'swing';
+
+export interface AccompanimentNote {
+    midiNote: number;
+    startTime: number;  // Beats, in the written (unrepeated) score
+    duration: number;
+    velocity: number;
+    measure: number;
+}
+
+// A note of a style's pattern: where it falls in the bar and which chord member it plays
+interface Hit {
+    offset: number;
+    duration: number;
+    part: 'bass' | 'fifth' | 'chord' | 'approach' | number;   // A number picks one chord tone
+}
+
+interface Meter {
+    length: number;     // Whole notes per bar
+    beat: number;       // Length of the counted beat
+}
+
+export class AccompanimentGenerator {
+    private style: AccompanimentStyle;
+    private bassLow = 36;       // C2: bass notes lie in the octave above
+    private chordLow = 55;      // G3: chords are voiced in close position above
+    private bassVelocity = 0.6;
+    private chordVelocity = 0.45;
+
+    constructor(style: AccompanimentStyle) {
+        this.style = style;
+    }
+
+    /**
+     * Accompaniment for every measure played under a chord symbol
+     */
+    generate(result: ParseResult): AccompanimentNote[] {
+        const notes: AccompanimentNote[] = [];
+        const harmony = result.harmony;
+        if (harmony.length === 0) return notes;
+
+        const chords = new Map<Harmony, { tones: number[]; bass: number }>();
+        for (const symbol of harmony) {
+            const parsed = ChordSymbol.parse(symbol.text);
+            if (!parsed) continue;
+            chords.set(symbol, {
+                tones: parsed.pitchClasses(),
+                bass: ChordSymbol.pitchClass(symbol.bass ?? symbol.root)
+            });
+        }
+
+        result.mom.measures.forEach((measure, index) => {
+            const meter = this.meterAt(result.changes, measure.startTime);
+
+            // A pickup bar takes the end of the pattern
+            const shift = index === 0 && measure.duration < meter.length - 1e-9 ? meter.length - measure.duration : 0;
+
+            for (const hit of this.pattern(meter)) {
+                const offset = hit.offset - shift;
+                if (offset < -1e-9 || offset >= measure.duration - 1e-9) continue;
+
+                const time = measure.startTime + offset;
+                const symbol = this.harmonyAt(harmony, time);
+                const chord = symbol && chords.get(symbol);
+                if (!chord) continue;
+
+                const next = this.harmonyAt(harmony, time + meter.beat);
+                for (const midiNote of this.pitches(hit, chord, next ? chords.get(next) : undefined)) {
+                    notes.push({
+                        midiNote,
+                        startTime: time,
+                        duration: Math.min(hit.duration, measure.duration - offset),
+                        velocity: typeof hit.part === 'number' || hit.part === 'chord' ? this.chordVelocity : this.bassVelocity,
+                        measure: measure.number
+                    });
+                }
+            }
+        });
+
+        return notes;
+    }
+
+    /**
+     * One bar of the style in the given meter
+     */
+    private pattern(meter: Meter): Hit[] {
+        const { length, beat } = meter;
+        const beats = Math.max(1, Math.round(length / beat));
+        const compound = beat === 3 / 8;
+        const hits: Hit[] = [];
+
+        for (let i = 0; i < beats; i++) {
+            const start = i * beat;
+
+            switch (this.style) {
+                case 'block':
+                    hits.push({ offset: start, duration: beat, part: 'bass' }, { offset: start, duration: beat, part: 'chord' });
+                    break;
+
+                case 'waltz':
+                    hits.push({ offset: start, duration: beat, part: i === 0 ? 'bass' : 'chord' });
+                    break;
+
+                case 'alberti': {
+                    // Lowest, highest, middle, highest chord tone, in eighths (triplet eighths in compound time)
+                    const step = compound ? beat / 3 : beat / 2;
+                    const order = [0, 2, 1, 2];
+                    for (let j = 0; start + j * step < start + beat - 1e-9; j++) {
+                        const count = i * Math.round(beat / step) + j;
+                        hits.push({ offset: start + j * step, duration: step, part: order[count % order.length] });
+                    }
+                    break;
+                }
+
+                case 'boom-chick':
+                    if (compound) {
+                        // Jigs: bass for two eighths of each beat, chord on the third
+                        hits.push(
+                            { offset: start, duration: beat * 2 / 3, part: i % 2 === 0 ? 'bass' : 'fifth' },
+                            { offset: start + beat * 2 / 3, duration: beat / 3, part: 'chord' }
+                        );
+                    } else {
+                        // Reels: bass on the strong beats, alternating root and fifth, chord between
+                        const part = i % 2 === 1 ? 'chord' : i % 4 === 0 ? 'bass' : 'fifth';
+                        hits.push({ offset: start, duration: beat, part });
+                    }
+                    break;
+
+                case 'swing':
+                    // Walking bass on every beat leading into the next chord; short chords on 2 and 4
+                    hits.push({
+                        offset: start,
+                        duration: beat,
+                        part: i === beats - 1 && beats > 2 ? 'approach' : i % 2 === 0 ? 'bass' : 'fifth'
+                    });
+                    if (i % 2 === 1) hits.push({ offset: start, duration: beat / 2, part: 'chord' });
+                    break;
+            }
+        }
+
+        return hits;
+    }
+
+    /**
+     * MIDI notes for a pattern hit under a chord
+     */
+    private pitches(
+        hit: Hit,
+        chord: { tones: number[]; bass: number },
+        next?: { tones: number[]; bass: number }
+    ): number[] {
+        const bassNote = (pitchClass: number) => this.bassLow + ((pitchClass - this.bassLow) % 12 + 12) % 12;
+        const voiced = chord.tones
+            .map(pc => this.chordLow + ((pc - this.chordLow) % 12 + 12) % 12)
+            .sort((a, b) => a - b);
+
+        if (typeof hit.part === 'number') return [voiced[Math.min(hit.part, voiced.length - 1)]];
+
+        switch (hit.part) {
+            case 'bass':
+                return [bassNote(chord.bass)];
+            case 'fifth':
+                return [bassNote(chord.tones[2] ?? chord.tones[chord.tones.length - 1])];
+            case 'approach': {
+                // A semitone below the next chord's bass note
+                const target = bassNote((next ?? chord).bass);
+                return [target - 1 >= this.bassLow ? target - 1 : target + 1];
+            }
+            default:
+                return voiced.slice(0, 4);
+        }
+    }
+
+    private harmonyAt(harmony: Harmony[], time: number): Harmony | undefined {
+        let current: Harmony | undefined;
+        for (const symbol of harmony) {
+            if (symbol.position > time + 1e-9) break;
+            current = symbol;
+        }
+        return current;
+    }
+
+    /**
+     * Bar length and counted beat of the meter in force; 6/8, 9/8 and 12/8 count dotted quarters
+     */
+    private meterAt(changes: ScoreChange[], time: number): Meter {
+        let value = '4/4';
+        for (const change of changes) {
+            if (change.type === 'meter' && change.position <= time + 1e-9) value = change.value;
+        }
+
+        if (value === 'C') return { length: 1, beat: 1 / 4 };
+        if (value === 'C|') return { length: 1, beat: 1 / 2 };
+
+        const match = value.match(/^(\d+(?:\+\d+)*)\/(\d+)/);
+        if (!match) return { length: 1, beat: 1 / 4 };
+
+        const numerator = match[1].split('+').reduce((sum, part) => sum + parseInt(part, 10), 0);
+        const denominator = parseInt(match[2], 10);
+        const compound = denominator === 8 && numerator % 3 === 0 && numerator > 3;
+        return { length: numerator / denominator, beat: compound ? 3 / 8 : 1 / denominator };
+    }
+}
@@ -6,6 +6,8 @@
 import type { ParseResult, Note, Rest, ScheduledNote } from '../types';
 import { FMSynth } from './FMSynth';
 import { Sequencer } from './Sequencer';
+import { AccompanimentGenerator, type AccompanimentStyle } from './AccompanimentGenerator';
+import { Tuning } from '../theory/Tuning';
 
 type EventCallback = (data: unknown) => void;
 
@@ -14,6 +16,10 @@ export class AudioSessionManager {
 
     private audioContext: AudioContext | null = null;
     private synth: FMSynth | null = null;
+    private accompanimentSynth: FMSynth | null = null;
+    private accompanimentStyle: AccompanimentStyle | null = null;
+    private accompanimentVolume = 0.2;
+    private tuning: Tuning | null = null;   // Chosen through setTuning, in place of the score's %%tuning
     private sequencer: Sequencer | null = null;
     private parseResult: ParseResult | null = null;
 
@@ -69,8 +75,11 @@ export class AudioSessionManager {
         // Create new audio context
         this.audioContext = new AudioContext();
 
-        // Initialize synth
+        // Initialize synths; the accompaniment has its own, for its own volume
         this.synth = new FMSynth(this.audioContext);
+        this.accompanimentSynth = new FMSynth(this.audioContext);
+        this.accompanimentSynth.setVolume(this.accompanimentVolume);
+        this.applyTuning(parseResult);
 
         // Extract tempo from headers
         const tempo = this.extractTempo(parseResult.mom.headers.Q);
@@ -85,8 +94,12 @@ export class AudioSessionManager {
             () => this.emit('playbackEnd')
         );
 
-        // Load notes from MOM
-        this.sequencer.loadNotes(parseResult.mom);
+        // Load notes from MOM, with accompaniment generated from its chord symbols
+        const accompaniment = this.accompanimentStyle
+            ? new AccompanimentGenerator(this.accompanimentStyle).generate(parseResult)
+            : [];
+        this.sequencer.setAccompanimentSynth(this.accompanimentSynth);
+        this.sequencer.loadNotes(parseResult, accompaniment);
 
         this.parseResult = parseResult;
         this.isPlaying = false;
@@ -128,6 +141,10 @@ export class AudioSessionManager {
             this.synth.stopAll();
         }
 
+        if (this.accompanimentSynth) {
+            this.accompanimentSynth.stopAll();
+        }
+
         this.isPlaying = false;
         this.isPaused = false;
     }
@@ -141,10 +158,49 @@ export class AudioSessionManager {
         }
 
         this.synth = null;
+        this.accompanimentSynth = null;
         this.sequencer = null;
         this.parseResult = null;
     }
 
+    // ==========================================
+    // Accompaniment
+    // ==========================================
+
+    /**
+     * Choose the accompaniment style, or null for none. A loaded score is primed again,
+     * so the new style plays from the start
+     */
+    async setAccompanimentStyle(style: AccompanimentStyle | null): Promise<void> {
+        this.accompanimentStyle = style;
+        if (this.parseResult) await this.prime(this.parseResult);
+    }
+
+    setAccompanimentVolume(volume: number): void {
+        this.accompanimentVolume = volume;
+        this.accompanimentSynth?.setVolume(volume);
+    }
+
+    // ==========================================
+    // Tuning
+    // ==========================================
+
+    /**
+     * Play in the given temperament and reference pitch, or with null in the score's own
+     * %%tuning (equal temperament at A4 = 440 Hz without one). Applies from the next note
+     */
+    setTuning(tuning: Tuning | null): void {
+        this.tuning = tuning;
+        if (this.parseResult) this.applyTuning(this.parseResult);
+    }
+
+    private applyTuning(parseResult: ParseResult): void {
+        const directive = parseResult.directives.tuning.at(-1);
+        const tuning = this.tuning ?? (directive && Tuning.fromDirective(directive)) ?? new Tuning();
+        this.synth?.setTuning(tuning);
+        this.accompanimentSynth?.setTuning(tuning);
+    }
+
     // ==========================================
     // Utilities
     // ==========================================
@@ -3,11 +3,26 @@
  * Oscillator-based audio synthesis with ADSR envelope
  */
 
+import { Tuning } from '../theory/Tuning';
+
 interface ActiveVoice {
     oscillator: OscillatorNode;
     modulator: OscillatorNode;
     envelope: GainNode;
     noteId: string;
+    release: number;
+}
+
+/**
+ * The sound of one instrument: FM settings and ADSR envelope (in seconds)
+ */
+export interface FMTimbre {
+    modulationRatio: number;
+    modulationIndex: number;
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
 }
 
 export class FMSynth {
@@ -15,6 +30,7 @@ export class FMSynth {
     private masterGain: GainNode;
     private activeVoices: Map<string, ActiveVoice> = new Map();
     private maxPolyphony = 16;
+    private tuning = new Tuning();
 
     // ADSR envelope (in seconds)
     private attack = 0.02;
@@ -36,16 +52,18 @@ export class FMSynth {
     }
 
     /**
-     * Convert MIDI note number to frequency
+     * Convert a MIDI note number, which may fall between semitones, to frequency in the
+     * synth's tuning
      */
     private midiToFrequency(midiNote: number): number {
-        return 440 * Math.pow(2, (midiNote - 69) / 12);
+        return this.tuning.frequency(midiNote);
     }
 
     /**
-     * Start a note
+     * Start a note. An accent (0-1) makes the attack louder, quicker and brighter; a timbre
+     * plays it with another instrument's sound than the synth's own
      */
-    noteOn(noteId: string, midiNote: number, velocity: number, time?: number): void {
+    noteOn(noteId: string, midiNote: number, velocity: number, time?: number, accent = 0, timbre?: FMTimbre): void {
         // Enforce polyphony limit
         if (this.activeVoices.size >= this.maxPolyphony) {
             // Stop oldest voice
@@ -55,16 +73,23 @@ export class FMSynth {
 
         const now = time ?? this.audioContext.currentTime;
         const frequency = this.midiToFrequency(midiNote);
+        const sound = timbre ?? this.timbre();
 
         // Create modulator oscillator (for FM)
         const modulator = this.audioContext.createOscillator();
         modulator.type = 'sine';
-        modulator.frequency.value = frequency * this.modulationRatio;
+        modulator.frequency.value = frequency * sound.modulationRatio;
 
         const modulatorGain = this.audioContext.createGain();
-        modulatorGain.gain.value = frequency * this.modulationIndex;
+        modulatorGain.gain.value = frequency * sound.modulationIndex;
         modulator.connect(modulatorGain);
 
+        const attack = sound.attack * (1 - 0.5 * accent);
+        if (accent > 0) {
+            modulatorGain.gain.setValueAtTime(frequency * sound.modulationIndex * (1 + accent), now);
+            modulatorGain.gain.linearRampToValueAtTime(frequency * sound.modulationIndex, now + attack + sound.decay);
+        }
+
         // Create carrier oscillator
         const oscillator = this.audioContext.createOscillator();
         oscillator.type = 'sine';
@@ -81,12 +106,12 @@ export class FMSynth {
         envelope.connect(this.masterGain);
 
         // Apply ADSR envelope
-        const peakLevel = velocity * 0.8;
-        const sustainLevel = peakLevel * this.sustain;
+        const peakLevel = velocity * 0.8 * (1 + 0.4 * accent);
+        const sustainLevel = velocity * 0.8 * sound.sustain;
 
         envelope.gain.setValueAtTime(0, now);
-        envelope.gain.linearRampToValueAtTime(peakLevel, now + this.attack);
-        envelope.gain.linearRampToValueAtTime(sustainLevel, now + this.attack + this.decay);
+        envelope.gain.linearRampToValueAtTime(peakLevel, now + attack);
+        envelope.gain.linearRampToValueAtTime(sustainLevel, now + attack + sound.decay);
 
         // Start oscillators
         modulator.start(now);
@@ -96,7 +121,8 @@ export class FMSynth {
             oscillator,
             modulator,
             envelope,
-            noteId
+            noteId,
+            release: sound.release
         });
     }
 
@@ -112,24 +138,32 @@ export class FMSynth {
         // Apply release
         voice.envelope.gain.cancelScheduledValues(now);
         voice.envelope.gain.setValueAtTime(voice.envelope.gain.value, now);
-        voice.envelope.gain.linearRampToValueAtTime(0, now + this.release);
+        voice.envelope.gain.linearRampToValueAtTime(0, now + voice.release);
 
         // Stop and cleanup after release
-        const stopTime = now + this.release + 0.1;
+        const stopTime = now + voice.release + 0.1;
         voice.oscillator.stop(stopTime);
         voice.modulator.stop(stopTime);
 
         // Schedule removal
         setTimeout(() => {
             this.activeVoices.delete(noteId);
-        }, (this.release + 0.1) * 1000);
+        }, (voice.release + 0.1) * 1000);
     }
 
     /**
      * Schedule a note with specific start and end times
      */
-    scheduleNote(noteId: string, midiNote: number, velocity: number, startTime: number, duration: number): void {
-        this.noteOn(noteId, midiNote, velocity, startTime);
+    scheduleNote(
+        noteId: string,
+        midiNote: number,
+        velocity: number,
+        startTime: number,
+        duration: number,
+        accent = 0,
+        timbre?: FMTimbre
+    ): void {
+        this.noteOn(noteId, midiNote, velocity, startTime, accent, timbre);
 
         // Schedule note off
         const releaseTime = startTime + duration - 0.05; // Slight overlap for smoother sound
@@ -164,6 +198,27 @@ export class FMSynth {
         this.release = release;
     }
 
+    /**
+     * The synth's own sound, as set by setADSR
+     */
+    private timbre(): FMTimbre {
+        return {
+            modulationRatio: this.modulationRatio,
+            modulationIndex: this.modulationIndex,
+            attack: this.attack,
+            decay: this.decay,
+            sustain: this.sustain,
+            release: this.release
+        };
+    }
+
+    /**
+     * Set the temperament and reference pitch for notes started from now on
+     */
+    setTuning(tuning: Tuning): void {
+        this.tuning = tuning;
+    }
+
     /**
      * Set master volume (0-1)
      */
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { Instruments } from './Instruments';
+
+describe('Instruments', () => {
+    it('finds the General MIDI program of an instrument name', () => {
+        expect(Instruments.programFor('Cello')).toBe(42);
+        expect(Instruments.programFor('Violin I')).toBe(40);
+        expect(Instruments.programFor('kazoo')).toBeUndefined();
+    });
+
+    it('chooses a sound by program, instrument or percussion, and none otherwise', () => {
+        expect(Instruments.timbreFor({ id: '1', program: 40 })).toEqual(Instruments.timbreFor({ id: '2', instrument: 'viola' }));
+        expect(Instruments.timbreFor({ id: '1', program: 0 })).not.toEqual(Instruments.timbreFor({ id: '2', program: 40 }));
+        expect(Instruments.timbreFor({ id: '1', channel: 10 })).toEqual(Instruments.timbreFor({ id: '2', clef: 'percussion' }));
+        expect(Instruments.timbreFor({ id: '1' })).toBeNull();
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Instruments
+ * General MIDI programs for V: instrument= names, and an FM timbre for each program family
+ */
+
+import type { VoiceDefinition } from '../types';
+import type { FMTimbre } from './FMSynth';
+
+// General MIDI programs (0-127) by instrument name, lower-case
+const PROGRAMS: Record<string, number> = {
+    'piano': 0,
+    'grand piano': 0,
+    'bright piano': 1,
+    'electric piano': 4,
+    'harpsichord': 6,
+    'clavinet': 7,
+    'celesta': 8,
+    'glockenspiel': 9,
+    'music box': 10,
+    'vibraphone': 11,
+    'marimba': 12,
+    'xylophone': 13,
+    'tubular bells': 14,
+    'dulcimer': 15,
+    'organ': 19,
+    'church organ': 19,
+    'reed organ': 20,
+    'accordion': 21,
+    'harmonica': 22,
+    'concertina': 23,
+    'guitar': 24,
+    'nylon guitar': 24,
+    'steel guitar': 25,
+    'electric guitar': 27,
+    'bass': 32,
+    'acoustic bass': 32,
+    'electric bass': 33,
+    'fretless bass': 35,
+    'violin': 40,
+    'fiddle': 40,
+    'viola': 41,
+    'cello': 42,
+    'violoncello': 42,
+    'contrabass': 43,
+    'double bass': 43,
+    'pizzicato': 45,
+    'harp': 46,
+    'timpani': 47,
+    'strings': 48,
+    'string ensemble': 48,
+    'choir': 52,
+    'voice': 53,
+    'trumpet': 56,
+    'trombone': 57,
+    'tuba': 58,
+    'horn': 60,
+    'french horn': 60,
+    'brass': 61,
+    'soprano sax': 64,
+    'alto sax': 65,
+    'saxophone': 65,
+    'tenor sax': 66,
+    'baritone sax': 67,
+    'oboe': 68,
+    'english horn': 69,
+    'cor anglais': 69,
+    'bassoon': 70,
+    'clarinet': 71,
+    'piccolo': 72,
+    'flute': 73,
+    'recorder': 74,
+    'pan flute': 75,
+    'whistle': 78,
+    'tin whistle': 78,
+    'ocarina': 79,
+    'sitar': 104,
+    'banjo': 105,
+    'shamisen': 106,
+    'koto': 107,
+    'kalimba': 108,
+    'bagpipe': 109,
+    'bagpipes': 109,
+    'shanai': 111,
+    'steel drums': 114
+};
+
+// Instrument names played as unpitched percussion
+const PERCUSSION_NAMES = new Set(['drums', 'drum kit', 'drumkit', 'percussion']);
+
+// One timbre per General MIDI family of eight programs: piano, chromatic percussion, organ,
+// guitar, bass, strings, ensemble, brass, reed, pipe, synth lead, synth pad, synth effects,
+// ethnic, percussive, sound effects
+const FAMILY_TIMBRES: FMTimbre[] = [
+    { modulationRatio: 1, modulationIndex: 1.5, attack: 0.005, decay: 0.8, sustain: 0.2, release: 0.4 },
+    { modulationRatio: 3.5, modulationIndex: 2, attack: 0.002, decay: 0.6, sustain: 0.05, release: 0.5 },
+    { modulationRatio: 1, modulationIndex: 1, attack: 0.01, decay: 0.05, sustain: 0.9, release: 0.08 },
+    { modulationRatio: 1, modulationIndex: 2, attack: 0.003, decay: 0.5, sustain: 0.15, release: 0.3 },
+    { modulationRatio: 0.5, modulationIndex: 1.5, attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.15 },
+    { modulationRatio: 1, modulationIndex: 1.8, attack: 0.08, decay: 0.1, sustain: 0.85, release: 0.25 },
+    { modulationRatio: 1, modulationIndex: 1.2, attack: 0.15, decay: 0.2, sustain: 0.8, release: 0.5 },
+    { modulationRatio: 1, modulationIndex: 3, attack: 0.05, decay: 0.1, sustain: 0.8, release: 0.15 },
+    { modulationRatio: 3, modulationIndex: 1.5, attack: 0.03, decay: 0.1, sustain: 0.8, release: 0.1 },
+    { modulationRatio: 1, modulationIndex: 0.5, attack: 0.05, decay: 0.1, sustain: 0.85, release: 0.15 },
+    { modulationRatio: 2, modulationIndex: 2.5, attack: 0.02, decay: 0.1, sustain: 0.7, release: 0.3 },
+    { modulationRatio: 1.5, modulationIndex: 1, attack: 0.4, decay: 0.3, sustain: 0.8, release: 0.8 },
+    { modulationRatio: 1.41, modulationIndex: 3, attack: 0.2, decay: 0.4, sustain: 0.6, release: 1 },
+    { modulationRatio: 2, modulationIndex: 2.5, attack: 0.005, decay: 0.4, sustain: 0.3, release: 0.3 },
+    { modulationRatio: 1.41, modulationIndex: 6, attack: 0.001, decay: 0.3, sustain: 0, release: 0.2 },
+    { modulationRatio: 3.7, modulationIndex: 8, attack: 0.01, decay: 0.3, sustain: 0.4, release: 0.3 }
+];
+
+// Unpitched percussion (clef=perc, MIDI channel 10): a short, noisy strike
+const PERCUSSION_TIMBRE: FMTimbre = { modulationRatio: 1.47, modulationIndex: 10, attack: 0.001, decay: 0.15, sustain: 0, release: 0.1 };
+
+export class Instruments {
+    /**
+     * General MIDI program for an instrument name, matching the longest known name it
+     * contains ("Violin I" plays as a violin); undefined if none matches
+     */
+    static programFor(name: string): number | undefined {
+        const normalized = name.trim().toLowerCase();
+        if (normalized in PROGRAMS) return PROGRAMS[normalized];
+
+        const known = Object.keys(PROGRAMS)
+            .filter(known => normalized.includes(known))
+            .sort((a, b) => b.length - a.length);
+        return known.length > 0 ? PROGRAMS[known[0]] : undefined;
+    }
+
+    /**
+     * The sound a voice plays with, from its %%MIDI program or instrument name; null when
+     * the voice names neither and keeps the synth's own sound
+     */
+    static timbreFor(def: VoiceDefinition): FMTimbre | null {
+        const instrument = def.instrument?.trim().toLowerCase();
+        if (def.clef === 'percussion' || def.channel === 10 || (instrument && PERCUSSION_NAMES.has(instrument))) {
+            return PERCUSSION_TIMBRE;
+        }
+
+        const program = def.program ?? (instrument ? Instruments.programFor(instrument) : undefined);
+        return program === undefined ? null : FAMILY_TIMBRES[Math.floor(program / 8)];
+    }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { OrnamentRealizer } from './OrnamentRealizer';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+import type { Note } from '../types';
+
+// The ornaments on the quarter notes of a tune in G, as the pitches played and the
+// lengths of the first and last of them
+function realized(body: string, header = ''): [number[], number, number][] {
+    const result = new ABCPlusParser().parse(`X:1\nL:1/4\n${header}K:G\n${body}`);
+    const realizer = new OrnamentRealizer(OrnamentRealizer.styleFrom(result.directives), result.changes);
+    return ([...result.mom.voices.values()][0] as Note[]).map(note => {
+        const notes = realizer.realize(note, note.decorations ?? [], note.duration) ?? [];
+        return [notes.map(n => n.midiNote), notes[0]?.duration, notes[notes.length - 1]?.duration];
+    });
+}
+
+describe('OrnamentRealizer', () => {
+    it('plays Classical ornaments from the main note, with neighbours in the key', () => {
+        const [trill, mordent, uppermordent, turn] = realized('!trill!e !mordent!c !uppermordent!F !turn!B|]');
+        expect(trill[0]).toEqual([64, 66, 64, 66, 64, 62, 64]);
+        expect(mordent).toEqual([[60, 59, 60], 1 / 32, 3 / 16]);
+        expect(uppermordent[0]).toEqual([54, 55, 54]);
+        expect(turn).toEqual([[60, 59, 57, 59], 1 / 32, 5 / 32]);
+    });
+
+    it('plays Baroque ornaments from the upper note when %%ornaments baroque is set', () => {
+        const [trill, , uppermordent, turn] = realized('!trill!e !mordent!c !uppermordent!F !turn!B|]', '%%ornaments baroque\n');
+        expect(trill).toEqual([[66, 64, 66, 64, 66, 64, 66, 64], 1 / 32, 1 / 32]);
+        expect(uppermordent[0]).toEqual([55, 54, 55, 54]);
+        expect(turn).toEqual([[60, 59, 57, 59], 1 / 16, 1 / 16]);
+    });
+
+    it('leaves notes without ornaments alone', () => {
+        expect(realized('!accent!B G|]')).toEqual([[[], undefined, undefined], [[], undefined, undefined]]);
+        expect(OrnamentRealizer.isOrnamented([{ type: 'staccato' }, { type: 'trill' }])).toBe(true);
+        expect(OrnamentRealizer.isOrnamented([{ type: 'staccato' }])).toBe(false);
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * Ornament Realizer
+ * Expands trills, mordents and turns into the notes that are played, in Baroque or Classical style
+ */
+
+import type { Note, Decoration, DecorationType, DirectivesMap, ScoreChange } from '../types';
+import { KeySignature } from '../theory/KeySignature';
+
+export type OrnamentStyle = 'baroque' | 'classical';
+
+export interface OrnamentNote {
+    midiNote: number;
+    offset: number;     // Beats from the start of the ornamented note
+    duration: number;
+}
+
+type Neighbour = 'upper' | 'main' | 'lower';
+
+const ORNAMENTS = new Set<DecorationType>(['trill', 'mordent', 'uppermordent', 'turn', 'invertedturn']);
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+
+export class OrnamentRealizer {
+    private style: OrnamentStyle;
+    private keyChanges: ScoreChange[];
+    private noteLength = 1 / 32;   // Ornament notes are 32nds unless the main note is too short
+
+    constructor(style: OrnamentStyle, changes: ScoreChange[]) {
+        this.style = style;
+        this.keyChanges = changes
+            .filter(change => change.type === 'key')
+            .sort((a, b) => a.position - b.position);
+    }
+
+    /**
+     * Style chosen by the score's last %%ornaments directive ("baroque" or "classical")
+     */
+    static styleFrom(directives: DirectivesMap): OrnamentStyle {
+        let style: OrnamentStyle = 'classical';
+        for (const directive of directives.art) {
+            if (directive.type !== 'ornaments') continue;
+            const value = (directive.attributes['style'] ?? directive.attributes['value'] ?? '').toLowerCase();
+            if (value === 'baroque' || value === 'classical') style = value;
+        }
+        return style;
+    }
+
+    /**
+     * Whether the decorations include an ornament this realizer plays
+     */
+    static isOrnamented(decorations: Decoration[]): boolean {
+        return decorations.some(d => ORNAMENTS.has(d.type));
+    }
+
+    /**
+     * Notes that realize the first ornament on a note sounding for the given beats,
+     * or null when it carries none
+     */
+    realize(note: Note, decorations: Decoration[], duration: number): OrnamentNote[] | null {
+        const ornament = decorations.find(d => ORNAMENTS.has(d.type))?.type;
+        if (!ornament || duration <= 0) return null;
+
+        const baroque = this.style === 'baroque';
+        let pattern: Neighbour[];
+        let spread = false;     // Divide the whole note between the ornament notes
+
+        switch (ornament) {
+            case 'trill':
+                pattern = this.trill(duration, baroque);
+                spread = true;
+                break;
+            case 'mordent':
+                pattern = ['main', 'lower', 'main'];
+                break;
+            case 'uppermordent':
+                // The Baroque pralltriller is a short trill from the upper note
+                pattern = baroque ? ['upper', 'main', 'upper', 'main'] : ['main', 'upper', 'main'];
+                break;
+            case 'turn':
+                pattern = ['upper', 'main', 'lower', 'main'];
+                spread = baroque;
+                break;
+            default:
+                pattern = ['lower', 'main', 'upper', 'main'];
+                spread = baroque;
+        }
+
+        const each = spread
+            ? duration / pattern.length
+            : Math.min(this.noteLength, duration / pattern.length);
+        const pitches = {
+            upper: this.neighbour(note, 1),
+            main: note.midiNote,
+            lower: this.neighbour(note, -1)
+        };
+
+        // The last note holds whatever the ornament leaves of the main note
+        return pattern.map((step, index) => ({
+            midiNote: pitches[step],
+            offset: index * each,
+            duration: index === pattern.length - 1 ? duration - index * each : each
+        }));
+    }
+
+    /**
+     * Alternating notes filling the note. Baroque trills start on the upper note; longer
+     * Classical trills end with a turn through the lower note. Both end on the main note
+     */
+    private trill(duration: number, baroque: boolean): Neighbour[] {
+        let count = Math.max(3, Math.floor(duration / this.noteLength + 1e-9));
+        const first: Neighbour = baroque ? 'upper' : 'main';
+
+        // An upper-note start needs an even count to finish on the main note
+        if ((count % 2 === 0) !== baroque) count--;
+        if (count < 3) count = baroque ? 4 : 3;
+
+        const pattern: Neighbour[] = [];
+        for (let i = 0; i < count; i++) {
+            pattern.push(i % 2 === 0 ? first : first === 'upper' ? 'main' : 'upper');
+        }
+
+        if (!baroque && count >= 7) pattern.splice(count - 2, 2, 'lower', 'main');
+        return pattern;
+    }
+
+    /**
+     * MIDI note of the next scale step above (1) or below (-1) a note in the key at that point
+     */
+    private neighbour(note: Note, direction: 1 | -1): number {
+        const letterMatch = note.pitch.match(/[A-Ga-g]/);
+        if (!letterMatch) return note.midiNote + direction * 2;
+
+        const letterIndex = LETTERS.indexOf(letterMatch[0].toUpperCase());
+        const neighbourIndex = (letterIndex + direction + 7) % 7;
+        const key = this.keyAt(note);
+        const pitchClass = LETTER_PITCH_CLASSES[neighbourIndex] + key.accidentalFor(LETTERS[neighbourIndex]);
+
+        // Step from the sounding note to the nearest such pitch class in that direction
+        const interval = ((direction * (pitchClass - note.midiNote)) % 12 + 12) % 12 || 12;
+        return note.midiNote + direction * interval;
+    }
+
+    private keyAt(note: Note): KeySignature {
+        let value = 'C';
+        for (const change of this.keyChanges) {
+            if (change.position > note.startTime) break;
+            if (!change.voice || change.voice === note.voice) value = change.value;
+        }
+        return KeySignature.parse(value);
+    }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { RepeatUnfolder } from './RepeatUnfolder';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+// Numbers of the measures of a tune in bars of 1/4, in the order they are played
+function playedOrder(body: string): number[] {
+    const { mom } = new ABCPlusParser().parse(`X:1\nL:1/4\nM:1/4\nK:C\n${body}`);
+    return new RepeatUnfolder().unfold(mom.measures).map(performed => performed.measure.number);
+}
+
+describe('RepeatUnfolder', () => {
+    it('plays a repeated section twice', () => {
+        expect(playedOrder('A|:B|c:|d|]')).toEqual([1, 2, 3, 2, 3, 4]);
+    });
+
+    it('repeats from the start when there is no start repeat', () => {
+        expect(playedOrder('A|B:|c|]')).toEqual([1, 2, 1, 2, 3]);
+    });
+
+    it('plays back-to-back repeated sections in turn', () => {
+        expect(playedOrder('|:A:|:B:|]')).toEqual([1, 1, 2, 2]);
+    });
+
+    it('takes the ending for each pass', () => {
+        expect(playedOrder('|:A|B|1c:|2d|]')).toEqual([1, 2, 3, 1, 2, 4]);
+        expect(playedOrder('|:A|1,2B:|3c|]')).toEqual([1, 2, 1, 2, 1, 3]);
+    });
+
+    it('goes back to the segno and stops at Fine for D.S. al Fine', () => {
+        expect(playedOrder('A|!segno!B|c!fine!|d!D.S.alfine!|]')).toEqual([1, 2, 3, 4, 2, 3]);
+    });
+
+    it('jumps to the coda on the way back for D.C. al Coda', () => {
+        expect(playedOrder('A|B!dacoda!|c!D.C.alcoda!|!coda!d|]')).toEqual([1, 2, 3, 1, 2, 4]);
+    });
+
+    it('does not take repeats again after a D.C.', () => {
+        expect(playedOrder('|:A:|B!D.C.!|]')).toEqual([1, 1, 2, 1, 2]);
+    });
+
+    it('gives each performed measure its start time in the unfolded performance', () => {
+        const { mom } = new ABCPlusParser().parse('X:1\nL:1/4\nM:2/4\nK:C\n|:AB:|c2|]');
+        const performed = new RepeatUnfolder().unfold(mom.measures);
+        expect(performed.map(entry => entry.startTime)).toEqual([0, 0.5, 1]);
+    });
+});
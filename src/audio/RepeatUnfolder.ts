@@ -0,0 +1,144 @@
+/**
+ * Repeat Unfolder
+ * Expands repeats, endings and D.C./D.S. markings into the order measures are performed
+ */
+
+import type { Measure, NavigationMark, PerformedMeasure } from '../types';
+
+type ReturnMode = 'fine' | 'coda' | 'either';
+
+export class RepeatUnfolder {
+    private maxPasses = 16; // Each measure is played at most this often, whatever the markings
+
+    /**
+     * Measures in performance order, each with its start time in the unfolded performance
+     */
+    unfold(measures: Measure[]): PerformedMeasure[] {
+        const performed: PerformedMeasure[] = [];
+        const lastEndings = this.lastEndings(measures);
+        const segno = measures.findIndex(m => this.has(m, 'segno'));
+        const { toCoda, coda } = this.codaJump(measures);
+
+        let index = 0;
+        let sectionStart = 0;
+        let pass = 1;
+        let repeating = false;                  // Arrived at the section start by a repeat
+        let returnMode: ReturnMode | null = null;   // Set once a D.C./D.S. has been taken
+        let codaTaken = false;
+        let time = 0;
+
+        while (index < measures.length && performed.length < measures.length * this.maxPasses) {
+            const measure = measures[index];
+
+            if (measure.repeatStart && !repeating) {
+                sectionStart = index;
+                pass = 1;
+            }
+            repeating = false;
+
+            // Endings: play the one for this pass; after a D.C./D.S. only the last one
+            if (measure.ending) {
+                const wanted = returnMode ? lastEndings.get(index)! : pass;
+                if (!measure.ending.includes(wanted)) {
+                    index++;
+                    continue;
+                }
+            }
+
+            performed.push({ measure, startTime: time });
+            time += measure.duration;
+
+            // Repeats are not taken again after a D.C./D.S.
+            if (measure.barlineType === 'repeat-end' || measure.barlineType === 'repeat-both') {
+                const passes = measure.ending ? lastEndings.get(index)! : 2;
+                if (!returnMode && pass < passes) {
+                    pass++;
+                    index = sectionStart;
+                    repeating = true;
+                    continue;
+                }
+                sectionStart = index + 1;
+                pass = 1;
+            }
+
+            if (returnMode) {
+                if (returnMode !== 'coda' && this.has(measure, 'fine')) break;
+                if (returnMode !== 'fine' && index === toCoda && coda > index && !codaTaken) {
+                    codaTaken = true;
+                    index = coda;
+                    continue;
+                }
+            } else {
+                const jump = this.returnJump(measure);
+                if (jump) {
+                    returnMode = jump.mode;
+                    index = jump.toSegno && segno >= 0 ? segno : 0;
+                    sectionStart = index;
+                    pass = 1;
+                    continue;
+                }
+            }
+
+            index++;
+        }
+
+        return performed;
+    }
+
+    /**
+     * For every measure in an ending, the highest volta number of its group of endings
+     */
+    private lastEndings(measures: Measure[]): Map<number, number> {
+        const result = new Map<number, number>();
+        let group: number[] = [];
+
+        const closeGroup = () => {
+            const last = Math.max(...group.map(i => Math.max(...measures[i].ending!)));
+            for (const i of group) result.set(i, last);
+            group = [];
+        };
+
+        measures.forEach((measure, index) => {
+            if (measure.ending) group.push(index);
+            else if (group.length > 0) closeGroup();
+        });
+        if (group.length > 0) closeGroup();
+
+        return result;
+    }
+
+    /**
+     * Where to leave for the coda and where it begins. Without an explicit "To Coda",
+     * the first of two coda signs is the jump and the second the coda itself
+     */
+    private codaJump(measures: Measure[]): { toCoda: number; coda: number } {
+        const codas = measures.flatMap((m, i) => this.has(m, 'coda') ? [i] : []);
+        const toCoda = measures.findIndex(m => this.has(m, 'dacoda'));
+
+        if (toCoda >= 0) {
+            return { toCoda, coda: codas.find(i => i > toCoda) ?? -1 };
+        }
+        if (codas.length >= 2) {
+            return { toCoda: codas[0], coda: codas[1] };
+        }
+        return { toCoda: -1, coda: -1 };
+    }
+
+    private returnJump(measure: Measure): { mode: ReturnMode; toSegno: boolean } | null {
+        for (const mark of measure.navigation ?? []) {
+            switch (mark) {
+                case 'D.C.': return { mode: 'either', toSegno: false };
+                case 'D.C.alfine': return { mode: 'fine', toSegno: false };
+                case 'D.C.alcoda': return { mode: 'coda', toSegno: false };
+                case 'D.S.': return { mode: 'either', toSegno: true };
+                case 'D.S.alfine': return { mode: 'fine', toSegno: true };
+                case 'D.S.alcoda': return { mode: 'coda', toSegno: true };
+            }
+        }
+        return null;
+    }
+
+    private has(measure: Measure, mark: NavigationMark): boolean {
+        return measure.navigation?.includes(mark) ?? false;
+    }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Sequencer } from './Sequencer';
+import type { FMSynth } from './FMSynth';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+interface PlayedNote {
+    midiNote: number;
+    time: number;       // Seconds from the start
+    length: number;     // Seconds the note sounds
+    velocity: number;
+    accent: number;
+}
+
+// The notes the synth is asked to play for a tune in quarter notes at 60 beats a minute
+function played(body: string): PlayedNote[] {
+    const notes: PlayedNote[] = [];
+    const round = (value: number) => Math.round(value * 1e4) / 1e4;
+    const synth = {
+        scheduleNote(_id: string, midiNote: number, velocity: number, time: number, length: number, accent = 0) {
+            notes.push({ midiNote, time: round(time), length: round(length), velocity: round(velocity), accent });
+        }
+    };
+    const context = { currentTime: 0 };
+    const sequencer = new Sequencer(context as AudioContext, synth as unknown as FMSynth, 60, () => {}, () => {}, () => {});
+
+    sequencer.loadNotes(new ABCPlusParser().parse(`X:1\nL:1/4\nQ:1/4=60\nK:C\n${body}`));
+    sequencer.start();
+    // Let the scheduler catch up with the whole tune at once
+    context.currentTime = 3600;
+    vi.advanceTimersByTime(25);
+    sequencer.stop();
+
+    return notes;
+}
+
+describe('Sequencer', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('window', globalThis);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('plays each dynamic level at its velocity', () => {
+        expect(played('!p!C D !f!E|]').map(note => note.velocity)).toEqual([0.4, 0.4, 0.85]);
+    });
+
+    it('moves the velocity gradually across a hairpin to the next dynamic', () => {
+        const velocities = played('!p!!<(!C D E !<)!F !f!G|]').map(note => note.velocity);
+        expect(velocities.slice(0, 4)).toEqual([0.4, 0.5125, 0.625, 0.7375]);
+        expect(velocities[4]).toBe(0.85);
+    });
+
+    it('shortens detached and staccato notes and holds tenuto and slurred ones', () => {
+        expect(played('C .D !tenuto!E (F G)|]').map(note => note.length)).toEqual([0.9, 0.5, 1, 1.06, 0.9]);
+    });
+
+    it('attacks accented notes harder', () => {
+        const [plain, accent, marcato] = played('!mf!C !accent!D !marcato!E|]');
+        expect([plain.velocity, plain.accent]).toEqual([0.7, 0]);
+        expect([accent.velocity, accent.accent]).toEqual([0.84, 0.6]);
+        expect([marcato.velocity, marcato.accent]).toEqual([0.91, 1]);
+    });
+
+    it('holds a fermata longer and goes on after it', () => {
+        expect(played('C !fermata!D E|]').map(note => note.time)).toEqual([0, 1, 2.75]);
+    });
+});
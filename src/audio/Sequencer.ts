@@ -3,8 +3,27 @@
  * Tempo-synchronized note scheduling and playback
  */
 
-import type { MusicalObjectModel, Note, Rest, Chord } from '../types';
-import type { FMSynth } from './FMSynth';
+import type {
+    MusicalObjectModel,
+    ParseResult,
+    ScoreChange,
+    PerformedMeasure,
+    Note,
+    Rest,
+    Chord,
+    Decoration,
+    DynamicLevel
+} from '../types';
+import type { FMSynth, FMTimbre } from './FMSynth';
+import { Instruments } from './Instruments';
+import { RepeatUnfolder } from './RepeatUnfolder';
+import { OrnamentRealizer } from './OrnamentRealizer';
+import type { AccompanimentNote } from './AccompanimentGenerator';
+
+// Velocity of each dynamic level, on the same scale as the MusicXML importer
+const DYNAMIC_VELOCITIES: Record<DynamicLevel, number> = {
+    pppp: 0.15, ppp: 0.2, pp: 0.3, p: 0.4, mp: 0.55, mf: 0.7, f: 0.85, ff: 0.95, fff: 1.0, ffff: 1.0
+};
 
 interface ScheduledEvent {
     noteId: string;
@@ -12,20 +31,45 @@ interface ScheduledEvent {
     velocity: number;
     startBeat: number;
     durationBeats: number;
+    soundBeats: number;     // 0 for notes continuing a tie, which only highlight
+    legato: boolean;
+    accent: number;         // 0-1, how sharply the note is attacked
+    accompaniment: boolean; // Played on the accompaniment synth, without highlighting
+    timbre?: FMTimbre;      // The voice's instrument, when it names one
+}
+
+interface Articulation {
+    length: number;         // Share of the written length that sounds
+    emphasis: number;       // Velocity multiplier
+    accent: number;
+}
+
+interface TempoSegment {
+    startBeat: number;
+    startSeconds: number;
+    secondsPerBeat: number;
 }
 
 export class Sequencer {
     private audioContext: AudioContext;
     private synth: FMSynth;
+    private accompanimentSynth: FMSynth | null = null;
     private tempo: number;
-    private secondsPerBeat: number;
+    private tempoScale = 1;
+    private tempoMap: TempoSegment[] = [];
 
     private scheduledEvents: ScheduledEvent[] = [];
+    private voiceTimbres = new Map<string, FMTimbre>();    // By voice ID, for voices naming an instrument
     private currentEventIndex = 0;
     private startTime = 0;
     private pauseTime = 0;
     private isRunning = false;
 
+    private legatoOverlap = 0.06; // seconds a slurred note rings into the next
+    private detachedLength = 0.9; // share of its length an unslurred, unmarked note sounds
+    private hairpinStep = 0.15;   // velocity change across a hairpin that has no target dynamic
+    private fermataStretch = 1.75; // a fermata slows time by this factor while it is held
+
     private lookahead = 25; // ms to look ahead
     private scheduleAheadTime = 0.1; // seconds to schedule ahead
     private timerID: number | null = null;
@@ -45,32 +89,78 @@ export class Sequencer {
         this.audioContext = audioContext;
         this.synth = synth;
         this.tempo = tempo;
-        this.secondsPerBeat = 60 / tempo;
+        this.buildTempoMap([], []);
         this.onNoteStart = onNoteStart;
         this.onNoteEnd = onNoteEnd;
         this.onPlaybackEnd = onPlaybackEnd;
     }
 
     /**
-     * Load notes from Musical Object Model
+     * Synth for generated accompaniment, so it has its own volume
+     */
+    setAccompanimentSynth(synth: FMSynth | null): void {
+        this.accompanimentSynth = synth;
+    }
+
+    /**
+     * Load notes from Musical Object Model, following the score's repeats and tempo changes.
+     * Repeated measures schedule their notes again under the same note IDs, together with
+     * any accompaniment generated for them
      */
-    loadNotes(mom: MusicalObjectModel): void {
+    loadNotes(result: ParseResult, accompaniment: AccompanimentNote[] = []): void {
+        const mom = result.mom;
+        const performance = new RepeatUnfolder().unfold(mom.measures);
         this.scheduledEvents = [];
+        this.buildTempoMap(result.changes, performance);
 
+        this.voiceTimbres.clear();
+        for (const def of mom.headers.V ?? []) {
+            const timbre = Instruments.timbreFor(def);
+            if (timbre) this.voiceTimbres.set(def.id, timbre);
+        }
+
+        const velocities = this.noteVelocities(mom);
+        const ornaments = new OrnamentRealizer(OrnamentRealizer.styleFrom(result.directives), result.changes);
+
+        const notesById = new Map<string, Note>();
         for (const measure of mom.measures) {
             for (const element of measure.elements) {
-                if ('midiNote' in element) {
-                    // It's a Note
-                    const note = element as Note;
-                    this.scheduledEvents.push({
-                        noteId: note.id,
-                        midiNote: note.midiNote,
-                        velocity: note.velocity,
-                        startBeat: note.startTime,
-                        durationBeats: note.duration
-                    });
+                for (const note of this.notesOf(element)) notesById.set(note.id, note);
+            }
+        }
+
+        const tieTargets = new Set<string>();
+        for (const note of notesById.values()) {
+            if (note.tiedTo) tieTargets.add(note.tiedTo);
+        }
+
+        const slurred = this.findSlurredNotes(mom);
+
+        const accompanimentByMeasure = new Map<number, AccompanimentNote[]>();
+        for (const note of accompaniment) {
+            if (!accompanimentByMeasure.has(note.measure)) accompanimentByMeasure.set(note.measure, []);
+            accompanimentByMeasure.get(note.measure)!.push(note);
+        }
+
+        for (const { measure, startTime } of performance) {
+            const offset = startTime - measure.startTime;
+            this.addAccompanimentEvents(accompanimentByMeasure.get(measure.number) ?? [], offset);
+            for (const element of measure.elements) {
+                const graceBeats = this.addGraceEvents(element, offset, velocities);
+
+                // Chord notes sound together; rests are handled implicitly by note timing.
+                // An ornament on a chord is played on its top note
+                const notes = this.notesOf(element);
+                const ornamented = OrnamentRealizer.isOrnamented(element.decorations ?? [])
+                    ? notes.reduce((top, note) => note.midiNote > top.midiNote ? note : top, notes[0])
+                    : null;
+
+                for (const note of notes) {
+                    const articulation = this.articulation(element.decorations ?? [], slurred.has(note.id));
+                    const velocity = Math.min(1, (velocities.get(note.id) ?? note.velocity) * articulation.emphasis);
+                    const event = this.addNoteEvent(note, notesById, tieTargets, slurred, graceBeats, offset, articulation, velocity);
+                    if (note === ornamented) this.addOrnamentEvents(event, note, element.decorations!, ornaments);
                 }
-                // Rests are handled implicitly by note timing
             }
         }
 
@@ -78,6 +168,319 @@ export class Sequencer {
         this.scheduledEvents.sort((a, b) => a.startBeat - b.startBeat);
     }
 
+    private addNoteEvent(
+        note: Note,
+        notesById: Map<string, Note>,
+        tieTargets: Set<string>,
+        slurred: Set<string>,
+        graceBeats: number,
+        offset: number,
+        articulation: Articulation,
+        velocity: number
+    ): ScheduledEvent {
+        // A tied chain sounds once, for its combined length, from its first note
+        let soundBeats = tieTargets.has(note.id) ? 0 : note.duration;
+        let chainEnd = note;
+        if (soundBeats > 0) {
+            const visited = new Set<string>([note.id]);
+            while (chainEnd.tiedTo && !visited.has(chainEnd.tiedTo)) {
+                const next = notesById.get(chainEnd.tiedTo);
+                if (!next) break;
+                visited.add(next.id);
+                soundBeats += next.duration;
+                chainEnd = next;
+            }
+        }
+
+        const event: ScheduledEvent = {
+            noteId: note.id,
+            midiNote: note.midiNote,
+            velocity,
+            startBeat: note.startTime + offset + graceBeats,
+            durationBeats: note.duration - graceBeats,
+            soundBeats: soundBeats > 0 ? (soundBeats - graceBeats) * articulation.length : 0,
+            legato: slurred.has(chainEnd.id) && articulation.length >= 1,
+            accent: articulation.accent,
+            accompaniment: false,
+            timbre: this.voiceTimbres.get(note.voice)
+        };
+        this.scheduledEvents.push(event);
+        return event;
+    }
+
+    /**
+     * Replace the sound of a note's event by its realized ornament. The event keeps the
+     * note's highlight and plays the first ornament note; the rest follow as their own events
+     */
+    private addOrnamentEvents(
+        event: ScheduledEvent,
+        note: Note,
+        decorations: Decoration[],
+        ornaments: OrnamentRealizer
+    ): void {
+        const realized = ornaments.realize(note, decorations, event.soundBeats);
+        if (!realized) return;
+
+        event.midiNote = realized[0].midiNote;
+        event.soundBeats = realized[0].duration;
+        const legato = event.legato;
+        event.legato = true;
+
+        realized.slice(1).forEach((ornamentNote, index) => {
+            const last = index === realized.length - 2;
+            this.scheduledEvents.push({
+                ...event,
+                noteId: `${note.id}_orn${index + 1}`,
+                midiNote: ornamentNote.midiNote,
+                startBeat: event.startBeat + ornamentNote.offset,
+                durationBeats: ornamentNote.duration,
+                soundBeats: ornamentNote.duration,
+                legato: last ? legato : true,
+                accent: 0
+            });
+        });
+    }
+
+    /**
+     * Sounding length, emphasis and attack for a note's decorations
+     */
+    private articulation(decorations: Decoration[], slurred: boolean): Articulation {
+        const result: Articulation = { length: slurred ? 1 : this.detachedLength, emphasis: 1, accent: 0 };
+        const types = new Set(decorations.map(d => d.type));
+
+        if (types.has('tenuto')) result.length = 1;
+        if (types.has('staccato')) result.length = slurred ? 0.75 : 0.5;    // Under a slur: portato
+        if (types.has('wedge')) result.length = 0.3;
+
+        if (types.has('accent')) {
+            result.emphasis = 1.2;
+            result.accent = 0.6;
+        }
+        if (types.has('marcato') || types.has('sfz')) {
+            result.emphasis = 1.3;
+            result.accent = 1;
+            if (types.has('marcato')) result.length = Math.min(result.length, 0.75);
+        }
+
+        return result;
+    }
+
+    /**
+     * Velocity of every note from its dynamic level, with hairpins moving gradually from
+     * the level where they start to the next dynamic mark (or one step beyond)
+     */
+    private noteVelocities(mom: MusicalObjectModel): Map<string, number> {
+        const velocities = new Map<string, number>();
+
+        for (const elements of mom.voices.values()) {
+            const notes = elements.flatMap(element => this.notesOf(element));
+            for (const note of notes) {
+                velocities.set(note.id, note.dynamic ? DYNAMIC_VELOCITIES[note.dynamic] : note.velocity);
+            }
+
+            let i = 0;
+            while (i < notes.length) {
+                const hairpin = notes[i].hairpin;
+                if (!hairpin) {
+                    i++;
+                    continue;
+                }
+
+                let j = i;
+                while (j < notes.length && notes[j].hairpin === hairpin) j++;
+
+                const from = velocities.get(notes[i].id)!;
+                const direction = hairpin === 'crescendo' ? 1 : -1;
+                let to = from + direction * this.hairpinStep;
+                const after = notes[j];
+                if (after?.dynamic && after.dynamic !== notes[i].dynamic) {
+                    const target = DYNAMIC_VELOCITIES[after.dynamic];
+                    if ((target - from) * direction > 0) to = target;
+                }
+                to = Math.max(0.1, Math.min(1, to));
+
+                const start = notes[i].startTime;
+                const end = notes[j - 1].startTime + notes[j - 1].duration;
+                for (let k = i; k < j; k++) {
+                    const progress = end > start ? (notes[k].startTime - start) / (end - start) : 0;
+                    velocities.set(notes[k].id, from + (to - from) * progress);
+                }
+                i = j;
+            }
+        }
+
+        return velocities;
+    }
+
+    /**
+     * Schedule an element's grace notes at its start, returning the beats they borrow from it
+     */
+    private addGraceEvents(element: Note | Rest | Chord, offset: number, velocities: Map<string, number>): number {
+        if (!('notes' in element || 'midiNote' in element) || !element.grace) return 0;
+
+        // Appoggiaturas may take up to half of the main note, acciaccaturas a quarter
+        const { notes, acciaccatura } = element.grace;
+        const share = element.duration * (acciaccatura ? 0.25 : 0.5);
+        const each = Math.min(acciaccatura ? 1 / 64 : 1 / 32, share / notes.length);
+
+        // Grace notes are played a little softer than the note they ornament
+        const mainNote = this.notesOf(element)[0];
+        const velocity = (velocities.get(mainNote.id) ?? mainNote.velocity) * 0.8;
+
+        notes.forEach((grace, index) => {
+            this.scheduledEvents.push({
+                noteId: grace.id,
+                midiNote: grace.midiNote,
+                velocity,
+                startBeat: element.startTime + offset + index * each,
+                durationBeats: each,
+                soundBeats: each,
+                legato: true,
+                accent: 0,
+                accompaniment: false,
+                timbre: this.voiceTimbres.get(element.voice)
+            });
+        });
+
+        return each * notes.length;
+    }
+
+    private addAccompanimentEvents(notes: AccompanimentNote[], offset: number): void {
+        notes.forEach((note, index) => {
+            this.scheduledEvents.push({
+                noteId: `accompaniment_${note.measure}_${index}`,
+                midiNote: note.midiNote,
+                velocity: note.velocity,
+                startBeat: note.startTime + offset,
+                durationBeats: note.duration,
+                soundBeats: note.duration * this.detachedLength,
+                legato: false,
+                accent: 0,
+                accompaniment: true
+            });
+        });
+    }
+
+    /**
+     * Notes that lead into another note under a slur, per voice
+     */
+    private findSlurredNotes(mom: MusicalObjectModel): Set<string> {
+        const slurred = new Set<string>();
+
+        for (const elements of mom.voices.values()) {
+            let depth = 0;
+            for (const element of elements) {
+                const notes = this.notesOf(element);
+                if (notes.some(n => n.slurStart)) depth++;
+                if (notes.some(n => n.slurEnd)) depth = Math.max(0, depth - 1);
+                if (depth > 0) notes.forEach(n => slurred.add(n.id));
+            }
+        }
+
+        return slurred;
+    }
+
+    /**
+     * Build the beat-to-seconds map of the performance from the score's tempo changes.
+     * MOM beats are whole notes, so Q:1/4=120 gives 2 seconds per beat
+     */
+    private buildTempoMap(changes: ScoreChange[], performance: PerformedMeasure[]): void {
+        // Without a Q: field the constructor tempo counts quarter notes
+        const tempos = [{ position: 0, secondsPerBeat: 240 / this.tempo }];
+        for (const change of changes) {
+            if (change.type !== 'tempo') continue;
+            const secondsPerBeat = this.parseTempo(change.value);
+            if (secondsPerBeat !== null) tempos.push({ position: change.position, secondsPerBeat });
+        }
+        const tempoAt = (position: number) => tempos.filter(t => t.position <= position).pop()!.secondsPerBeat;
+
+        this.tempoMap = [{ startBeat: 0, startSeconds: 0, secondsPerBeat: tempoAt(0) }];
+
+        // A repeated or jumped-to measure resumes the tempo written for it. Time slows
+        // down while a fermata is held, in every voice
+        for (const { measure, startTime } of performance) {
+            const measureEnd = measure.startTime + measure.duration;
+            const fermatas = measure.elements
+                .filter(e => e.decorations?.some(d => d.type === 'fermata'))
+                .map(e => ({ start: e.startTime, end: e.startTime + e.duration }));
+
+            const breakpoints = new Set<number>([measure.startTime]);
+            for (const tempo of tempos) {
+                if (tempo.position > measure.startTime && tempo.position < measureEnd) breakpoints.add(tempo.position);
+            }
+            for (const { start, end } of fermatas) {
+                breakpoints.add(start);
+                if (end < measureEnd) breakpoints.add(end);
+            }
+
+            for (const position of [...breakpoints].sort((a, b) => a - b)) {
+                const held = fermatas.some(f => position >= f.start && position < f.end);
+                this.addTempoSegment(
+                    startTime + position - measure.startTime,
+                    tempoAt(position) * (held ? this.fermataStretch : 1)
+                );
+            }
+        }
+    }
+
+    private addTempoSegment(startBeat: number, secondsPerBeat: number): void {
+        const last = this.tempoMap[this.tempoMap.length - 1];
+        if (last.secondsPerBeat === secondsPerBeat) return;
+
+        if (startBeat <= last.startBeat) {
+            last.secondsPerBeat = secondsPerBeat;
+            return;
+        }
+
+        this.tempoMap.push({
+            startBeat,
+            startSeconds: last.startSeconds + (startBeat - last.startBeat) * last.secondsPerBeat,
+            secondsPerBeat
+        });
+    }
+
+    /**
+     * Seconds per beat for a Q: value such as "1/4=120", "3/8=60", "1/4 1/8=90",
+     * "\"Allegro\" 1/4=132" or a bare "120" (quarter notes)
+     */
+    private parseTempo(value: string): number | null {
+        const cleaned = value.replace(/"[^"]*"/g, '').trim();
+
+        const match = cleaned.match(/^([\d/\s]*)=\s*(\d+(?:\.\d+)?)/);
+        if (match) {
+            const fractions = match[1].match(/\d+\/\d+/g) ?? ['1/4'];
+            const beatUnit = fractions.reduce((sum, fraction) => {
+                const [numerator, denominator] = fraction.split('/').map(Number);
+                return sum + numerator / denominator;
+            }, 0);
+            const bpm = parseFloat(match[2]);
+            return bpm > 0 && beatUnit > 0 ? 60 / (bpm * beatUnit) : null;
+        }
+
+        const bare = cleaned.match(/^(\d+(?:\.\d+)?)$/);
+        if (bare && parseFloat(bare[1]) > 0) return 240 / parseFloat(bare[1]);
+
+        return null;
+    }
+
+    /**
+     * Playback time in seconds of a beat position
+     */
+    private beatToSeconds(beat: number): number {
+        let segment = this.tempoMap[0];
+        for (const candidate of this.tempoMap) {
+            if (candidate.startBeat > beat) break;
+            segment = candidate;
+        }
+        return (segment.startSeconds + (beat - segment.startBeat) * segment.secondsPerBeat) * this.tempoScale;
+    }
+
+    private notesOf(element: Note | Rest | Chord): Note[] {
+        if ('notes' in element) return element.notes;
+        if ('midiNote' in element) return [element];
+        return [];
+    }
+
     /**
      * Start playback from beginning
      */
@@ -140,12 +543,12 @@ export class Sequencer {
         if (!this.isRunning) return;
 
         const currentTime = this.audioContext.currentTime;
-        const currentBeat = (currentTime - this.startTime) / this.secondsPerBeat;
 
         // Schedule notes within the lookahead window
         while (this.currentEventIndex < this.scheduledEvents.length) {
             const event = this.scheduledEvents[this.currentEventIndex];
-            const eventTime = this.startTime + (event.startBeat * this.secondsPerBeat);
+            const eventOffset = this.beatToSeconds(event.startBeat);
+            const eventTime = this.startTime + eventOffset;
 
             // If the event is beyond the schedule window, stop scheduling
             if (eventTime > currentTime + this.scheduleAheadTime) {
@@ -153,14 +556,24 @@ export class Sequencer {
             }
 
             // Schedule the note
-            const durationSeconds = event.durationBeats * this.secondsPerBeat;
-            this.synth.scheduleNote(
-                event.noteId,
-                event.midiNote,
-                event.velocity,
-                eventTime,
-                durationSeconds
-            );
+            const durationSeconds = this.beatToSeconds(event.startBeat + event.durationBeats) - eventOffset;
+            const synth = event.accompaniment ? this.accompanimentSynth : this.synth;
+            if (event.soundBeats > 0 && synth) {
+                synth.scheduleNote(
+                    event.noteId,
+                    event.midiNote,
+                    event.velocity,
+                    eventTime,
+                    this.beatToSeconds(event.startBeat + event.soundBeats) - eventOffset + (event.legato ? this.legatoOverlap : 0),
+                    event.accent,
+                    event.timbre
+                );
+            }
+
+            if (event.accompaniment) {
+                this.currentEventIndex++;
+                continue;
+            }
 
             // Emit note start event (with visual timing)
             const delay = (eventTime - currentTime) * 1000;
@@ -180,7 +593,7 @@ export class Sequencer {
             // Wait for last notes to finish
             const lastEvent = this.scheduledEvents[this.scheduledEvents.length - 1];
             if (lastEvent) {
-                const endTime = this.startTime + ((lastEvent.startBeat + lastEvent.durationBeats) * this.secondsPerBeat);
+                const endTime = this.startTime + this.beatToSeconds(lastEvent.startBeat + lastEvent.durationBeats);
                 const remainingTime = (endTime - currentTime) * 1000;
 
                 setTimeout(() => {
@@ -196,11 +609,10 @@ export class Sequencer {
     }
 
     /**
-     * Set tempo (BPM)
+     * Set tempo (BPM); tempo changes in the score keep their proportions
      */
     setTempo(bpm: number): void {
-        this.tempo = bpm;
-        this.secondsPerBeat = 60 / bpm;
+        this.tempoScale = this.tempo / bpm;
     }
 
     /**
@@ -208,6 +620,13 @@ export class Sequencer {
      */
     getCurrentBeat(): number {
         if (!this.isRunning) return 0;
-        return (this.audioContext.currentTime - this.startTime) / this.secondsPerBeat;
+
+        const seconds = (this.audioContext.currentTime - this.startTime) / this.tempoScale;
+        let segment = this.tempoMap[0];
+        for (const candidate of this.tempoMap) {
+            if (candidate.startSeconds > seconds) break;
+            segment = candidate;
+        }
+        return segment.startBeat + (seconds - segment.startSeconds) / segment.secondsPerBeat;
     }
 }
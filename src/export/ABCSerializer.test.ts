@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ABCSerializer } from './ABCSerializer';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+import type { ParseResult } from '../types';
+
+const TUNE = `X:1
+T:Round & Trip
+C:Trad.
+M:3/4
+L:1/8
+Q:"Allegro" 1/4=120
+%%marker Intro
+K:G
+|: "G"!mf!!<(!(G2 A2 B2-) | B2 !<)!.c2 !trill!d2 | "D7/F#"[DFA]4 !fermata!z2 :|
+w:Hel-lo dear world
+[1 !>(!g2 f2 !>)!e2 | d6 :|[2 (3efg !accent!a2 !3!b2 ||
+[M:4/4][K:F] "Bbmaj7"_B2 ^c2 {/d}e4 | !segno! c8 | "^D.S. al Fine"[Q:3/8=60]F8 |]`;
+
+const VOICES = `X:1
+T:Two voices
+M:6/8
+L:1/8
+V:S name="Soprano" clef=treble
+V:B name="Bass" shortname="B." clef=bass
+K:Eb
+V:S
+c3 (5:4:5cdefg | [c2e]g !>(!a2b !>)!c'3 | (3:2:3ABc d2 e/f/ g3 | [K:A] a6 |]
+w: Glo-ry be to the Fa-ther
+V:B
+C,3 E,3 | "^ann"A,,6 | B,,6 | x3 z3 |]`;
+
+function parse(abc: string): ParseResult {
+    return new ABCPlusParser().parse(abc);
+}
+
+// What playback hears of a score: each voice's notes with pitch, onset and length
+function sounding(result: ParseResult): [string, number[][]][] {
+    return [...result.mom.voices].map(([id, elements]) => [id, elements.flatMap(element =>
+        ('notes' in element ? element.notes : 'midiNote' in element ? [element] : [])
+            .map(note => [note.midiNote, note.startTime, note.duration]))]);
+}
+
+describe('ABCSerializer', () => {
+    it('writes a plain tune back as it was written', () => {
+        const abc = 'X:1\nT:Scale\nM:4/4\nL:1/8\nK:D\nD2 E2 F2 G2 | A8 |]';
+        expect(new ABCSerializer().serialize(parse(abc)).trim()).toBe(abc);
+    });
+
+    it.each([['one voice', TUNE], ['two voices', VOICES]])('round-trips a tune with %s', (_, abc) => {
+        const original = parse(abc);
+        const written = new ABCSerializer().serialize(original);
+        const reparsed = parse(written);
+
+        expect(reparsed.errors).toEqual([]);
+        expect(sounding(reparsed)).toEqual(sounding(original));
+        expect(reparsed.mom.headers).toEqual(original.mom.headers);
+        expect(reparsed.changes).toEqual(original.changes);
+        expect(reparsed.harmony).toEqual(original.harmony);
+        expect(new ABCSerializer().serialize(reparsed)).toBe(written);
+    });
+
+    it('keeps repeats, endings and navigation marks', () => {
+        const reparsed = parse(new ABCSerializer().serialize(parse(TUNE)));
+        const measures = reparsed.mom.measures.map(({ repeatStart, barlineType, ending, navigation }) =>
+            ({ repeatStart, barlineType, ending, navigation }));
+        expect(measures).toEqual(parse(TUNE).mom.measures.map(({ repeatStart, barlineType, ending, navigation }) =>
+            ({ repeatStart, barlineType, ending, navigation })));
+    });
+
+    it('writes directives under the names they were written with', () => {
+        const abc = 'X:1\nM:2/4\nL:1/8\n%%staves (1 2)\n%%swing 0.6\nK:C\nV:1\nCDEF|\n%%swing-off\nEFGA|]\nV:2\nC,4|C,4|]';
+        const written = new ABCSerializer().serialize(parse(abc));
+        expect(written).toContain('%%staves (1 2)\n');
+        expect(written).toContain('[I:swing-off]');
+        expect(parse(written).directives).toEqual(parse(abc).directives);
+    });
+
+    it('writes invisible rests back as invisible', () => {
+        const abc = 'X:1\nT:Rests\nM:2/4\nL:1/8\nK:C\nx2 z2 | X2 | Z2 | C4 |]';
+        expect(new ABCSerializer().serialize(parse(abc)).trim()).toBe(abc);
+    });
+
+    it('keeps lyrics on the notes they were sung on', () => {
+        const lyrics = (result: ParseResult) => [...result.mom.voices.values()][0]
+            .map(element => ('notes' in element ? element.notes[0] : 'midiNote' in element ? element : null)?.lyrics);
+        expect(lyrics(parse(new ABCSerializer().serialize(parse(VOICES))))).toEqual(lyrics(parse(VOICES)));
+    });
+});
@@ -0,0 +1,648 @@
+/**
+ * ABC Serializer
+ * Writes a parsed score back out as ABC+ text: headers, voices, notes, chords, rests, ties,
+ * slurs, tuplets, decorations, chord symbols, annotations, lyrics and directives
+ */
+
+import type {
+    ParseResult,
+    ABCHeaders,
+    Note,
+    Rest,
+    Chord,
+    Measure,
+    Directive,
+    DecorationType,
+    AnnotationPlacement,
+    ScoreChange,
+    ScoreChangeType
+} from '../types';
+import { KeySignature } from '../theory/KeySignature';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+const LETTER_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// How each decoration is written; dynamics and fingerings are written by value
+const DECORATION_NAMES: Partial<Record<DecorationType, string>> = {
+    'staccato': '.',
+    'fermata': '!fermata!',
+    'accent': '!accent!',
+    'tenuto': '!tenuto!',
+    'marcato': '!marcato!',
+    'trill': '!trill!',
+    'mordent': '!mordent!',
+    'uppermordent': '!uppermordent!',
+    'turn': '!turn!',
+    'invertedturn': '!invertedturn!',
+    'roll': '!roll!',
+    'arpeggio': '!arpeggio!',
+    'upbow': '!upbow!',
+    'downbow': '!downbow!',
+    'breath': '!breath!',
+    'wedge': '!wedge!',
+    'snap': '!snap!',
+    'slide': '!slide!',
+    'open': '!open!',
+    'thumb': '!thumb!',
+    'sfz': '!sfz!',
+    'crescendo': '!<(!',
+    'diminuendo': '!>(!'
+};
+
+const HAIRPIN_ENDS: Record<'crescendo' | 'diminuendo', string> = { crescendo: '!<)!', diminuendo: '!>)!' };
+
+const ANNOTATION_PREFIXES: Record<AnnotationPlacement, string> = {
+    above: '^',
+    below: '_',
+    left: '<',
+    right: '>',
+    free: '@'
+};
+
+const CHANGE_FIELDS: Record<ScoreChangeType, string> = { tempo: 'Q', meter: 'M', key: 'K', length: 'L' };
+
+/**
+ * Text written into a voice's music at a beat position: an inline field, an inline
+ * directive, a chord symbol or an annotation
+ */
+interface Insertion {
+    position: number;
+    measure: number;
+    text: string;
+    change?: ScoreChange;
+}
+
+/**
+ * Writing state kept for each voice, mirroring what the parser tracks while reading it back
+ */
+interface VoiceWriter {
+    id: string;
+    key: KeySignature;
+    unitLength: number;
+    barAccidentals: Map<string, number>;
+    insertions: Insertion[];
+    continuations: Set<string>;     // IDs of notes that continue a tie
+    hairpinEnds: Set<string>;       // IDs of the last elements under a hairpin
+    lyricNotes: Note[];             // Notes sung on the line being written
+    lastMeasure: number;            // Index of the voice's last measure
+    octaveShift: number;            // Semitones V: octave= and an octave clef add to the written notes
+    midiLines: string[];            // %%MIDI lines for the voice, written after its first V: line
+}
+
+interface Tuplet {
+    p: number;
+    q: number;
+    count: number;
+}
+
+export class ABCSerializer {
+    private measuresPerLine = 4;
+    private result!: ParseResult;
+
+    /**
+     * ABC+ text for a parse result. Parsing the text again gives an equivalent score; only
+     * element IDs, beaming and redundant accidentals are not kept
+     */
+    serialize(result: ParseResult): string {
+        this.result = result;
+        const { mom } = result;
+        const headers = mom.headers;
+        const voiceIds = [...mom.voices.keys()];
+        const labelled = voiceIds.length > 1 || (headers.V?.length ?? 0) > 0 || (voiceIds[0] ?? 'V1') !== 'V1';
+
+        const writers = new Map(voiceIds.map(id => [id, this.createWriter(id, headers)]));
+        const headerDirectives = this.distributeInsertions(writers, voiceIds[0]);
+
+        const lines = this.headerLines(headers, headerDirectives);
+
+        for (const group of this.lineGroups(mom.measures)) {
+            for (const writer of writers.values()) {
+                if (group[0] > writer.lastMeasure) continue;
+                if (labelled) lines.push(`V:${writer.id}`);
+                lines.push(...writer.midiLines.splice(0));
+
+                writer.lyricNotes = [];
+                lines.push(group
+                    .filter(index => index <= writer.lastMeasure)
+                    .map(index => this.writeMeasure(index, writer, writer.id === voiceIds[0]))
+                    .join(' '));
+                lines.push(...this.lyricLines(writer.lyricNotes));
+            }
+        }
+
+        for (const words of headers.W ?? []) lines.push(`W:${words}`);
+
+        return lines.join('\n') + '\n';
+    }
+
+    // ==========================================
+    // Headers & Voices
+    // ==========================================
+
+    private headerLines(headers: ABCHeaders, directives: Directive[]): string[] {
+        const lines = [`X:${headers.X}`, `T:${headers.T}`];
+        if (headers.C) lines.push(`C:${headers.C}`);
+        lines.push(`M:${headers.M}`, `L:${headers.L}`);
+        if (headers.Q) lines.push(`Q:${headers.Q}`);
+
+        for (const def of headers.V ?? []) {
+            let line = `V:${def.id}`;
+            if (def.name) line += ` name="${def.name}"`;
+            if (def.shortName) line += ` shortname="${def.shortName}"`;
+            if (def.clef) line += ` clef=${def.clef}${def.clefOctave ? (def.clefOctave < 0 ? '-8' : '+8') : ''}`;
+            if (def.octave) line += ` octave=${def.octave}`;
+            if (def.middle) line += ` middle=${def.middle}`;
+            if (def.stem) line += ` stem=${def.stem}`;
+            if (def.instrument) line += ` instrument="${def.instrument}"`;
+            lines.push(line);
+        }
+
+        for (const directive of directives) lines.push(`%%${this.directiveText(directive)}`);
+
+        // K: ends the header
+        lines.push(`K:${headers.K}`);
+        return lines;
+    }
+
+    private createWriter(id: string, headers: ABCHeaders): VoiceWriter {
+        const elements = this.result.mom.voices.get(id) ?? [];
+        const measures = this.result.mom.measures;
+
+        const continuations = new Set<string>();
+        for (const element of elements) {
+            for (const note of this.notesOf(element)) {
+                if (note.tiedTo) continuations.add(note.tiedTo);
+            }
+        }
+
+        // A hairpin is closed before the last note under it: the next note has no hairpin
+        const hairpinEnds = new Set<string>();
+        const sounding = elements.filter(element => this.notesOf(element).length > 0);
+        sounding.forEach((element, index) => {
+            const hairpin = this.notesOf(element)[0].hairpin;
+            const next = sounding[index + 1];
+            if (hairpin && (!next || !this.notesOf(next)[0].hairpin)) hairpinEnds.add(element.id);
+        });
+
+        let lastMeasure = -1;
+        measures.forEach((measure, index) => {
+            if (measure.voices.has(id)) lastMeasure = index;
+        });
+
+        // V: transpose= is not written: the notes and keys were transposed when parsed
+        const def = headers.V?.find(d => d.id === id);
+        const midiLines: string[] = [];
+        if (def?.program !== undefined) midiLines.push(`%%MIDI program ${def.program}`);
+        if (def?.channel !== undefined) midiLines.push(`%%MIDI channel ${def.channel}`);
+
+        return {
+            id,
+            key: KeySignature.parse(headers.K),
+            unitLength: this.parseFraction(headers.L),
+            barAccidentals: new Map(),
+            insertions: [],
+            continuations,
+            hairpinEnds,
+            lyricNotes: [],
+            lastMeasure,
+            octaveShift: 12 * ((def?.octave ?? 0) + (def?.clefOctave ?? 0)),
+            midiLines
+        };
+    }
+
+    /**
+     * Hand score changes, directives, chord symbols and annotations to the voices they are
+     * written in. Returns the directives that belong in the header
+     */
+    private distributeInsertions(writers: Map<string, VoiceWriter>, firstVoice: string | undefined): Directive[] {
+        const { mom, changes, directives, harmony, annotations } = this.result;
+        const writerFor = (voice?: string) => writers.get(voice ?? '') ?? writers.get(firstVoice ?? '');
+        const headerDirectives: Directive[] = [];
+
+        // The change map opens with the header values, which the header already gives
+        const headerValues: Record<ScoreChangeType, string | undefined> = {
+            tempo: mom.headers.Q, meter: mom.headers.M, length: mom.headers.L, key: mom.headers.K
+        };
+        const fromHeader = new Set<ScoreChangeType>();
+        for (const change of changes) {
+            if (!change.voice && change.position === 0 && !fromHeader.has(change.type) && change.value === headerValues[change.type]) {
+                fromHeader.add(change.type);
+                continue;
+            }
+            // Tempo and meter apply to all voices and are written in the first
+            const voice = change.type === 'tempo' || change.type === 'meter' ? undefined : change.voice;
+            writerFor(voice)?.insertions.push({
+                position: change.position,
+                measure: change.measure,
+                text: `[${CHANGE_FIELDS[change.type]}:${change.value}]`,
+                change
+            });
+        }
+
+        // Transpositions are already applied to the notes
+        const allDirectives = (Object.entries(directives) as [string, Directive[]][])
+            .flatMap(([category, list]) => category === 'transpose' ? [] : list)
+            .sort((a, b) => a.position - b.position);
+        for (const directive of allDirectives) {
+            if (!directive.voice && directive.position === 0) {
+                headerDirectives.push(directive);
+                continue;
+            }
+            writerFor(directive.voice)?.insertions.push({
+                position: directive.position,
+                measure: directive.measure,
+                text: `[I:${this.directiveText(directive)}]`
+            });
+        }
+
+        for (const symbol of harmony) {
+            writerFor(symbol.voice)?.insertions.push({ position: symbol.position, measure: symbol.measure, text: `"${symbol.text}"` });
+        }
+        for (const annotation of annotations) {
+            writerFor(annotation.voice)?.insertions.push({
+                position: annotation.position,
+                measure: annotation.measure,
+                text: `"${ANNOTATION_PREFIXES[annotation.placement]}${annotation.text}"`
+            });
+        }
+
+        // Stable, so fields come before directives and directives before quoted text
+        for (const writer of writers.values()) writer.insertions.sort((a, b) => a.position - b.position);
+        return headerDirectives;
+    }
+
+    private directiveText(directive: Directive): string {
+        const entries = Object.entries(directive.attributes);
+        if (entries.length === 0) return directive.name;
+        if (entries.length === 1 && entries[0][0] === 'value') return `${directive.name} ${entries[0][1]}`;
+        return `${directive.name} ${entries.map(([name, value]) => `${name}="${value}"`).join(' ')}`;
+    }
+
+    /**
+     * Measure indices of each music line. A meter change starts a new line, so every voice
+     * reads its part of the line in the same meter
+     */
+    private lineGroups(measures: Measure[]): number[][] {
+        const groups: number[][] = [];
+        let group: number[] = [];
+
+        measures.forEach((measure, index) => {
+            const meterChange = index > 0 && this.result.changes.some(
+                change => change.type === 'meter' && Math.abs(change.position - measure.startTime) < 1e-9
+            );
+            if (group.length >= this.measuresPerLine || (meterChange && group.length > 0)) {
+                groups.push(group);
+                group = [];
+            }
+            group.push(index);
+        });
+        if (group.length > 0) groups.push(group);
+
+        return groups;
+    }
+
+    // ==========================================
+    // Measures & Bar Lines
+    // ==========================================
+
+    /**
+     * One voice's measure, with the bar line that ends it
+     */
+    private writeMeasure(index: number, writer: VoiceWriter, firstVoice: boolean): string {
+        const measures = this.result.mom.measures;
+        const measure = measures[index];
+        const previous = measures[index - 1];
+        const elements = measure.voices.get(writer.id) ?? [];
+        const meter = this.meterAt(measure.startTime);
+        const parts: string[] = [];
+
+        if (index === 0 && measure.repeatStart) parts.push('|:');
+        if (measure.ending && !(previous && this.sameEnding(previous, measure) && this.barAfter(index - 1) === '|')) {
+            parts.push(`[${measure.ending.join(',')}`);
+        }
+
+        // Navigation marks given as annotations are written with the annotations
+        const marks = firstVoice ? this.navigationDecorations(measure) : [];
+        let text = marks.filter(mark => mark === 'segno' || mark === 'coda').map(mark => `!${mark}!`).join('');
+
+        let cursor = measure.startTime;
+        let tuplet: { factor: number; remaining: number } | null = null;
+
+        elements.forEach((element, position) => {
+            // Gaps (from sources other than ABC) are filled with invisible rests
+            if (element.startTime - cursor > 1e-9) {
+                text += `${this.flush(writer, measure, cursor)}x${this.formatLength((element.startTime - cursor) / writer.unitLength)} `;
+            }
+
+            const offset = element.startTime - measure.startTime;
+            const onBeat = Math.abs(offset / meter.beat - Math.round(offset / meter.beat)) < 1e-6;
+            const previousElement = elements[position - 1];
+            const spaced = onBeat || element.duration >= 1 / 4 - 1e-9 || (previousElement?.duration ?? 0) >= 1 / 4 - 1e-9;
+            if (text && spaced && !text.endsWith(' ')) text += ' ';
+
+            text += this.flush(writer, measure, element.startTime);
+
+            if (!tuplet || tuplet.remaining === 0) {
+                const found = this.tupletAt(elements, position, writer.unitLength);
+                tuplet = found ? { factor: found.p / found.q, remaining: found.count } : null;
+                if (found) text += found.count === found.p && found.p === 3 ? '(3' : `(${found.p}:${found.q}:${found.count}`;
+            }
+            const factor = tuplet ? tuplet.factor : 1;
+            if (tuplet) tuplet.remaining--;
+
+            const wholeBars = meter.length && elements.length === 1 && !('midiNote' in element) && !('notes' in element)
+                ? element.duration / meter.length
+                : 0;
+            text += wholeBars >= 2 && Math.abs(wholeBars - Math.round(wholeBars)) < 1e-6
+                ? `${'invisible' in element && element.invisible ? 'X' : 'Z'}${Math.round(wholeBars)}`
+                : this.writeElement(element, writer, factor);
+
+            cursor = element.startTime + element.duration;
+        });
+
+        text += this.flush(writer, measure, Infinity);
+        if (elements.length === 0) text += `x${this.formatLength(measure.duration / writer.unitLength)}`;
+        text += marks.filter(mark => mark !== 'segno' && mark !== 'coda').map(mark => `!${mark}!`).join('');
+
+        parts.push(text.trim(), this.barAfter(index));
+        if (index === writer.lastMeasure) {
+            // Anything after the voice's last note, such as a closing directive
+            const rest = this.flush(writer, measure, Infinity, true);
+            if (rest) parts.push(rest);
+        }
+
+        // Accidentals only last until the end of the bar
+        writer.barAccidentals.clear();
+        return parts.filter(part => part).join(' ');
+    }
+
+    /**
+     * Bar line ending a measure, which also opens a repeat starting in the next one
+     */
+    private barAfter(index: number): string {
+        const measures = this.result.mom.measures;
+        const measure = measures[index];
+        const next = measures[index + 1];
+
+        switch (measure.barlineType) {
+            case 'final':
+                return '|]';
+            case 'repeat-start':
+                return '|:';
+            case 'repeat-both':
+                return '::';
+            case 'repeat-end':
+                return next?.repeatStart ? '::' : ':|';
+            case 'double':
+                return next?.repeatStart ? '|:' : '||';
+        }
+
+        if (next?.repeatStart) return '|:';
+        // A single bar line would carry the ending on into the next measure
+        if (measure.ending && next && !next.ending) return '||';
+        return '|';
+    }
+
+    private sameEnding(a: Measure, b: Measure): boolean {
+        return a.ending !== undefined && b.ending !== undefined && a.ending.join(',') === b.ending.join(',');
+    }
+
+    /**
+     * Navigation marks of a measure that are written as decorations, not as annotations
+     */
+    private navigationDecorations(measure: Measure): string[] {
+        const marks = [...(measure.navigation ?? [])];
+        for (const annotation of this.result.annotations) {
+            if (annotation.measure !== measure.number) continue;
+            const mark = ABCPlusParser.navigationMark(annotation.text);
+            const index = mark ? marks.indexOf(mark) : -1;
+            if (index >= 0) marks.splice(index, 1);
+        }
+        return marks;
+    }
+
+    /**
+     * Write the voice's insertions up to a position (or measure end). Fields also update
+     * the key and unit length the voice's following notes are written in
+     */
+    private flush(writer: VoiceWriter, measure: Measure, position: number, all = false): string {
+        let text = '';
+        while (writer.insertions.length > 0) {
+            const next = writer.insertions[0];
+            const due = all || next.measure < measure.number ||
+                (next.measure === measure.number && next.position <= position + 1e-9);
+            if (!due) break;
+
+            writer.insertions.shift();
+            text += next.text;
+            if (next.change?.type === 'key') writer.key = KeySignature.parse(next.change.value);
+            if (next.change?.type === 'length') writer.unitLength = this.parseFraction(next.change.value);
+        }
+        return text;
+    }
+
+    // ==========================================
+    // Notes, Chords & Rests
+    // ==========================================
+
+    /**
+     * A note, chord or rest with its decorations, grace notes, slurs and ties. `factor`
+     * undoes the tuplet the element is written in
+     */
+    private writeElement(element: Note | Rest | Chord, writer: VoiceWriter, factor: number): string {
+        const notes = this.notesOf(element);
+        let text = '';
+
+        for (const decoration of element.decorations ?? []) {
+            if (decoration.type === 'fingering') text += `!${decoration.value}!`;
+            else if (decoration.type === 'text') text += `"^${decoration.value}"`;
+            else text += DECORATION_NAMES[decoration.type] ?? `!${decoration.type}!`;
+        }
+        if (writer.hairpinEnds.has(element.id)) text += HAIRPIN_ENDS[notes[0].hairpin!];
+
+        if ('grace' in element && element.grace) {
+            const grace = element.grace.notes
+                .map(note => this.writePitch(note, writer) + this.formatLength(note.duration / writer.unitLength))
+                .join('');
+            text += `{${element.grace.acciaccatura ? '/' : ''}${grace}}`;
+        }
+
+        if (notes[0]?.slurStart) text += '(';
+
+        const length = (duration: number) => this.formatLength(duration * factor / writer.unitLength);
+        if ('notes' in element) {
+            // Notes as long as the chord take their length from it
+            const uniform = element.notes.every(note => Math.abs(note.duration - element.duration) < 1e-9);
+            const inner = element.notes
+                .map(note => this.writePitch(note, writer) + (uniform ? '' : length(note.duration)) + (note.tiedTo ? '-' : ''))
+                .join('');
+            text += `[${inner}]${uniform ? length(element.duration) : ''}`;
+        } else if ('midiNote' in element) {
+            text += this.writePitch(element, writer) + length(element.duration) + (element.tiedTo ? '-' : '');
+        } else {
+            text += `${element.invisible ? 'x' : 'z'}${length(element.duration)}`;
+        }
+
+        if (notes.some(note => note.slurEnd)) text += ')';
+
+        const sung = notes.find(note => !writer.continuations.has(note.id));
+        if (sung) writer.lyricNotes.push(sung);
+
+        return text;
+    }
+
+    /**
+     * A note's pitch in ABC, keeping its letter where it has one. The accidental is only
+     * written when the key signature and earlier accidentals in the bar do not give it
+     */
+    private writePitch(note: Note, writer: VoiceWriter): string {
+        const midiNote = note.midiNote - writer.octaveShift;
+        const spelling = (letter: string) => {
+            const octave = Math.round((midiNote - 48 - LETTER_SEMITONES[letter]) / 12);
+            return { letter, octave, accidental: midiNote - 48 - LETTER_SEMITONES[letter] - octave * 12 };
+        };
+
+        const written = note.pitch.match(/[A-Ga-g]/)?.[0].toUpperCase();
+        let { letter, octave, accidental } = spelling(written ?? this.spell(midiNote, writer.key));
+        if (Math.abs(accidental) > 2) ({ letter, octave, accidental } = spelling(this.spell(midiNote, writer.key)));
+
+        const name = octave > 0 ? letter.toLowerCase() + "'".repeat(octave - 1) : letter + ','.repeat(-octave);
+        const implied = writer.barAccidentals.get(name) ?? writer.key.accidentalFor(letter);
+        if (accidental === implied) return name;
+
+        writer.barAccidentals.set(name, accidental);
+        return KeySignature.accidentalText(accidental) + name;
+    }
+
+    /**
+     * Letter for a MIDI note: one the key signature gives it, else a natural, else a sharp
+     * in sharp keys and a flat in flat keys
+     */
+    private spell(midiNote: number, key: KeySignature): string {
+        const pitchClass = ((Math.floor(midiNote) % 12) + 12) % 12;     // Microtones take the letter below
+        const letters = Object.keys(LETTER_SEMITONES);
+        const inKey = letters.find(letter => ((LETTER_SEMITONES[letter] + key.accidentalFor(letter)) % 12 + 12) % 12 === pitchClass);
+        if (inKey) return inKey;
+
+        const natural = letters.find(letter => LETTER_SEMITONES[letter] === pitchClass);
+        if (natural) return natural;
+
+        const neighbour = (pitchClass + (key.fifths < 0 ? 1 : 11)) % 12;
+        return letters.find(letter => LETTER_SEMITONES[letter] === neighbour)!;
+    }
+
+    /**
+     * The tuplet starting at an element whose length is not a plain (dotted) note value:
+     * p notes in the time of q, covering the following elements of the same kind
+     */
+    private tupletAt(elements: (Note | Rest | Chord)[], index: number, unitLength: number): Tuplet | null {
+        const ratio = (element: Note | Rest | Chord) => element.duration / unitLength;
+        if (this.isDyadic(ratio(elements[index]))) return null;
+
+        const p = [3, 5, 7, 9, 11, 13].find(n => this.isDyadic(ratio(elements[index]) * n));
+        if (!p) return null;
+
+        let count = 0;
+        while (index + count < elements.length) {
+            const value = ratio(elements[index + count]);
+            if (this.isDyadic(value) || !this.isDyadic(value * p)) break;
+            count++;
+        }
+
+        // The nearest power of two below p: 3 in 2, 5 in 4, 7 in 4, 9 in 8
+        return { p, q: Math.pow(2, Math.floor(Math.log2(p))), count };
+    }
+
+    private notesOf(element: Note | Rest | Chord): Note[] {
+        return 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+    }
+
+    // ==========================================
+    // Lyrics
+    // ==========================================
+
+    /**
+     * w: lines for the notes of one music line, one per verse sung on them
+     */
+    private lyricLines(notes: Note[]): string[] {
+        const verses = Math.max(0, ...notes.flatMap(note => (note.lyrics ?? []).map(syllable => syllable.verse)));
+        const lines: string[] = [];
+
+        for (let verse = 1; verse <= verses; verse++) {
+            const items: string[] = [];
+            let holding = false;
+
+            for (const note of notes) {
+                const syllable = note.lyrics?.find(s => s.verse === verse);
+                if (!syllable) {
+                    items.push(holding ? '_' : '*');
+                    continue;
+                }
+
+                const text = syllable.text.replace(/-/g, '\\-').replace(/ /g, '~');
+                items.push(syllable.hyphen ? `${text}-` : text || '*');
+                holding = syllable.extender === true;
+            }
+
+            while (items.length > 0 && items[items.length - 1] === '*') items.pop();
+            lines.push(`w:${items.join(' ')}`);
+        }
+
+        return lines;
+    }
+
+    // ==========================================
+    // Lengths & Meter
+    // ==========================================
+
+    /**
+     * A multiple of the unit note length as an ABC length: "", "2", "3/2", "/", "/4"
+     */
+    private formatLength(ratio: number): string {
+        for (let denominator = 1; denominator <= 384; denominator++) {
+            const numerator = Math.round(ratio * denominator);
+            if (Math.abs(ratio * denominator - numerator) > 1e-6) continue;
+
+            if (denominator === 1) return numerator === 1 ? '' : String(numerator);
+            if (numerator === 1) return denominator === 2 ? '/' : `/${denominator}`;
+            return `${numerator}/${denominator}`;
+        }
+        return `${Math.round(ratio * 384)}/384`;
+    }
+
+    /**
+     * Whether a length is a whole number of some power-of-two fraction of the unit
+     */
+    private isDyadic(ratio: number): boolean {
+        for (let denominator = 1; denominator <= 256; denominator *= 2) {
+            if (Math.abs(ratio * denominator - Math.round(ratio * denominator)) < 1e-6) return true;
+        }
+        return false;
+    }
+
+    private parseFraction(value: string): number {
+        const match = value.match(/(\d+)\/(\d+)/);
+        return match ? parseInt(match[1], 10) / parseInt(match[2], 10) : 1 / 8;
+    }
+
+    /**
+     * Bar length (0 for free meter) and beat of the meter in force at a position
+     */
+    private meterAt(position: number): { length: number; beat: number } {
+        let value = this.result.mom.headers.M;
+        for (const change of this.result.changes) {
+            if (change.type === 'meter' && change.position <= position + 1e-9) value = change.value;
+        }
+
+        if (value === 'C') return { length: 1, beat: 1 / 4 };
+        if (value === 'C|') return { length: 1, beat: 1 / 2 };
+
+        const match = value.match(/^\(?([\d+]+)\)?\/(\d+)$/);
+        if (!match) return { length: 0, beat: 1 / 4 };
+
+        const numerator = match[1].split('+').reduce((sum, n) => sum + (parseInt(n, 10) || 0), 0);
+        const denominator = parseInt(match[2], 10);
+        const compound = denominator === 8 && numerator % 3 === 0 && numerator > 3;
+        return { length: numerator / denominator, beat: compound ? 3 / 8 : 1 / denominator };
+    }
+}
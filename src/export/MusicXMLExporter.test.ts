@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { MusicXMLExporter } from './MusicXMLExporter';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+import { MusicXMLParser } from '../parser/MusicXMLParser';
+import type { ParseResult } from '../types';
+
+const TUNE = `X:1
+T:Round & Trip
+C:Trad.
+M:3/4
+L:1/8
+Q:1/4=120
+K:G
+|: "G"!mf!(G2 A2 B2-) | B2 .c2 !trill!d2 | "D7/F#"[DFA]4 !fermata!z2 :|
+w:Hel-lo dear world
+[1 g2 f2 e2 | d6 :|[2 (3efg !accent!a2 b2 ||
+[M:4/4][K:F] "Bbmaj7"_B2 ^c2 {/d}e4 | c8 |]`;
+
+const VOICES = `X:1
+T:Two voices
+M:6/8
+L:1/8
+V:S name="Soprano" clef=treble
+V:B name="Bass" clef=bass
+K:Eb
+V:S
+c3 (5:4:5cdefg | [c2e]g a2b c'3 |]
+V:B
+C,3 E,3 | A,,6 |]`;
+
+const PIANO = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <part-list>
+    <score-part id="P2"><part-name>Voice</part-name></score-part>
+    <score-part id="P1"><part-name>Piano</part-name></score-part>
+  </part-list>
+  <part id="P2">
+    <measure number="1">
+      <attributes><divisions>1</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time></attributes>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>4</duration><voice>1</voice><type>whole</type></note>
+    </measure>
+  </part>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time>
+        <staves>2</staves><clef number="1"><sign>G</sign><line>2</line></clef><clef number="2"><sign>F</sign><line>4</line></clef></attributes>
+      <note><pitch><step>E</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>half</type><staff>1</staff></note>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>half</type><staff>1</staff></note>
+      <backup><duration>4</duration></backup>
+      <direction placement="below"><direction-type><dynamics><p/></dynamics></direction-type><voice>5</voice><staff>2</staff></direction>
+      <note><pitch><step>C</step><octave>3</octave></pitch><duration>4</duration><voice>5</voice><type>whole</type><staff>2</staff></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+// What playback hears of a score: each voice's notes with pitch, onset and length, the
+// times rounded as MusicXML divisions round them
+function sounding(result: ParseResult): [string, number[][]][] {
+    const round = (time: number) => Math.round(time * 1e6) / 1e6;
+    return [...result.mom.voices].map(([id, elements]) => [id, elements.flatMap(element =>
+        ('notes' in element ? element.notes : 'midiNote' in element ? [element] : [])
+            .map(note => [note.midiNote, round(note.startTime), round(note.duration)]))]);
+}
+
+// Tempo, meter and key changes; MusicXML has no unit note length, and the key of a part's
+// only voice is the part's
+function changesOf(result: ParseResult): [string, number, string][] {
+    return result.changes
+        .filter(change => change.type !== 'length')
+        .map(change => [change.type, change.position, change.value]);
+}
+
+function exportXML(result: ParseResult): string {
+    return new MusicXMLExporter().toMusicXML(result);
+}
+
+function importXML(xml: string): ParseResult {
+    return new MusicXMLParser().parse(xml);
+}
+
+describe('MusicXMLExporter', () => {
+    it('writes well-formed MusicXML 4.0', () => {
+        const doc = new DOMParser().parseFromString(exportXML(new ABCPlusParser().parse(TUNE)), 'application/xml');
+        expect(doc.querySelector('parsererror')).toBeNull();
+        expect(doc.documentElement.tagName).toBe('score-partwise');
+        expect(doc.documentElement.getAttribute('version')).toBe('4.0');
+    });
+
+    it.each([['one voice', TUNE], ['two voices', VOICES]])('round-trips ABC with %s through MusicXML', (_, abc) => {
+        const original = new ABCPlusParser().parse(abc);
+        const imported = importXML(exportXML(original));
+
+        expect(imported.errors).toEqual([]);
+        expect(sounding(imported)).toEqual(sounding(original));
+        expect(imported.mom.headers.K).toBe(original.mom.headers.K);
+        expect(changesOf(imported)).toEqual(changesOf(original));
+        expect(imported.harmony.map(symbol => [symbol.text, symbol.position])).toEqual(original.harmony.map(symbol => [symbol.text, symbol.position]));
+    });
+
+    it('keeps repeats, endings, ties, slurs, decorations and lyrics', () => {
+        const original = new ABCPlusParser().parse(TUNE);
+        const imported = importXML(exportXML(original));
+
+        const measures = (result: ParseResult) => result.mom.measures.map(({ repeatStart, barlineType, ending }) => ({ repeatStart, barlineType, ending }));
+        expect(measures(imported)).toEqual(measures(original));
+
+        const marks = (result: ParseResult) => [...result.mom.voices.values()][0].map(element => {
+            const note = 'notes' in element ? element.notes[0] : 'midiNote' in element ? element : null;
+            return [element.decorations?.map(decoration => decoration.type), note?.tiedTo !== undefined, note?.slurStart, note?.slurEnd, note?.lyrics];
+        });
+        expect(marks(imported)).toEqual(marks(original));
+    });
+
+    it('writes the voices of an imported part back into it, staff by staff', () => {
+        const xml = exportXML(importXML(PIANO));
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+        expect([...doc.querySelectorAll('score-part')].map(part => part.getAttribute('id'))).toEqual(['P2', 'P1']);
+        const piano = doc.querySelector('part[id="P1"]')!;
+        expect(piano.querySelector('staves')?.textContent).toBe('2');
+        expect([...piano.querySelectorAll('note voice')].map(voice => voice.textContent)).toEqual(['1', '1', '5']);
+        expect([...piano.querySelectorAll('note staff')].map(staff => staff.textContent)).toEqual(['1', '1', '2']);
+        expect(piano.querySelector('backup duration')).not.toBeNull();
+        expect(piano.querySelector('direction voice')?.textContent).toBe('5');
+
+        const reimported = importXML(xml);
+        expect(sounding(reimported)).toEqual(sounding(importXML(PIANO)));
+        expect(reimported.mom.headers.V).toEqual(importXML(PIANO).mom.headers.V);
+        expect(reimported.mom.voices.get('P1-1')!.map(element => 'midiNote' in element && element.dynamic)).toEqual([undefined, undefined]);
+        expect(reimported.mom.voices.get('P1-5')!.map(element => 'midiNote' in element && element.dynamic)).toEqual(['p']);
+    });
+
+    it('exports an exported score unchanged', () => {
+        const once = exportXML(importXML(PIANO));
+        expect(exportXML(importXML(once))).toBe(once);
+    });
+
+    it('names parts after voices with valid IDs, numbering the rest around them', () => {
+        const result = new ABCPlusParser().parse('X:1\nL:1/4\nK:C\nV:P2\nC|]\nV:1\nD|]\nV:T\nE|]');
+        const doc = new DOMParser().parseFromString(exportXML(result), 'application/xml');
+        expect([...doc.querySelectorAll('part')].map(part => part.getAttribute('id'))).toEqual(['P2', 'P3', 'T']);
+    });
+});
@@ -0,0 +1,1054 @@
+/**
+ * MusicXML Exporter
+ * Writes a parsed score as a MusicXML 4.0 partwise document, one part for each voice (or
+ * for each part the voices were imported from, with its staves): headers, key and time
+ * signatures, notes, chords, rests, ties, slurs, decorations, lyrics, chord symbols and
+ * directives
+ */
+
+import type {
+    ParseResult,
+    ABCHeaders,
+    Note,
+    Rest,
+    Chord,
+    Measure,
+    Directive,
+    DecorationType,
+    Harmony,
+    ChordQuality,
+    Clef,
+    NavigationMark,
+    VoiceDefinition,
+    ScoreChange
+} from '../types';
+import { KeySignature } from '../theory/KeySignature';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+const LETTER_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// <type> of each note value, in whole notes
+const NOTE_TYPES: [string, number][] = [
+    ['breve', 2],
+    ['whole', 1],
+    ['half', 1 / 2],
+    ['quarter', 1 / 4],
+    ['eighth', 1 / 8],
+    ['16th', 1 / 16],
+    ['32nd', 1 / 32],
+    ['64th', 1 / 64],
+    ['128th', 1 / 128]
+];
+
+const CLEF_SIGNS: Record<Clef, { sign: string; line?: number }> = {
+    treble: { sign: 'G', line: 2 },
+    bass: { sign: 'F', line: 4 },
+    alto: { sign: 'C', line: 3 },
+    tenor: { sign: 'C', line: 4 },
+    percussion: { sign: 'percussion' },
+    none: { sign: 'none' }
+};
+
+// Where each decoration is written in <notations>: inside a group, or directly
+const NOTATIONS: Partial<Record<DecorationType, { group?: 'articulations' | 'ornaments' | 'technical'; name: string }>> = {
+    'accent': { group: 'articulations', name: 'accent' },
+    'marcato': { group: 'articulations', name: 'strong-accent' },
+    'staccato': { group: 'articulations', name: 'staccato' },
+    'tenuto': { group: 'articulations', name: 'tenuto' },
+    'wedge': { group: 'articulations', name: 'staccatissimo' },
+    'breath': { group: 'articulations', name: 'breath-mark' },
+    'slide': { group: 'articulations', name: 'scoop' },
+    'trill': { group: 'ornaments', name: 'trill-mark' },
+    'mordent': { group: 'ornaments', name: 'mordent' },
+    'uppermordent': { group: 'ornaments', name: 'inverted-mordent' },
+    'turn': { group: 'ornaments', name: 'turn' },
+    'invertedturn': { group: 'ornaments', name: 'inverted-turn' },
+    'upbow': { group: 'technical', name: 'up-bow' },
+    'downbow': { group: 'technical', name: 'down-bow' },
+    'open': { group: 'technical', name: 'open-string' },
+    'thumb': { group: 'technical', name: 'thumb-position' },
+    'snap': { group: 'technical', name: 'snap-pizzicato' },
+    'fermata': { name: 'fermata' },
+    'arpeggio': { name: 'arpeggiate' }
+};
+
+const DYNAMICS = new Set<DecorationType>(['pppp', 'ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff', 'ffff', 'sfz']);
+
+// <kind> for each chord symbol suffix
+const CHORD_KINDS: Record<string, string> = {
+    '': 'major',
+    'm': 'minor',
+    'aug': 'augmented',
+    '+': 'augmented',
+    'dim': 'diminished',
+    '7': 'dominant',
+    'maj7': 'major-seventh',
+    'M7': 'major-seventh',
+    'm7': 'minor-seventh',
+    'dim7': 'diminished-seventh',
+    'aug7': 'augmented-seventh',
+    'm7b5': 'half-diminished',
+    'mmaj7': 'major-minor',
+    '6': 'major-sixth',
+    'm6': 'minor-sixth',
+    '9': 'dominant-ninth',
+    'maj9': 'major-ninth',
+    'm9': 'minor-ninth',
+    '11': 'dominant-11th',
+    'maj11': 'major-11th',
+    'm11': 'minor-11th',
+    '13': 'dominant-13th',
+    'maj13': 'major-13th',
+    'm13': 'minor-13th',
+    'sus2': 'suspended-second',
+    'sus4': 'suspended-fourth',
+    'sus': 'suspended-fourth',
+    '5': 'power'
+};
+
+// <kind> of a chord symbol with an unlisted suffix, which is kept as the kind's text
+const QUALITY_KINDS: Record<ChordQuality, string> = {
+    'major': 'major',
+    'minor': 'minor',
+    'diminished': 'diminished',
+    'half-diminished': 'half-diminished',
+    'augmented': 'augmented',
+    'suspended': 'suspended-fourth',
+    'power': 'power'
+};
+
+// How each navigation mark is printed, and the <sound> attribute that plays it
+const NAVIGATION: Record<NavigationMark, { words?: string; sound: [string, string] }> = {
+    'segno': { sound: ['segno', 'segno'] },
+    'coda': { sound: ['coda', 'coda'] },
+    'fine': { words: 'Fine', sound: ['fine', 'yes'] },
+    'dacoda': { words: 'To Coda', sound: ['tocoda', 'coda'] },
+    'D.C.': { words: 'D.C.', sound: ['dacapo', 'yes'] },
+    'D.S.': { words: 'D.S.', sound: ['dalsegno', 'segno'] },
+    'D.C.alfine': { words: 'D.C. al Fine', sound: ['dacapo', 'yes'] },
+    'D.C.alcoda': { words: 'D.C. al Coda', sound: ['dacapo', 'yes'] },
+    'D.S.alfine': { words: 'D.S. al Fine', sound: ['dalsegno', 'segno'] },
+    'D.S.alcoda': { words: 'D.S. al Coda', sound: ['dalsegno', 'segno'] }
+};
+
+/**
+ * Lines written into a part's music at a beat position: a direction, a chord symbol or
+ * a change of key or time
+ */
+interface Insertion {
+    position: number;
+    measure: number;
+    kind: 'direction' | 'harmony' | 'attributes';
+    write: (offset: number) => void;
+}
+
+/**
+ * A voice written in a part, which each measure passes through in turn
+ */
+interface PartVoice {
+    id: string;                     // The MOM voice
+    number: string;                 // Its <voice> in the part
+    staff: number | null;           // Its <staff>, in a part of several staves
+    shared: boolean;                // The part has other voices, so directions name this one
+    def?: VoiceDefinition;
+    insertions: Insertion[];        // Written in this voice's pass through each measure
+    openWords: Map<number, boolean>;    // Verses whose last syllable is hyphenated
+}
+
+/**
+ * Writing state kept for each part
+ */
+interface PartWriter {
+    id: string;                     // Part ID: the imported part's or the voice's, else P1, P2, ...
+    voices: PartVoice[];
+    staves: number;
+    def?: VoiceDefinition;          // The first voice's definition, which names the part
+    key: KeySignature;
+    continuations: Set<string>;     // IDs of notes that continue a tie
+    hairpinEnds: Set<string>;       // IDs of the last elements under a hairpin
+}
+
+/**
+ * Note value written for a duration: its type and dots, and the tuplet it is played in
+ */
+interface NoteValue {
+    type?: string;
+    dots: number;
+    tuplet?: { actual: number; normal: number };
+}
+
+export class MusicXMLExporter {
+    private result!: ParseResult;
+    private divisions = 1;
+    private lines: string[] = [];
+    private depth = 0;
+
+    /**
+     * MusicXML 4.0 text for a parse result
+     */
+    toMusicXML(result: ParseResult): string {
+        this.result = result;
+        this.lines = [
+            '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+            '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">'
+        ];
+        this.depth = 0;
+        this.divisions = this.chooseDivisions();
+
+        const { headers } = result.mom;
+        const parts = this.createWriters(headers);
+        this.distributeInsertions(parts);
+
+        this.open('score-partwise', { version: '4.0' });
+        this.writeHeaders(headers);
+        this.writePartList(parts);
+        parts.forEach((part, index) => this.writePart(part, index === 0));
+        this.close('score-partwise');
+
+        return this.lines.join('\n') + '\n';
+    }
+
+    // ==========================================
+    // Headers & Parts
+    // ==========================================
+
+    private writeHeaders(headers: ABCHeaders): void {
+        this.open('work');
+        this.leaf('work-title', headers.T);
+        this.close('work');
+
+        this.open('identification');
+        if (headers.C) this.leaf('creator', headers.C, { type: 'composer' });
+        this.open('encoding');
+        this.leaf('software', 'ABC+ Maestro');
+        this.leaf('encoding-date', new Date().toISOString().slice(0, 10));
+        this.close('encoding');
+        this.close('identification');
+    }
+
+    private writePartList(parts: PartWriter[]): void {
+        this.open('part-list');
+        for (const part of parts) {
+            const { def } = part;
+            this.open('score-part', { id: part.id });
+            this.leaf('part-name', def?.name ?? '');
+            if (def?.shortName) this.leaf('part-abbreviation', def.shortName);
+
+            if (def?.instrument || def?.program !== undefined || def?.channel !== undefined) {
+                const instrument = `${part.id}-I1`;
+                this.open('score-instrument', { id: instrument });
+                this.leaf('instrument-name', def.instrument ?? def.name ?? '');
+                this.close('score-instrument');
+                this.open('midi-instrument', { id: instrument });
+                if (def.channel !== undefined) this.leaf('midi-channel', String(def.channel));
+                if (def.program !== undefined) this.leaf('midi-program', String(def.program + 1));
+                this.close('midi-instrument');
+            }
+            this.close('score-part');
+        }
+        this.close('part-list');
+    }
+
+    /**
+     * One part for each voice, except that voices imported from one MusicXML part are
+     * written back into it. Part IDs are kept where they are valid and unique XML IDs
+     */
+    private createWriters(headers: ABCHeaders): PartWriter[] {
+        const groups = new Map<string, string[]>();
+        for (const voice of this.result.mom.voices.keys()) {
+            const part = headers.V?.find(def => def.id === voice)?.part;
+            const group = part !== undefined ? `part ${part}` : `voice ${voice}`;
+            groups.set(group, [...(groups.get(group) ?? []), voice]);
+        }
+
+        const parts = [...groups.values()].map(voices => this.createWriter(voices, headers));
+        const taken = new Set<string>();
+        const wanted = parts.map(part => part.def?.part ?? part.voices[0].id);
+        parts.forEach((part, index) => {
+            if (!/^[A-Za-z_][\w.-]*$/.test(wanted[index]) || taken.has(wanted[index])) return;
+            part.id = wanted[index];
+            taken.add(part.id);
+        });
+        parts.forEach((part, index) => {
+            if (part.id) return;
+            let number = index + 1;
+            while (taken.has(`P${number}`)) number++;
+            part.id = `P${number}`;
+            taken.add(part.id);
+        });
+        return parts;
+    }
+
+    /**
+     * A part for voices, each with its <voice> number and staff. The ID is set by createWriters
+     */
+    private createWriter(voiceIds: string[], headers: ABCHeaders): PartWriter {
+        const continuations = new Set<string>();
+        const hairpinEnds = new Set<string>();
+        const numbers = new Set<string>();
+        const voices: PartVoice[] = [];
+
+        for (const voice of voiceIds) {
+            const elements = this.result.mom.voices.get(voice) ?? [];
+            for (const element of elements) {
+                for (const note of this.notesOf(element)) {
+                    if (note.tiedTo) continuations.add(note.tiedTo);
+                }
+            }
+
+            // A hairpin ends after the last note under it: the next note has no hairpin
+            const sounding = elements.filter(element => this.notesOf(element).length > 0);
+            sounding.forEach((element, position) => {
+                const hairpin = this.notesOf(element)[0].hairpin;
+                const next = sounding[position + 1];
+                if (hairpin && (!next || !this.notesOf(next)[0].hairpin)) hairpinEnds.add(element.id);
+            });
+
+            const def = headers.V?.find(d => d.id === voice);
+            let number = def?.partVoice ?? String(voices.length + 1);
+            for (let free = 1; numbers.has(number); free++) number = String(free);
+            numbers.add(number);
+
+            voices.push({
+                id: voice,
+                number,
+                staff: def?.staff ?? 1,
+                shared: voiceIds.length > 1,
+                def,
+                insertions: [],
+                openWords: new Map()
+            });
+        }
+
+        const staves = Math.max(...voices.map(voice => voice.staff ?? 1));
+        if (staves === 1) for (const voice of voices) voice.staff = null;
+
+        return {
+            id: '',
+            voices,
+            staves,
+            def: voices[0].def,
+            key: KeySignature.parse(headers.K),
+            continuations,
+            hairpinEnds
+        };
+    }
+
+    /**
+     * Hand score changes, directives, chord symbols and annotations to the parts they are
+     * written in. Tempo, meter and unvoiced key changes go to every part that shows them
+     */
+    private distributeInsertions(parts: PartWriter[]): void {
+        const { mom, changes, directives, harmony, annotations } = this.result;
+        if (parts.length === 0) return;
+        const partFor = (voice?: string) => parts.find(part => part.voices.some(v => v.id === voice)) ?? parts[0];
+        const voiceFor = (voice?: string) => partFor(voice).voices.find(v => v.id === voice) ?? parts[0].voices[0];
+        const keysWritten = new Set<string>();      // Part, position and key of voiced key changes
+
+        const headerValues: Record<string, string | undefined> = { tempo: mom.headers.Q, meter: mom.headers.M, key: mom.headers.K };
+        const fromHeader = new Set<string>();
+        for (const change of changes) {
+            if (!change.voice && change.position === 0 && !fromHeader.has(change.type) && change.value === headerValues[change.type]) {
+                fromHeader.add(change.type);
+                continue;
+            }
+
+            if (change.type === 'tempo') {
+                this.insert(parts[0].voices[0], change.position, change.measure, 'direction', offset => this.writeTempo(change.value, offset));
+            } else if (change.type === 'meter' || (change.type === 'key' && !change.voice)) {
+                for (const part of parts) this.insert(part.voices[0], change.position, change.measure, 'attributes', () => this.writeChange(part, change));
+            } else if (change.type === 'key') {
+                // A key is written for the whole part, once for all the voices that share it
+                const part = partFor(change.voice);
+                const written = `${part.id}|${change.position}|${change.value}`;
+                if (keysWritten.has(written)) continue;
+                keysWritten.add(written);
+                this.insert(part.voices[0], change.position, change.measure, 'attributes', () => this.writeChange(part, change));
+            }
+        }
+        if (mom.headers.Q) this.insert(parts[0].voices[0], 0, 1, 'direction', offset => this.writeTempo(mom.headers.Q!, offset));
+
+        // Transpositions are already applied to the notes
+        const allDirectives = (Object.entries(directives) as [string, Directive[]][])
+            .flatMap(([category, list]) => category === 'transpose' ? [] : list);
+        for (const directive of allDirectives) {
+            const voice = voiceFor(directive.voice);
+            this.insert(voice, directive.position, directive.measure, 'direction', offset => this.writeDirective(directive, offset, voice));
+        }
+
+        for (const symbol of harmony) {
+            this.insert(voiceFor(symbol.voice), symbol.position, symbol.measure, 'harmony', offset => this.writeHarmony(symbol, offset));
+        }
+        for (const annotation of annotations) {
+            const placement = annotation.placement === 'below' ? 'below' : 'above';
+            const mark = ABCPlusParser.navigationMark(annotation.text);
+            const voice = voiceFor(annotation.voice);
+            this.insert(voice, annotation.position, annotation.measure, 'direction', offset =>
+                this.writeDirection(placement, offset, () => this.leaf('words', annotation.text), mark ? NAVIGATION[mark].sound : undefined, voice));
+        }
+
+        // Stable, so key and time changes come before the directions at their position
+        for (const voice of parts.flatMap(part => part.voices)) {
+            voice.insertions.sort((a, b) => a.position - b.position || this.insertionOrder(a) - this.insertionOrder(b));
+        }
+    }
+
+    private insert(voice: PartVoice, position: number, measure: number, kind: Insertion['kind'], write: Insertion['write']): void {
+        voice.insertions.push({ position, measure, kind, write });
+    }
+
+    private insertionOrder(insertion: Insertion): number {
+        return insertion.kind === 'attributes' ? 0 : insertion.kind === 'direction' ? 1 : 2;
+    }
+
+    // ==========================================
+    // Measures & Bar Lines
+    // ==========================================
+
+    /**
+     * A part's measures, each voice in turn with a <backup> between them. Navigation marks
+     * are written in the first part only
+     */
+    private writePart(part: PartWriter, first: boolean): void {
+        const measures = this.result.mom.measures;
+        this.open('part', { id: part.id });
+
+        measures.forEach((measure, index) => {
+            const meter = this.meterAt(measure.startTime);
+            const pickup = index === 0 && meter.length > 0 && measure.duration < meter.length - 1e-9;
+            this.open('measure', pickup ? { number: String(measure.number), implicit: 'yes' } : { number: String(measure.number) });
+
+            this.writeLeftBarline(index);
+            if (index === 0) this.writeOpeningAttributes(part);
+
+            // Segno and coda marks open the measure; the jumps close the first voice's pass
+            const marks = first ? this.navigationMarks(measure) : [];
+            for (const mark of marks.filter(mark => mark === 'segno' || mark === 'coda')) this.writeNavigation(mark);
+
+            const silent = part.voices.every(voice => !measure.voices.has(voice.id));
+            let cursor = measure.startTime;
+            part.voices.forEach((voice, order) => {
+                const elements = measure.voices.get(voice.id) ?? [];
+                const due = voice.insertions.length > 0 && voice.insertions[0].measure <= measure.number;
+                if (order > 0 && elements.length === 0 && !due) return;
+
+                if (cursor - measure.startTime > 1e-9) this.writeBackup(cursor - measure.startTime);
+                cursor = measure.startTime;
+
+                for (const element of elements) {
+                    if (element.startTime - cursor > 1e-9) this.writeForward(element.startTime - cursor, voice);
+                    this.flush(voice, measure, element.startTime);
+                    this.writeElement(element, part, voice, elements.length === 1 ? measure : null);
+                    cursor = element.startTime + element.duration;
+                }
+                if (order === 0 && silent && measure.duration > 0) {
+                    this.writeMeasureRest(measure.duration, voice);
+                    cursor = measure.startTime + measure.duration;
+                }
+
+                this.flush(voice, measure, cursor, true);
+                if (order === 0) for (const mark of marks.filter(mark => mark !== 'segno' && mark !== 'coda')) this.writeNavigation(mark);
+            });
+
+            this.writeRightBarline(index);
+            this.close('measure');
+        });
+
+        this.close('part');
+    }
+
+    /**
+     * Divisions, key, time and clef at the start of the part
+     */
+    private writeOpeningAttributes(part: PartWriter): void {
+        const { headers } = this.result.mom;
+        const ownKey = this.result.changes.find(change =>
+            change.type === 'key' && change.position === 0 && part.voices.some(voice => voice.id === change.voice));
+        if (ownKey) part.key = KeySignature.parse(ownKey.value);
+
+        this.open('attributes');
+        this.leaf('divisions', String(this.divisions));
+        this.writeKey(part.key);
+        this.writeTime(headers.M);
+        if (part.staves > 1) this.leaf('staves', String(part.staves));
+
+        // Each staff takes the clef of the first voice on it
+        for (let staff = 1; staff <= part.staves; staff++) {
+            const def = part.voices.find(voice => (voice.staff ?? 1) === staff && voice.def?.clef)?.def;
+            if (!def?.clef) continue;
+            const { sign, line } = CLEF_SIGNS[def.clef];
+            this.open('clef', part.staves > 1 ? { number: String(staff) } : {});
+            this.leaf('sign', sign);
+            if (line) this.leaf('line', String(line));
+            if (def.clefOctave) this.leaf('clef-octave-change', String(def.clefOctave));
+            this.close('clef');
+        }
+        this.close('attributes');
+    }
+
+    /**
+     * A key or time change inside the music
+     */
+    private writeChange(part: PartWriter, change: ScoreChange): void {
+        if (change.type === 'key' && change.position === 0 && change.voice) return;    // In the opening attributes
+        this.open('attributes');
+        if (change.type === 'key') {
+            part.key = KeySignature.parse(change.value);
+            this.writeKey(part.key);
+        } else {
+            this.writeTime(change.value);
+        }
+        this.close('attributes');
+    }
+
+    private writeKey(key: KeySignature): void {
+        this.open('key');
+        this.leaf('fifths', String(key.fifths));
+        this.leaf('mode', key.mode);
+        this.close('key');
+    }
+
+    /**
+     * A <time> for an M: value: "3/4", "3+2/8", C, C| or a free meter
+     */
+    private writeTime(meter: string): void {
+        const match = meter.match(/^\(?([\d+]+)\)?\/(\d+)$/);
+        const symbol = meter === 'C' ? 'common' : meter === 'C|' ? 'cut' : undefined;
+
+        this.open('time', symbol ? { symbol } : {});
+        if (symbol === 'common') {
+            this.leaf('beats', '4');
+            this.leaf('beat-type', '4');
+        } else if (symbol === 'cut') {
+            this.leaf('beats', '2');
+            this.leaf('beat-type', '2');
+        } else if (match) {
+            this.leaf('beats', match[1]);
+            this.leaf('beat-type', match[2]);
+        } else {
+            this.leaf('senza-misura');
+        }
+        this.close('time');
+    }
+
+    /**
+     * Forward repeat and the start of an ending, on the left of a measure
+     */
+    private writeLeftBarline(index: number): void {
+        const measure = this.result.mom.measures[index];
+        const previous = this.result.mom.measures[index - 1];
+        const endingStarts = measure.ending && !(previous && this.sameEnding(previous, measure));
+        if (!measure.repeatStart && !endingStarts) return;
+
+        this.open('barline', { location: 'left' });
+        if (measure.repeatStart) this.leaf('bar-style', 'heavy-light');
+        if (endingStarts) this.leaf('ending', `${measure.ending!.join(', ')}.`, { number: measure.ending!.join(', '), type: 'start' });
+        if (measure.repeatStart) this.leaf('repeat', undefined, { direction: 'forward' });
+        this.close('barline');
+    }
+
+    /**
+     * Bar line ending a measure: a backward repeat, a final or double bar, and the end of
+     * an ending (closed before a repeat, open otherwise)
+     */
+    private writeRightBarline(index: number): void {
+        const measure = this.result.mom.measures[index];
+        const next = this.result.mom.measures[index + 1];
+        const backward = measure.barlineType === 'repeat-end' || measure.barlineType === 'repeat-both';
+        const endingStops = measure.ending && !(next && this.sameEnding(measure, next));
+        const style = backward || measure.barlineType === 'final' ? 'light-heavy' : measure.barlineType === 'double' ? 'light-light' : null;
+        if (!style && !endingStops) return;
+
+        this.open('barline', { location: 'right' });
+        if (style) this.leaf('bar-style', style);
+        if (endingStops) this.leaf('ending', undefined, { number: measure.ending!.join(', '), type: backward ? 'stop' : 'discontinue' });
+        if (backward) this.leaf('repeat', undefined, { direction: 'backward' });
+        this.close('barline');
+    }
+
+    private sameEnding(a: Measure, b: Measure): boolean {
+        return a.ending !== undefined && b.ending !== undefined && a.ending.join(',') === b.ending.join(',');
+    }
+
+    /**
+     * Navigation marks of a measure that no annotation already writes
+     */
+    private navigationMarks(measure: Measure): NavigationMark[] {
+        const marks = [...(measure.navigation ?? [])];
+        for (const annotation of this.result.annotations) {
+            if (annotation.measure !== measure.number) continue;
+            const mark = ABCPlusParser.navigationMark(annotation.text);
+            const index = mark ? marks.indexOf(mark) : -1;
+            if (index >= 0) marks.splice(index, 1);
+        }
+        return marks;
+    }
+
+    /**
+     * Write a voice's insertions up to a position, or all of the measure's at the end of
+     * its pass. Directions and chord symbols that fall away from the current position keep
+     * their place with an <offset>
+     */
+    private flush(voice: PartVoice, measure: Measure, position: number, all = false): void {
+        while (voice.insertions.length > 0) {
+            const next = voice.insertions[0];
+            const due = next.measure < measure.number ||
+                (next.measure === measure.number && (all || next.position <= position + 1e-9));
+            if (!due) break;
+
+            voice.insertions.shift();
+            const offset = next.measure === measure.number ? next.position - position : 0;
+            next.write(Math.abs(offset) > 1e-9 ? offset : 0);
+        }
+    }
+
+    // ==========================================
+    // Directions & Chord Symbols
+    // ==========================================
+
+    /**
+     * A <direction> of one direction type, with an optional <sound>. In a part of several
+     * voices or staves it names the voice and staff it belongs to
+     */
+    private writeDirection(
+        placement: 'above' | 'below',
+        offset: number,
+        writeType: () => void,
+        sound?: [string, string],
+        voice?: PartVoice
+    ): void {
+        this.open('direction', { placement });
+        this.open('direction-type');
+        writeType();
+        this.close('direction-type');
+        if (offset) this.leaf('offset', String(this.toDivisions(offset)));
+        if (voice?.shared) this.leaf('voice', voice.number);
+        if (voice && voice.staff !== null) this.leaf('staff', String(voice.staff));
+        if (sound) this.leaf('sound', undefined, { [sound[0]]: sound[1] });
+        this.close('direction');
+    }
+
+    /**
+     * A Q: tempo such as "1/4=120" or "\"Allegro\" 3/8=60" as a metronome mark and the
+     * <sound> tempo in quarter notes a minute
+     */
+    private writeTempo(value: string, offset: number): void {
+        const text = value.match(/"([^"]*)"/)?.[1];
+        const beat = value.match(/(\d+)\/(\d+)\s*=\s*(\d+(?:\.\d+)?)/);
+        const bare = value.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+
+        const length = beat ? parseInt(beat[1], 10) / parseInt(beat[2], 10) : 1 / 4;
+        const perMinute = beat ? parseFloat(beat[3]) : bare ? parseFloat(bare[1]) : null;
+        const noteValue = this.noteValue(length);
+
+        this.open('direction', { placement: 'above' });
+        if (text) {
+            this.open('direction-type');
+            this.leaf('words', text);
+            this.close('direction-type');
+        }
+        if (perMinute !== null && noteValue.type && !noteValue.tuplet) {
+            this.open('direction-type');
+            this.open('metronome');
+            this.leaf('beat-unit', noteValue.type);
+            for (let i = 0; i < noteValue.dots; i++) this.leaf('beat-unit-dot');
+            this.leaf('per-minute', String(perMinute));
+            this.close('metronome');
+            this.close('direction-type');
+        }
+        if (!text && (perMinute === null || !noteValue.type || noteValue.tuplet)) {
+            this.open('direction-type');
+            this.leaf('words', value);
+            this.close('direction-type');
+        }
+        if (offset) this.leaf('offset', String(this.toDivisions(offset)));
+        if (perMinute !== null) this.leaf('sound', undefined, { tempo: String(Math.round(perMinute * length * 4 * 100) / 100) });
+        this.close('direction');
+    }
+
+    private writeNavigation(mark: NavigationMark): void {
+        const { words, sound } = NAVIGATION[mark];
+        this.writeDirection('above', 0, () => words ? this.leaf('words', words) : this.leaf(mark), sound);
+    }
+
+    /**
+     * Markers become rehearsal marks. Other directives have no MusicXML equivalent and are
+     * kept as hidden text
+     */
+    private writeDirective(directive: Directive, offset: number, voice: PartVoice): void {
+        if (directive.type === 'marker') {
+            const name = directive.attributes['value'] ?? directive.attributes['name'] ?? Object.values(directive.attributes)[0] ?? '';
+            this.writeDirection('above', offset, () => this.leaf('rehearsal', name), undefined, voice);
+            return;
+        }
+
+        const entries = Object.entries(directive.attributes);
+        const text = entries.length === 1 && entries[0][0] === 'value'
+            ? `${directive.type} ${entries[0][1]}`
+            : [directive.type, ...entries.map(([name, value]) => `${name}="${value}"`)].join(' ');
+        this.writeDirection('above', offset, () => this.leaf('other-direction', `%%${text}`, { 'print-object': 'no' }), undefined, voice);
+    }
+
+    /**
+     * A chord symbol as <harmony>: root, kind and bass
+     */
+    private writeHarmony(symbol: Harmony, offset: number): void {
+        const suffix = symbol.text.slice(symbol.root.length).replace(/\/.*$/, '');
+        const kind = CHORD_KINDS[suffix];
+
+        this.open('harmony');
+        this.writeStep('root', symbol.root);
+        this.leaf('kind', kind ?? QUALITY_KINDS[symbol.quality], kind ? {} : { text: suffix });
+        if (symbol.bass) this.writeStep('bass', symbol.bass);
+        if (offset) this.leaf('offset', String(this.toDivisions(offset)));
+        this.close('harmony');
+    }
+
+    /**
+     * <root> or <bass> of a chord symbol for a letter such as "F#" or "Bb"
+     */
+    private writeStep(prefix: 'root' | 'bass', name: string): void {
+        const alter = name.slice(1) === '#' ? 1 : name.slice(1) === 'b' ? -1 : 0;
+        this.open(prefix);
+        this.leaf(`${prefix}-step`, name[0].toUpperCase());
+        if (alter) this.leaf(`${prefix}-alter`, String(alter));
+        this.close(prefix);
+    }
+
+    // ==========================================
+    // Notes, Chords & Rests
+    // ==========================================
+
+    /**
+     * A note, chord or rest, with the dynamics and hairpins its decorations start. `measure`
+     * is given when the element is the only one of its voice in the measure
+     */
+    private writeElement(element: Note | Rest | Chord, part: PartWriter, voice: PartVoice, measure: Measure | null): void {
+        const notes = this.notesOf(element);
+        const decorations = element.decorations ?? [];
+
+        for (const decoration of decorations) {
+            if (DYNAMICS.has(decoration.type)) {
+                this.writeDirection('below', 0, () => {
+                    this.open('dynamics');
+                    this.leaf(decoration.type);
+                    this.close('dynamics');
+                }, undefined, voice);
+            } else if (decoration.type === 'crescendo' || decoration.type === 'diminuendo') {
+                this.writeDirection('below', 0, () => this.leaf('wedge', undefined, { type: decoration.type }), undefined, voice);
+            } else if (decoration.type === 'text' && decoration.value) {
+                this.writeDirection('above', 0, () => this.leaf('words', decoration.value!), undefined, voice);
+            }
+        }
+
+        if ('grace' in element && element.grace) {
+            for (const note of element.grace.notes) {
+                this.open('note');
+                this.leaf('grace', undefined, element.grace.acciaccatura ? { slash: 'yes' } : {});
+                this.writePitch(note, part, voice);
+                this.leaf('voice', voice.number);
+                this.writeNoteValue(this.noteValue(note.duration));
+                this.writeStaff(voice);
+                this.close('note');
+            }
+        }
+
+        if (notes.length === 0) {
+            const wholeMeasure = measure !== null && Math.abs(element.duration - measure.duration) < 1e-9;
+            this.open('note');
+            this.leaf('rest', undefined, wholeMeasure ? { measure: 'yes' } : {});
+            this.leaf('duration', String(this.toDivisions(element.duration)));
+            this.leaf('voice', voice.number);
+            if (!wholeMeasure) this.writeNoteValue(this.noteValue(element.duration));
+            this.writeStaff(voice);
+            this.writeNotations(element, null, part);
+            this.close('note');
+        }
+
+        notes.forEach((note, index) => {
+            this.open('note');
+            if (index > 0) this.leaf('chord');
+            this.writePitch(note, part, voice);
+            this.leaf('duration', String(this.toDivisions(note.duration)));
+            if (part.continuations.has(note.id)) this.leaf('tie', undefined, { type: 'stop' });
+            if (note.tiedTo) this.leaf('tie', undefined, { type: 'start' });
+            this.leaf('voice', voice.number);
+            this.writeNoteValue(this.noteValue(note.duration));
+            if (voice.def?.stem === 'up' || voice.def?.stem === 'down') this.leaf('stem', voice.def.stem);
+            this.writeStaff(voice);
+            this.writeNotations(index === 0 ? element : null, note, part);
+            if (index === 0) this.writeLyrics(note, voice);
+            this.close('note');
+        });
+
+        if (part.hairpinEnds.has(element.id)) {
+            this.writeDirection('below', 0, () => this.leaf('wedge', undefined, { type: 'stop' }), undefined, voice);
+        }
+    }
+
+    /**
+     * <pitch>, or <unpitched> on a percussion staff, keeping the note's letter where it has one
+     */
+    private writePitch(note: Note, part: PartWriter, voice: PartVoice): void {
+        const spelling = (letter: string) => {
+            const octave = Math.round((note.midiNote - LETTER_SEMITONES[letter]) / 12) - 1;
+            return { letter, octave, alter: note.midiNote - LETTER_SEMITONES[letter] - (octave + 1) * 12 };
+        };
+
+        const written = note.pitch.match(/[A-Ga-g]/)?.[0].toUpperCase();
+        let { letter, octave, alter } = spelling(written ?? this.spell(note.midiNote, part.key));
+        if (Math.abs(alter) > 2) ({ letter, octave, alter } = spelling(this.spell(note.midiNote, part.key)));
+
+        if (voice.def?.clef === 'percussion') {
+            this.open('unpitched');
+            this.leaf('display-step', letter);
+            this.leaf('display-octave', String(octave));
+            this.close('unpitched');
+            return;
+        }
+
+        this.open('pitch');
+        this.leaf('step', letter);
+        if (Math.abs(alter) > 1e-9) this.leaf('alter', String(Math.round(alter * 100) / 100));
+        this.leaf('octave', String(octave));
+        this.close('pitch');
+    }
+
+    /**
+     * Letter for a MIDI note: one the key signature gives it, else a natural, else a sharp
+     * in sharp keys and a flat in flat keys
+     */
+    private spell(midiNote: number, key: KeySignature): string {
+        const pitchClass = ((Math.floor(midiNote) % 12) + 12) % 12;
+        const letters = Object.keys(LETTER_SEMITONES);
+        const inKey = letters.find(letter => ((LETTER_SEMITONES[letter] + key.accidentalFor(letter)) % 12 + 12) % 12 === pitchClass);
+        if (inKey) return inKey;
+
+        const natural = letters.find(letter => LETTER_SEMITONES[letter] === pitchClass);
+        if (natural) return natural;
+
+        const neighbour = (pitchClass + (key.fifths < 0 ? 1 : 11)) % 12;
+        return letters.find(letter => LETTER_SEMITONES[letter] === neighbour)!;
+    }
+
+    private writeNoteValue(value: NoteValue): void {
+        if (value.type) this.leaf('type', value.type);
+        for (let i = 0; i < value.dots; i++) this.leaf('dot');
+        if (value.tuplet) {
+            this.open('time-modification');
+            this.leaf('actual-notes', String(value.tuplet.actual));
+            this.leaf('normal-notes', String(value.tuplet.normal));
+            this.close('time-modification');
+        }
+    }
+
+    /**
+     * Ties, slurs and the element's decorations for one of its notes. The decorations and
+     * slurs of a chord are written on its first note
+     */
+    private writeNotations(element: Note | Rest | Chord | null, note: Note | null, part: PartWriter): void {
+        const groups = new Map<string, string[]>();
+        const direct: string[] = [];
+        const fingerings: string[] = [];
+        for (const decoration of element?.decorations ?? []) {
+            if (decoration.type === 'fingering') {
+                fingerings.push(decoration.value ?? '');
+                continue;
+            }
+            const notation = NOTATIONS[decoration.type];
+            if (!notation) continue;
+            if (!notation.group) direct.push(notation.name);
+            else groups.set(notation.group, [...(groups.get(notation.group) ?? []), notation.name]);
+        }
+
+        const tieStop = note !== null && part.continuations.has(note.id);
+        const tieStart = note?.tiedTo !== undefined;
+        const notes = element ? this.notesOf(element) : [];
+        const slurStart = notes.some(n => n.slurStart);
+        const slurEnd = notes.some(n => n.slurEnd);
+        if (!tieStop && !tieStart && !slurStart && !slurEnd && groups.size === 0 && direct.length === 0 && fingerings.length === 0) return;
+
+        this.open('notations');
+        if (tieStop) this.leaf('tied', undefined, { type: 'stop' });
+        if (tieStart) this.leaf('tied', undefined, { type: 'start' });
+        if (slurEnd) this.leaf('slur', undefined, { type: 'stop', number: '1' });
+        if (slurStart) this.leaf('slur', undefined, { type: 'start', number: '1' });
+
+        for (const group of ['articulations', 'ornaments', 'technical']) {
+            const names = groups.get(group) ?? [];
+            if (names.length === 0 && !(group === 'technical' && fingerings.length > 0)) continue;
+            this.open(group);
+            for (const name of names) this.leaf(name);
+            if (group === 'technical') for (const fingering of fingerings) this.leaf('fingering', fingering);
+            this.close(group);
+        }
+        for (const name of direct) this.leaf(name);
+        this.close('notations');
+    }
+
+    /**
+     * A note's syllables, each begun, continued or ended by the hyphens around it
+     */
+    private writeLyrics(note: Note, voice: PartVoice): void {
+        for (const syllable of note.lyrics ?? []) {
+            if (!syllable.text) continue;
+            const open = voice.openWords.get(syllable.verse) ?? false;
+            const syllabic = syllable.hyphen ? (open ? 'middle' : 'begin') : (open ? 'end' : 'single');
+            voice.openWords.set(syllable.verse, syllable.hyphen === true);
+
+            this.open('lyric', { number: String(syllable.verse) });
+            this.leaf('syllabic', syllabic);
+            this.leaf('text', syllable.text);
+            if (syllable.extender) this.leaf('extend');
+            this.close('lyric');
+        }
+    }
+
+    /**
+     * <staff> of a note in a part of several staves
+     */
+    private writeStaff(voice: PartVoice): void {
+        if (voice.staff !== null) this.leaf('staff', String(voice.staff));
+    }
+
+    /**
+     * Time a voice leaves empty (from sources other than ABC)
+     */
+    private writeForward(duration: number, voice: PartVoice): void {
+        this.open('forward');
+        this.leaf('duration', String(this.toDivisions(duration)));
+        this.leaf('voice', voice.number);
+        this.writeStaff(voice);
+        this.close('forward');
+    }
+
+    /**
+     * Back to the start of the measure, for the part's next voice
+     */
+    private writeBackup(duration: number): void {
+        this.open('backup');
+        this.leaf('duration', String(this.toDivisions(duration)));
+        this.close('backup');
+    }
+
+    private writeMeasureRest(duration: number, voice: PartVoice): void {
+        this.open('note');
+        this.leaf('rest', undefined, { measure: 'yes' });
+        this.leaf('duration', String(this.toDivisions(duration)));
+        this.leaf('voice', voice.number);
+        this.writeStaff(voice);
+        this.close('note');
+    }
+
+    private notesOf(element: Note | Rest | Chord): Note[] {
+        return 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+    }
+
+    // ==========================================
+    // Durations & Meter
+    // ==========================================
+
+    /**
+     * Divisions of a quarter note that give every duration and onset in the score a whole
+     * number of divisions
+     */
+    private chooseDivisions(): number {
+        const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+        let divisions = 1;
+
+        for (const measure of this.result.mom.measures) {
+            const values = [measure.duration, ...measure.elements.flatMap(element => [element.duration, element.startTime - measure.startTime])];
+            for (const value of values) {
+                const quarters = value * 4;
+                for (let denominator = 1; denominator <= 960; denominator++) {
+                    if (Math.abs(quarters * denominator - Math.round(quarters * denominator)) > 1e-6) continue;
+                    divisions = divisions / gcd(divisions, denominator) * denominator;
+                    break;
+                }
+            }
+        }
+        return Math.min(divisions, 16383 * 4);
+    }
+
+    private toDivisions(duration: number): number {
+        return Math.round(duration * 4 * this.divisions);
+    }
+
+    /**
+     * Type and dots of a duration. Lengths that are not a plain (dotted) note value are
+     * tuplets: p notes in the time of q
+     */
+    private noteValue(duration: number): NoteValue {
+        const dotted = (length: number): NoteValue | null => {
+            for (const [type, base] of NOTE_TYPES) {
+                for (let dots = 0; dots <= 3; dots++) {
+                    if (Math.abs(base * (2 - Math.pow(2, -dots)) - length) < 1e-9) return { type, dots };
+                }
+            }
+            return null;
+        };
+
+        const plain = dotted(duration);
+        if (plain) return plain;
+
+        for (const actual of [3, 5, 6, 7, 9, 11, 13]) {
+            const normal = Math.pow(2, Math.floor(Math.log2(actual)));
+            const written = dotted(duration * actual / normal);
+            if (written) return { ...written, tuplet: { actual, normal } };
+        }
+        return { dots: 0 };
+    }
+
+    /**
+     * Bar length (0 for free meter) of the meter in force at a position
+     */
+    private meterAt(position: number): { length: number } {
+        let value = this.result.mom.headers.M;
+        for (const change of this.result.changes) {
+            if (change.type === 'meter' && change.position <= position + 1e-9) value = change.value;
+        }
+
+        if (value === 'C' || value === 'C|') return { length: 1 };
+        const match = value.match(/^\(?([\d+]+)\)?\/(\d+)$/);
+        if (!match) return { length: 0 };
+        const numerator = match[1].split('+').reduce((sum, n) => sum + (parseInt(n, 10) || 0), 0);
+        return { length: numerator / parseInt(match[2], 10) };
+    }
+
+    // ==========================================
+    // XML
+    // ==========================================
+
+    private open(name: string, attributes: Record<string, string> = {}): void {
+        this.lines.push(`${'  '.repeat(this.depth)}<${name}${this.attributeText(attributes)}>`);
+        this.depth++;
+    }
+
+    private close(name: string): void {
+        this.depth--;
+        this.lines.push(`${'  '.repeat(this.depth)}</${name}>`);
+    }
+
+    /**
+     * An element with text content, or an empty element when there is none
+     */
+    private leaf(name: string, text?: string, attributes: Record<string, string> = {}): void {
+        const indent = '  '.repeat(this.depth);
+        this.lines.push(text === undefined
+            ? `${indent}<${name}${this.attributeText(attributes)}/>`
+            : `${indent}<${name}${this.attributeText(attributes)}>${this.escape(text)}</${name}>`);
+    }
+
+    private attributeText(attributes: Record<string, string>): string {
+        return Object.entries(attributes).map(([name, value]) => ` ${name}="${this.escape(value)}"`).join('');
+    }
+
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Lyrics Display
+ * Karaoke line of the verse being sung, highlighting each syllable as its note starts
+ */
+
+import type { MusicalObjectModel, Note, Syllable } from '../types';
+
+interface SungSyllable {
+    noteId: string;
+    startTime: number;
+    syllable: Syllable;
+}
+
+export class LyricsDisplay {
+    private container: HTMLElement | null = null;
+    private verses: SungSyllable[][] = [];              // Index 0 is verse 1
+    private noteVerses: Map<string, number[]> = new Map();
+    private passes: Map<string, number> = new Map();    // Times each note has started
+    private syllableElements: Map<string, HTMLElement> = new Map();
+    private currentVerse = 0;
+
+    render(mom: MusicalObjectModel, container: HTMLElement): void {
+        this.container = container;
+        this.verses = [];
+        this.noteVerses.clear();
+
+        for (const elements of mom.voices.values()) {
+            for (const element of elements) {
+                const notes: Note[] = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+                for (const note of notes) {
+                    for (const syllable of note.lyrics ?? []) {
+                        (this.verses[syllable.verse - 1] ??= []).push({ noteId: note.id, startTime: note.startTime, syllable });
+                        if (!this.noteVerses.has(note.id)) this.noteVerses.set(note.id, []);
+                        this.noteVerses.get(note.id)!.push(syllable.verse);
+                    }
+                }
+            }
+        }
+        for (const verse of this.verses) verse?.sort((a, b) => a.startTime - b.startTime);
+
+        container.classList.toggle('hidden', this.verses.length === 0);
+        this.reset();
+    }
+
+    /**
+     * Highlight the syllable sung on a note. A note heard again on a repeat sings its next verse
+     */
+    highlightNote(noteId: string): void {
+        const verses = this.noteVerses.get(noteId);
+        if (!verses) return;
+
+        const pass = (this.passes.get(noteId) ?? 0) + 1;
+        this.passes.set(noteId, pass);
+        const verse = verses[Math.min(pass, verses.length) - 1];
+        if (verse !== this.currentVerse) this.showVerse(verse);
+
+        const element = this.syllableElements.get(noteId);
+        if (!element) return;
+
+        for (const other of this.syllableElements.values()) {
+            if (other.classList.contains('active')) {
+                other.classList.remove('active');
+                other.classList.add('sung');
+            }
+        }
+        element.classList.add('active');
+        element.scrollIntoView({ block: 'nearest', inline: 'center' });
+    }
+
+    /**
+     * Back to the start of the first verse
+     */
+    reset(): void {
+        this.passes.clear();
+        this.showVerse(1);
+    }
+
+    private showVerse(verse: number): void {
+        if (!this.container) return;
+
+        this.container.innerHTML = '';
+        this.syllableElements.clear();
+        this.currentVerse = verse;
+
+        for (const { noteId, syllable } of this.verses[verse - 1] ?? []) {
+            if (!syllable.text) continue;
+
+            const span = document.createElement('span');
+            span.className = 'lyric-syllable';
+            span.textContent = syllable.text + (syllable.hyphen ? '-' : ' ');
+            this.container.appendChild(span);
+            this.syllableElements.set(noteId, span);
+        }
+    }
+}
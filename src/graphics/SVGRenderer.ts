@@ -3,7 +3,47 @@
  * Renders Musical Object Model as SVG notation
  */
 
-import type { MusicalObjectModel, Note, Rest, Chord, Measure } from '../types';
+import type {
+    ParseResult,
+    MusicalObjectModel,
+    Note,
+    Rest,
+    Chord,
+    Measure,
+    ScoreChange,
+    Harmony,
+    Annotation,
+    Clef,
+    VoiceDefinition
+} from '../types';
+import { KeySignature } from '../theory/KeySignature';
+
+// Treble staff positions (MIDI) of key signature accidentals, in the order they are written
+const SHARP_POSITIONS: Record<string, number> = { F: 77, C: 72, G: 79, D: 74, A: 69, E: 76, B: 71 };
+const FLAT_POSITIONS: Record<string, number> = { B: 71, E: 76, A: 69, D: 74, G: 67, C: 72, F: 65 };
+
+// How each clef is drawn: its glyph, the pitch (MIDI) on the middle line, and how many
+// steps its key signatures lie below or above the treble positions
+const CLEFS: Record<Clef, { glyph: string; y: number; size: number; middle: number; keyShift: number }> = {
+    treble: { glyph: '𝄞', y: 28, size: 48, middle: 71, keyShift: 0 },
+    bass: { glyph: '𝄢', y: 30, size: 36, middle: 50, keyShift: -2 },
+    alto: { glyph: '𝄡', y: 32, size: 36, middle: 60, keyShift: -1 },
+    tenor: { glyph: '𝄡', y: 24, size: 36, middle: 57, keyShift: 1 },
+    percussion: { glyph: '𝄥', y: 28, size: 32, middle: 71, keyShift: 0 },
+    none: { glyph: '', y: 0, size: 0, middle: 71, keyShift: 0 }
+};
+
+const LETTER_MIDI: Record<string, number> = { C: 48, D: 50, E: 52, F: 53, G: 55, A: 57, B: 59 };
+
+/**
+ * How a voice's staff is drawn, from its V: definition
+ */
+interface StaffLayout {
+    clef: Clef;
+    clefOctave: number;     // -1 for treble-8: the notes are drawn an octave above their sound
+    middle: number;         // Pitch (MIDI) on the middle line
+    stem: 'up' | 'down' | 'auto';
+}
 
 export class SVGRenderer {
     private container: HTMLElement | null = null;
@@ -16,15 +56,74 @@ export class SVGRenderer {
     private measurePadding = 20;
     private lineSpacing = 8;
     private noteRadius = 5;
+    private staffSpacing = 100;  // Distance between the top lines of consecutive staves
+    private accidentalSpacing = 8;
+    private timeSignatureWidth = 24;
+    private lyricSpacing = 14;   // Distance between verses under a staff
+
+    // Key in force on each staff while drawing, so key changes can cancel the old one
+    private staffKeys: Map<string, KeySignature> = new Map();
 
-    render(mom: MusicalObjectModel, container: HTMLElement): void {
+    // Clef, middle line and stem direction of each voice's staff
+    private staffLayouts: Map<string, StaffLayout> = new Map();
+
+    // Chord symbols and annotations, drawn with the measure they fall in
+    private harmony: Harmony[] = [];
+    private annotations: Annotation[] = [];
+
+    render(result: ParseResult, container: HTMLElement): void {
+        const mom = result.mom;
         this.container = container;
         this.noteElements.clear();
+        this.staffKeys.clear();
+        this.staffLayouts.clear();
+        for (const def of mom.headers.V ?? []) this.staffLayouts.set(def.id, this.staffLayout(def));
+        this.harmony = result.harmony;
+        this.annotations = result.annotations;
+
+        const verses = this.verseCounts(mom);
+        const lyricsDepth = (voiceId: string) => Math.max(0, (verses.get(voiceId) ?? 0) - 2) * this.lyricSpacing;
+
+        // One staff per voice, top to bottom in score order, moved apart for more than two verses
+        // and lowered to make room for annotations above the chord symbols
+        const staffTops = new Map<string, number>();
+        const firstTop = this.annotations.some(a => a.placement === 'above' || a.placement === 'free') ? 44 : 30;
+        let nextTop = firstTop;
+        for (const measure of mom.measures) {
+            for (const voiceId of measure.voices.keys()) {
+                if (staffTops.has(voiceId)) continue;
+                staffTops.set(voiceId, nextTop);
+                nextTop += this.staffSpacing + lyricsDepth(voiceId);
+            }
+        }
+        if (staffTops.size === 0) staffTops.set('V1', firstTop);
+        const [lastVoice, lastTop] = [...staffTops].pop()!;
+        const musicBottom = lastTop + this.staffHeight + 70 + lyricsDepth(lastVoice);
+        const words = mom.headers.W ?? [];
+
+        // Key and time signature changes after the opening, by measure number
+        const signatureChanges = new Map<number, ScoreChange[]>();
+        for (const change of result.changes) {
+            if ((change.type !== 'key' && change.type !== 'meter') || change.position === 0) continue;
+            if (!signatureChanges.has(change.measure)) signatureChanges.set(change.measure, []);
+            signatureChanges.get(change.measure)!.push(change);
+        }
+
+        // Opening key per staff: a voice's own K: field overrides the header
+        for (const voiceId of staffTops.keys()) {
+            const opening = result.changes.filter(c =>
+                c.type === 'key' && c.position === 0 && (c.voice === undefined || c.voice === voiceId));
+            this.staffKeys.set(voiceId, KeySignature.parse(opening[opening.length - 1]?.value ?? mom.headers.K));
+        }
+        const openingAccidentals = Math.max(...[...this.staffKeys.values()].map(k => Object.keys(k.accidentals).length));
+        const contentStart = 60 + openingAccidentals * this.accidentalSpacing + this.timeSignatureWidth + 10;
+        const signatureWidths = this.signatureWidths(signatureChanges);
 
         // Calculate dimensions
-        const totalNotes = mom.measures.reduce((sum, m) => sum + m.elements.length, 0);
-        const width = Math.max(600, totalNotes * this.noteSpacing + mom.measures.length * this.measurePadding * 2);
-        const height = this.staffHeight + 100;
+        const contentWidth = mom.measures.reduce(
+            (sum, m) => sum + this.measureWidth(m) + (signatureWidths.get(m.number) ?? 0), 0);
+        const width = Math.max(600, contentStart + contentWidth + 20);
+        const height = musicBottom + words.length * 18;
 
         // Create SVG
         this.svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
@@ -33,32 +132,36 @@ export class SVGRenderer {
         this.svg.setAttribute('height', 'auto');
         this.svg.style.minHeight = '200px';
 
-        // Draw staff lines
-        this.drawStaff(width);
+        for (const [voiceId, top] of staffTops) {
+            // Draw staff lines
+            this.drawStaff(width, top);
 
-        // Draw clef
-        this.drawClef();
+            // Draw clef, key and time signature
+            this.drawClef(top, voiceId);
+            this.drawKeySignature(this.staffKeys.get(voiceId)!, null, 60, top, voiceId);
+            this.drawTimeSignature(mom.headers.M, contentStart - this.timeSignatureWidth - 5, top);
+        }
 
         // Draw measures and notes
-        let xPosition = 80; // Start after clef
+        let xPosition = contentStart;
 
         for (const measure of mom.measures) {
-            xPosition = this.drawMeasure(measure, xPosition);
+            xPosition = this.drawMeasure(measure, xPosition, staffTops, signatureChanges.get(measure.number) ?? []);
         }
 
+        this.drawWords(words, musicBottom);
+
         // Replace container content
         container.innerHTML = '';
         container.appendChild(this.svg);
     }
 
-    private drawStaff(width: number): void {
+    private drawStaff(width: number, startY: number): void {
         if (!this.svg) return;
 
         const staffGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
         staffGroup.setAttribute('class', 'staff-lines');
 
-        const startY = 30;
-
         for (let i = 0; i < 5; i++) {
             const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
             line.setAttribute('x1', '10');
@@ -73,39 +176,186 @@ export class SVGRenderer {
         this.svg.appendChild(staffGroup);
     }
 
-    private drawClef(): void {
+    private drawClef(staffTop: number, voiceId: string): void {
         if (!this.svg) return;
 
-        // Simplified treble clef as text
+        const layout = this.layoutFor(voiceId);
+        const { glyph, y, size } = CLEFS[layout.clef];
+        if (!glyph) return;
+
         const clef = document.createElementNS('http://www.w3.org/2000/svg', 'text');
         clef.setAttribute('x', '20');
-        clef.setAttribute('y', '58');
-        clef.setAttribute('font-size', '48');
+        clef.setAttribute('y', String(staffTop + y));
+        clef.setAttribute('font-size', String(size));
         clef.setAttribute('font-family', 'serif');
         clef.setAttribute('fill', '#000000');
-        clef.textContent = '𝄞';
+        clef.textContent = glyph;
         this.svg.appendChild(clef);
+
+        // An octave clef carries a small 8 below (sounding lower) or above it
+        if (layout.clefOctave !== 0) {
+            const eight = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            eight.setAttribute('x', '30');
+            eight.setAttribute('y', String(layout.clefOctave < 0 ? staffTop + 4 * this.lineSpacing + 16 : staffTop - 12));
+            eight.setAttribute('font-size', '10');
+            eight.setAttribute('font-family', 'serif');
+            eight.setAttribute('text-anchor', 'middle');
+            eight.setAttribute('fill', '#000000');
+            eight.textContent = '8';
+            this.svg.appendChild(eight);
+        }
     }
 
-    private drawMeasure(measure: Measure, startX: number): number {
-        if (!this.svg) return startX;
+    /**
+     * Draw a key signature; when it replaces another key, naturals cancel what the new one drops
+     */
+    private drawKeySignature(key: KeySignature, previous: KeySignature | null, xPos: number, staffTop: number, voiceId: string): number {
+        if (!this.svg) return xPos;
+
+        // Accidentals keep their treble pattern, moved to the staff's clef
+        const keyShift = CLEFS[this.layoutFor(voiceId).clef].keyShift * this.lineSpacing / 2;
+        for (const glyph of this.keyGlyphs(key, previous)) {
+            const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            text.setAttribute('x', String(xPos));
+            text.setAttribute('y', String(this.midiToY(glyph.midi, staffTop) - keyShift + 4));
+            text.setAttribute('font-size', '14');
+            text.setAttribute('font-family', 'serif');
+            text.setAttribute('fill', '#000000');
+            text.setAttribute('class', 'key-signature');
+            text.textContent = glyph.symbol;
+            this.svg.appendChild(text);
+            xPos += this.accidentalSpacing;
+        }
 
-        let xPos = startX + this.measurePadding;
+        return xPos;
+    }
+
+    private keyGlyphs(key: KeySignature, previous: KeySignature | null): { midi: number; symbol: string }[] {
+        const glyphs: { midi: number; symbol: string }[] = [];
 
-        for (const element of measure.elements) {
-            if ('midiNote' in element) {
-                xPos = this.drawNote(element as Note, xPos);
-            } else if ('duration' in element && !('midiNote' in element)) {
-                xPos = this.drawRest(element as Rest, xPos);
+        if (previous) {
+            for (const [letter, value] of Object.entries(previous.accidentals)) {
+                if (value === 0 || key.accidentalFor(letter) === value) continue;
+                glyphs.push({ midi: (value > 0 ? SHARP_POSITIONS : FLAT_POSITIONS)[letter], symbol: '♮' });
             }
         }
+        for (const [letter, midi] of Object.entries(FLAT_POSITIONS)) {
+            const value = key.accidentalFor(letter);
+            if (value < 0) glyphs.push({ midi, symbol: value < -1 ? '𝄫' : '♭' });
+        }
+        for (const [letter, midi] of Object.entries(SHARP_POSITIONS)) {
+            const value = key.accidentalFor(letter);
+            if (value > 0) glyphs.push({ midi, symbol: value > 1 ? '𝄪' : '♯' });
+        }
 
-        // Draw barline
+        return glyphs;
+    }
+
+    /**
+     * Draw a time signature as stacked numbers, or the common/cut time symbol
+     */
+    private drawTimeSignature(meter: string, xPos: number, staffTop: number): void {
+        if (!this.svg) return;
+
+        const parts = meter === 'C' ? ['𝄴'] : meter === 'C|' ? ['𝄵'] : meter.split('/');
+        const fontSize = parts.length === 1 ? 32 : 18;
+        const rows = parts.length === 1 ? [staffTop + 26] : [staffTop + 15, staffTop + 31];
+
+        parts.slice(0, 2).forEach((part, index) => {
+            const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            text.setAttribute('x', String(xPos + this.timeSignatureWidth / 2));
+            text.setAttribute('y', String(rows[index]));
+            text.setAttribute('font-size', String(fontSize));
+            text.setAttribute('font-family', 'serif');
+            text.setAttribute('font-weight', 'bold');
+            text.setAttribute('text-anchor', 'middle');
+            text.setAttribute('fill', '#000000');
+            text.setAttribute('class', 'time-signature');
+            text.textContent = part.trim();
+            this.svg!.appendChild(text);
+        });
+    }
+
+    /**
+     * Width reserved at the start of each measure for key and time signature changes,
+     * following the key on every staff from the opening keys
+     */
+    private signatureWidths(changesByMeasure: Map<number, ScoreChange[]>): Map<number, number> {
+        const keys = new Map(this.staffKeys);
+        const widths = new Map<number, number>();
+
+        for (const [measureNumber, changes] of changesByMeasure) {
+            let width = 0;
+            for (const change of changes) {
+                if (change.type === 'meter') {
+                    width += this.timeSignatureWidth;
+                    continue;
+                }
+                const key = KeySignature.parse(change.value);
+                let glyphs = 0;
+                for (const voiceId of keys.keys()) {
+                    if (change.voice !== undefined && change.voice !== voiceId) continue;
+                    glyphs = Math.max(glyphs, this.keyGlyphs(key, keys.get(voiceId)!).length);
+                    keys.set(voiceId, key);
+                }
+                width += glyphs * this.accidentalSpacing;
+            }
+            widths.set(measureNumber, width > 0 ? width + this.measurePadding / 2 : 0);
+        }
+
+        return widths;
+    }
+
+    private drawMeasure(measure: Measure, startX: number, staffTops: Map<string, number>, changes: ScoreChange[]): number {
+        if (!this.svg) return startX;
+
+        // Key changes go on their voice's staff (or every staff), time signatures on all staves
+        let signatureEnd = startX + this.measurePadding / 2;
+        for (const change of changes.filter(c => c.type === 'key')) {
+            let changeEnd = signatureEnd;
+            for (const [voiceId, top] of staffTops) {
+                if (change.voice !== undefined && change.voice !== voiceId) continue;
+                const key = KeySignature.parse(change.value);
+                changeEnd = Math.max(changeEnd, this.drawKeySignature(key, this.staffKeys.get(voiceId) ?? null, signatureEnd, top, voiceId));
+                this.staffKeys.set(voiceId, key);
+            }
+            signatureEnd = changeEnd;
+        }
+        for (const change of changes.filter(c => c.type === 'meter')) {
+            for (const top of staffTops.values()) this.drawTimeSignature(change.value, signatureEnd, top);
+            signatureEnd += this.timeSignatureWidth;
+        }
+        if (changes.length > 0) startX = signatureEnd;
+
+        // Every voice starts the bar at the same x, so simultaneous music lines up
+        for (const [voiceId, elements] of measure.voices) {
+            const staffTop = staffTops.get(voiceId) ?? 30;
+            let voiceX = startX + this.measurePadding;
+            const elementXs: { time: number; x: number }[] = [];
+
+            for (const element of elements) {
+                elementXs.push({ time: element.startTime, x: voiceX });
+                if ('midiNote' in element) {
+                    voiceX = this.drawNote(element as Note, voiceX, staffTop);
+                } else if ('notes' in element) {
+                    voiceX = this.drawChord(element as Chord, voiceX, staffTop);
+                } else if ('duration' in element && !('midiNote' in element)) {
+                    voiceX = this.drawRest(element as Rest, voiceX, staffTop);
+                }
+            }
+
+            this.drawScoreText(measure.number, voiceId, elementXs, voiceX, staffTop);
+        }
+
+        const xPos = startX + this.measureWidth(measure) - this.measurePadding;
+        const tops = [...staffTops.values()];
+
+        // Draw barline through all staves
         const barline = document.createElementNS('http://www.w3.org/2000/svg', 'line');
         barline.setAttribute('x1', String(xPos + this.measurePadding / 2));
-        barline.setAttribute('y1', '30');
+        barline.setAttribute('y1', String(Math.min(...tops)));
         barline.setAttribute('x2', String(xPos + this.measurePadding / 2));
-        barline.setAttribute('y2', String(30 + 4 * this.lineSpacing));
+        barline.setAttribute('y2', String(Math.max(...tops) + 4 * this.lineSpacing));
         barline.setAttribute('stroke', '#000000');
         barline.setAttribute('stroke-width', '1');
 
@@ -118,12 +368,204 @@ export class SVGRenderer {
         return xPos + this.measurePadding;
     }
 
-    private drawNote(note: Note, xPos: number): number {
+    /**
+     * Width of a measure: its padding plus the widest voice
+     */
+    private measureWidth(measure: Measure): number {
+        let widest = 0;
+        for (const elements of measure.voices.values()) {
+            const voiceWidth = elements.reduce((sum, element) => sum + this.elementWidth(element), 0);
+            widest = Math.max(widest, voiceWidth);
+        }
+        return widest + this.measurePadding * 2;
+    }
+
+    private elementWidth(element: Note | Rest | Chord): number {
+        if ('midiNote' in element || 'notes' in element) return this.noteSpacing;
+        return this.noteSpacing * (element.duration / 0.125);
+    }
+
+    private drawNote(note: Note, xPos: number, staffTop: number): number {
+        if (!this.svg) return xPos;
+
+        const yPos = this.midiToY(note.midiNote, staffTop, note.voice);
+        const noteGroup = this.createNoteGroup(note, xPos, yPos, staffTop);
+
+        // Draw stem for notes shorter than whole note
+        if (note.duration < 1) {
+            const stemDirection = this.stemDirection(note.voice, yPos > staffTop + 20);
+            noteGroup.appendChild(this.createStem(xPos, yPos, yPos + stemDirection * 30, stemDirection));
+        }
+
+        this.svg.appendChild(noteGroup);
+        this.noteElements.set(note.id, noteGroup);
+        this.drawLyrics(note, xPos, staffTop);
+
+        return xPos + this.noteSpacing;
+    }
+
+    private drawChord(chord: Chord, xPos: number, staffTop: number): number {
         if (!this.svg) return xPos;
 
-        const yPos = this.midiToY(note.midiNote);
+        const chordGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+        chordGroup.setAttribute('class', 'chord');
+        chordGroup.setAttribute('id', chord.id);
+
+        const yPositions = chord.notes.map(note => this.midiToY(note.midiNote, staffTop, chord.voice));
+
+        chord.notes.forEach((note, index) => {
+            const noteGroup = this.createNoteGroup(note, xPos, yPositions[index], staffTop);
+            chordGroup.appendChild(noteGroup);
+            this.noteElements.set(note.id, noteGroup);
+        });
+
+        // One stem spans the whole chord, pointing away from the middle of the staff unless
+        // the voice sets its stems
+        if (chord.duration < 1) {
+            const top = Math.min(...yPositions);
+            const bottom = Math.max(...yPositions);
+            const stemDirection = this.stemDirection(chord.voice, (top + bottom) / 2 > staffTop + 20);
+            const from = stemDirection > 0 ? top : bottom;
+            const to = stemDirection > 0 ? bottom + 30 : top - 30;
+            chordGroup.appendChild(this.createStem(xPos, from, to, stemDirection));
+        }
+
+        this.svg.appendChild(chordGroup);
+        for (const note of chord.notes) this.drawLyrics(note, xPos, staffTop);
+
+        return xPos + this.noteSpacing;
+    }
 
-        // Create note group
+    /**
+     * Draw a note's syllables under the staff, one row per verse, with the hyphen or
+     * extender line that leads on to the next note
+     */
+    private drawLyrics(note: Note, xPos: number, staffTop: number): void {
+        if (!this.svg || !note.lyrics) return;
+
+        for (const syllable of note.lyrics) {
+            const y = staffTop + 4 * this.lineSpacing + 22 + (syllable.verse - 1) * this.lyricSpacing;
+
+            const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            text.setAttribute('x', String(xPos));
+            text.setAttribute('y', String(y));
+            text.setAttribute('font-size', '12');
+            text.setAttribute('font-family', 'serif');
+            text.setAttribute('text-anchor', 'middle');
+            text.setAttribute('fill', '#000000');
+            text.setAttribute('class', 'lyric');
+            text.textContent = syllable.text;
+            this.svg.appendChild(text);
+
+            if (syllable.hyphen) {
+                const hyphen = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+                hyphen.setAttribute('x', String(xPos + this.noteSpacing / 2));
+                hyphen.setAttribute('y', String(y));
+                hyphen.setAttribute('font-size', '12');
+                hyphen.setAttribute('text-anchor', 'middle');
+                hyphen.setAttribute('fill', '#000000');
+                hyphen.textContent = '-';
+                this.svg.appendChild(hyphen);
+            } else if (syllable.extender) {
+                const extender = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+                extender.setAttribute('x1', String(xPos + syllable.text.length * 3 + 2));
+                extender.setAttribute('y1', String(y + 1));
+                extender.setAttribute('x2', String(xPos + this.noteSpacing));
+                extender.setAttribute('y2', String(y + 1));
+                extender.setAttribute('stroke', '#000000');
+                extender.setAttribute('stroke-width', '1');
+                this.svg.appendChild(extender);
+            }
+        }
+    }
+
+    /**
+     * Draw a measure's chord symbols above the staff, over the element they fall on, and
+     * its annotations around that element by their placement
+     */
+    private drawScoreText(
+        measureNumber: number,
+        voiceId: string,
+        elementXs: { time: number; x: number }[],
+        endX: number,
+        staffTop: number
+    ): void {
+        if (!this.svg) return;
+
+        const xAt = (position: number) => elementXs.find(e => e.time >= position - 1e-9)?.x ?? endX;
+        const addText = (content: string, x: number, y: number, anchor: string, className: string) => {
+            const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            text.setAttribute('x', String(x));
+            text.setAttribute('y', String(y));
+            text.setAttribute('font-size', className === 'chord-symbol' ? '13' : '11');
+            text.setAttribute('font-family', 'sans-serif');
+            text.setAttribute('text-anchor', anchor);
+            text.setAttribute('fill', '#000000');
+            text.setAttribute('class', className);
+            text.textContent = content;
+            this.svg!.appendChild(text);
+        };
+
+        for (const harmony of this.harmony) {
+            if (harmony.measure !== measureNumber || harmony.voice !== voiceId) continue;
+            addText(harmony.text, xAt(harmony.position), staffTop - 14, 'middle', 'chord-symbol');
+        }
+
+        for (const annotation of this.annotations) {
+            if (annotation.measure !== measureNumber || annotation.voice !== voiceId) continue;
+            const x = xAt(annotation.position);
+            switch (annotation.placement) {
+                case 'below':
+                    addText(annotation.text, x, staffTop + 4 * this.lineSpacing + 14, 'middle', 'annotation');
+                    break;
+                case 'left':
+                    addText(annotation.text, x - this.noteRadius - 6, staffTop + 2 * this.lineSpacing + 4, 'end', 'annotation');
+                    break;
+                case 'right':
+                    addText(annotation.text, x + this.noteRadius + 6, staffTop + 2 * this.lineSpacing + 4, 'start', 'annotation');
+                    break;
+                default:
+                    addText(annotation.text, x, staffTop - 28, 'middle', 'annotation');
+            }
+        }
+    }
+
+    /**
+     * Draw the W: words as a block of text under the music
+     */
+    private drawWords(lines: string[], top: number): void {
+        if (!this.svg) return;
+
+        lines.forEach((line, index) => {
+            const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+            text.setAttribute('x', '20');
+            text.setAttribute('y', String(top + index * 18));
+            text.setAttribute('font-size', '13');
+            text.setAttribute('font-family', 'serif');
+            text.setAttribute('fill', '#000000');
+            text.setAttribute('class', 'words');
+            text.textContent = line;
+            this.svg!.appendChild(text);
+        });
+    }
+
+    /**
+     * Number of lyric verses under each voice
+     */
+    private verseCounts(mom: MusicalObjectModel): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const [voiceId, elements] of mom.voices) {
+            for (const element of elements) {
+                const notes = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+                for (const syllable of notes.flatMap(note => note.lyrics ?? [])) {
+                    counts.set(voiceId, Math.max(counts.get(voiceId) ?? 0, syllable.verse));
+                }
+            }
+        }
+        return counts;
+    }
+
+    private createNoteGroup(note: Note, xPos: number, yPos: number, staffTop: number): SVGGElement {
         const noteGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
         noteGroup.setAttribute('class', 'note');
         noteGroup.setAttribute('id', note.id);
@@ -147,34 +589,29 @@ export class SVGRenderer {
 
         noteGroup.appendChild(noteHead);
 
-        // Draw stem for notes shorter than whole note
-        if (note.duration < 1) {
-            const stem = document.createElementNS('http://www.w3.org/2000/svg', 'line');
-            const stemDirection = yPos > 50 ? -1 : 1;
-            stem.setAttribute('x1', String(xPos + (stemDirection > 0 ? -this.noteRadius : this.noteRadius)));
-            stem.setAttribute('y1', String(yPos));
-            stem.setAttribute('x2', String(xPos + (stemDirection > 0 ? -this.noteRadius : this.noteRadius)));
-            stem.setAttribute('y2', String(yPos + stemDirection * 30));
-            stem.setAttribute('stroke', '#000000');
-            stem.setAttribute('stroke-width', '1.5');
-            noteGroup.appendChild(stem);
-        }
-
         // Draw ledger lines if needed
-        this.drawLedgerLines(xPos, yPos, noteGroup);
+        this.drawLedgerLines(xPos, yPos, staffTop, noteGroup);
 
-        this.svg.appendChild(noteGroup);
-        this.noteElements.set(note.id, noteGroup);
+        return noteGroup;
+    }
 
-        return xPos + this.noteSpacing;
+    private createStem(xPos: number, y1: number, y2: number, stemDirection: number): SVGLineElement {
+        const stem = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+        stem.setAttribute('x1', String(xPos + (stemDirection > 0 ? -this.noteRadius : this.noteRadius)));
+        stem.setAttribute('y1', String(y1));
+        stem.setAttribute('x2', String(xPos + (stemDirection > 0 ? -this.noteRadius : this.noteRadius)));
+        stem.setAttribute('y2', String(y2));
+        stem.setAttribute('stroke', '#000000');
+        stem.setAttribute('stroke-width', '1.5');
+        return stem;
     }
 
-    private drawRest(rest: Rest, xPos: number): number {
+    private drawRest(rest: Rest, xPos: number, staffTop: number): number {
         if (!this.svg) return xPos;
 
         const restSymbol = document.createElementNS('http://www.w3.org/2000/svg', 'text');
         restSymbol.setAttribute('x', String(xPos));
-        restSymbol.setAttribute('y', '52');
+        restSymbol.setAttribute('y', String(staffTop + 22));
         restSymbol.setAttribute('font-size', '20');
         restSymbol.setAttribute('fill', '#333333');
         restSymbol.setAttribute('text-anchor', 'middle');
@@ -191,12 +628,12 @@ export class SVGRenderer {
         }
 
         this.svg.appendChild(restSymbol);
-        return xPos + this.noteSpacing * (rest.duration / 0.125);
+        return xPos + this.elementWidth(rest);
     }
 
-    private drawLedgerLines(xPos: number, yPos: number, group: SVGElement): void {
-        const topLine = 30;
-        const bottomLine = 30 + 4 * this.lineSpacing;
+    private drawLedgerLines(xPos: number, yPos: number, staffTop: number, group: SVGElement): void {
+        const topLine = staffTop;
+        const bottomLine = staffTop + 4 * this.lineSpacing;
 
         // Above staff
         if (yPos < topLine) {
@@ -227,19 +664,23 @@ export class SVGRenderer {
         }
     }
 
-    private midiToY(midiNote: number): number {
-        // Map MIDI notes to staff positions
-        // Middle C (60) should be on the first ledger line below the staff
-        const middleC_y = 30 + 5 * this.lineSpacing; // Just below staff
-        const stepsFromC = this.midiToSteps(midiNote);
+    /**
+     * Height of a note on a voice's staff (a treble staff without a voice), counted in
+     * steps from the pitch on the middle line
+     */
+    private midiToY(midiNote: number, staffTop: number, voiceId?: string): number {
+        const layout = this.layoutFor(voiceId);
+        const middleLine = staffTop + 2 * this.lineSpacing;
+        const steps = this.midiToSteps(midiNote - 12 * layout.clefOctave) - this.midiToSteps(layout.middle);
 
-        return middleC_y - (stepsFromC * this.lineSpacing / 2);
+        return middleLine - (steps * this.lineSpacing / 2);
     }
 
     private midiToSteps(midiNote: number): number {
-        // Convert MIDI note to diatonic steps from middle C
-        const noteInOctave = midiNote % 12;
-        const octave = Math.floor(midiNote / 12) - 5; // Octave relative to middle C
+        // Convert MIDI note to diatonic steps from middle C; microtones sit with the semitone below
+        const semitone = Math.floor(midiNote);
+        const noteInOctave = ((semitone % 12) + 12) % 12;
+        const octave = Math.floor(semitone / 12) - 5; // Octave relative to middle C
 
         // Map chromatic to diatonic (C=0, D=1, E=2, F=3, G=4, A=5, B=6)
         const chromaticToDiatonic = [0, 0, 1, 1, 2, 3, 3, 4, 4, 5, 5, 6];
@@ -248,6 +689,43 @@ export class SVGRenderer {
         return diatonicStep + octave * 7;
     }
 
+    private staffLayout(def: VoiceDefinition): StaffLayout {
+        const clef = def.clef ?? 'treble';
+        return {
+            clef,
+            clefOctave: def.clefOctave ?? 0,
+            middle: def.middle ? this.pitchToMidi(def.middle) : CLEFS[clef].middle,
+            stem: def.stem ?? 'auto'
+        };
+    }
+
+    private layoutFor(voiceId?: string): StaffLayout {
+        return (voiceId !== undefined && this.staffLayouts.get(voiceId)) || { clef: 'treble', clefOctave: 0, middle: 71, stem: 'auto' };
+    }
+
+    /**
+     * Stem direction (-1 up, 1 down): as the voice sets it, else up for notes below the middle line
+     */
+    private stemDirection(voiceId: string, belowMiddle: boolean): number {
+        const { stem } = this.layoutFor(voiceId);
+        if (stem === 'up') return -1;
+        if (stem === 'down') return 1;
+        return belowMiddle ? -1 : 1;
+    }
+
+    /**
+     * MIDI note of a written pitch such as "d" or "B,", ignoring accidentals
+     */
+    private pitchToMidi(pitch: string): number {
+        const letter = pitch.match(/[A-Ga-g]/)![0];
+        let midi = LETTER_MIDI[letter.toUpperCase()] + (letter === letter.toLowerCase() ? 12 : 0);
+        for (const mark of pitch) {
+            if (mark === "'") midi += 12;
+            if (mark === ',') midi -= 12;
+        }
+        return midi;
+    }
+
     /**
      * Highlight a note during playback
      */
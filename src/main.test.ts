@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import type { ParseResult } from './types';
+
+// Playback needs Web Audio, which jsdom lacks; the player only primes and starts it here
+const audio = vi.hoisted(() => ({
+    primed: [] as ParseResult[],
+    on: () => {},
+    prime: async (result: ParseResult) => { audio.primed.push(result); },
+    play: () => {},
+    pause: () => {},
+    stop: () => {},
+    cleanup: () => {},
+    setAccompanimentStyle: () => {},
+    setAccompanimentVolume: () => {}
+}));
+
+vi.mock('./audio/AudioSessionManager', () => ({ AudioSessionManager: { getInstance: () => audio } }));
+
+const SCORE = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <work><work-title>Imported</work-title></work>
+  <part-list><score-part id="P1"><part-name>Flute</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions><time><beats>2</beats><beat-type>4</beat-type></time></attributes>
+      <direction><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>96</per-minute></metronome></direction-type></direction>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>1</duration></note>
+      <note><pitch><step>D</step><octave>5</octave></pitch><duration>1</duration></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+// jsdom's File cannot be read with text()
+function file(name: string, content: string): File {
+    return Object.assign(new File([content], name), { text: async () => content });
+}
+
+function choose(chosen: File): void {
+    const input = document.getElementById('fileInput') as HTMLInputElement;
+    Object.defineProperty(input, 'files', { value: [chosen], configurable: true });
+    input.dispatchEvent(new Event('change'));
+}
+
+function drop(dropped: File, target: EventTarget): Event {
+    const event = new Event('drop', { bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'dataTransfer', { value: { files: [dropped], types: ['Files'] } });
+    target.dispatchEvent(event);
+    return event;
+}
+
+const byId = (id: string) => document.getElementById(id)!;
+
+describe('UniversalMusicPlayer', () => {
+    beforeAll(async () => {
+        document.body.innerHTML = `
+            <button id="playPauseBtn"></button><button id="stopBtn"></button>
+            <span id="tempoValue"></span><span id="playerState"></span>
+            <div id="dropZone"></div><input type="file" id="fileInput">
+            <div id="fileInfo" class="hidden"><span id="fileName"></span></div>
+            <ul id="diagnostics" class="hidden"></ul>
+            <div id="scoreContainer"></div>`;
+        await import('./main');
+        document.dispatchEvent(new Event('DOMContentLoaded'));
+    });
+
+    it('renders a chosen MusicXML file and primes it for playback', async () => {
+        choose(file('duet.musicxml', SCORE));
+        await vi.waitFor(() => expect(byId('playerState').textContent).toBe('READY'));
+
+        expect(audio.primed.at(-1)?.mom.headers.T).toBe('Imported');
+        expect(byId('fileName').textContent).toBe('duet.musicxml');
+        expect(byId('tempoValue').textContent).toBe('96');
+        expect(byId('scoreContainer').querySelector('svg')).not.toBeNull();
+        expect(byId('diagnostics').classList.contains('hidden')).toBe(true);
+    });
+
+    it('lists the import errors of a file it cannot read, without source positions', async () => {
+        const primed = audio.primed.length;
+        choose(file('broken.xml', '<score/>'));
+        await vi.waitFor(() => expect(byId('playerState').textContent).toBe('IDLE'));
+
+        expect([...byId('diagnostics').children].map(item => item.textContent)).toEqual(['error: Invalid MusicXML']);
+        expect(byId('diagnostics').classList.contains('hidden')).toBe(false);
+        expect(audio.primed).toHaveLength(primed);
+    });
+
+    it('loads a file dropped anywhere on the page', async () => {
+        const event = drop(file('dropped.xml', SCORE.replace('Imported', 'Dropped')), document.body);
+        expect(event.defaultPrevented).toBe(true);
+        await vi.waitFor(() => expect(audio.primed.at(-1)?.mom.headers.T).toBe('Dropped'));
+        expect(byId('fileName').textContent).toBe('dropped.xml');
+    });
+});
@@ -5,11 +5,15 @@
 import './style.css';
 import { ABCPlusParser } from './parser/ABCPlusParser';
 import { MIDIParser, type MIDINoteEvent } from './parser/MIDIParser';
+import { MusicXMLParser } from './parser/MusicXMLParser';
 import { AudioSessionManager } from './audio/AudioSessionManager';
 import { AudioFilePlayer } from './audio/AudioFilePlayer';
 import { SVGRenderer } from './graphics/SVGRenderer';
 import { PianoKeyboard } from './graphics/PianoKeyboard';
-import { PlayerState } from './types';
+import { LyricsDisplay } from './graphics/LyricsDisplay';
+import { MusicXMLExporter } from './export/MusicXMLExporter';
+import type { AccompanimentStyle } from './audio/AccompanimentGenerator';
+import { PlayerState, type MusicalObjectModel, type ParseResult, type TunebookEntry } from './types';
 
 type InputMode = 'abc' | 'file';
 type FileType = 'abc' | 'midi' | 'audio' | 'musicxml' | 'unknown';
@@ -17,14 +21,21 @@ type FileType = 'abc' | 'midi' | 'audio' | 'musicxml' | 'unknown';
 class UniversalMusicPlayer {
     private abcParser: ABCPlusParser;
     private midiParser: MIDIParser;
+    private musicXMLParser: MusicXMLParser;
     private audioManager: AudioSessionManager;
     private audioFilePlayer: AudioFilePlayer;
     private svgRenderer: SVGRenderer;
     private pianoKeyboard: PianoKeyboard;
+    private lyricsDisplay: LyricsDisplay;
     private state: PlayerState = PlayerState.IDLE;
     private inputMode: InputMode = 'abc';
     private loadedFile: File | null = null;
     private midiNotes: MIDINoteEvent[] = [];
+    private scoreNotes: Map<string, number> = new Map();
+    private tunes: TunebookEntry[] = [];
+    private selectedTune = 0;
+    private score: ParseResult | null = null;      // The score shown, which Export MusicXML writes
+    private exportURL: string | null = null;       // Blob URL of the last export, revoked on the next
 
     // DOM Elements
     private abcInput!: HTMLTextAreaElement;
@@ -32,9 +43,14 @@ class UniversalMusicPlayer {
     private stopBtn!: HTMLButtonElement;
     private loadExampleBtn!: HTMLButtonElement;
     private clearBtn!: HTMLButtonElement;
+    private tuneSelect!: HTMLSelectElement;
+    private diagnosticsList!: HTMLElement;
     private tempoDisplay!: HTMLElement;
+    private accompanimentSelect!: HTMLSelectElement;
+    private accompanimentVolume!: HTMLInputElement;
     private stateDisplay!: HTMLElement;
     private scoreContainer!: HTMLElement;
+    private lyricsLine!: HTMLElement;
     private playIcon!: SVGElement;
     private pauseIcon!: SVGElement;
     private tabABC!: HTMLButtonElement;
@@ -47,14 +63,17 @@ class UniversalMusicPlayer {
     private fileInfo!: HTMLElement;
     private fileName!: HTMLElement;
     private clearFileBtn!: HTMLButtonElement;
+    private exportXMLBtn!: HTMLButtonElement;
 
     constructor() {
         this.abcParser = new ABCPlusParser();
         this.midiParser = new MIDIParser();
+        this.musicXMLParser = new MusicXMLParser();
         this.audioManager = AudioSessionManager.getInstance();
         this.audioFilePlayer = new AudioFilePlayer();
         this.svgRenderer = new SVGRenderer();
         this.pianoKeyboard = new PianoKeyboard({ startOctave: 3, endOctave: 5 });
+        this.lyricsDisplay = new LyricsDisplay();
         this.initializeDOM();
         this.bindEvents();
         this.updateState(PlayerState.IDLE);
@@ -66,9 +85,14 @@ class UniversalMusicPlayer {
         this.stopBtn = document.getElementById('stopBtn') as HTMLButtonElement;
         this.loadExampleBtn = document.getElementById('loadExample') as HTMLButtonElement;
         this.clearBtn = document.getElementById('clearEditor') as HTMLButtonElement;
+        this.tuneSelect = document.getElementById('tuneSelect') as HTMLSelectElement;
+        this.diagnosticsList = document.getElementById('diagnostics') as HTMLElement;
         this.tempoDisplay = document.getElementById('tempoValue') as HTMLElement;
+        this.accompanimentSelect = document.getElementById('accompanimentStyle') as HTMLSelectElement;
+        this.accompanimentVolume = document.getElementById('accompanimentVolume') as HTMLInputElement;
         this.stateDisplay = document.getElementById('playerState') as HTMLElement;
         this.scoreContainer = document.getElementById('scoreContainer') as HTMLElement;
+        this.lyricsLine = document.getElementById('lyricsLine') as HTMLElement;
         this.playIcon = document.getElementById('playIcon') as unknown as SVGElement;
         this.pauseIcon = document.getElementById('pauseIcon') as unknown as SVGElement;
         this.tabABC = document.getElementById('tabABC') as HTMLButtonElement;
@@ -81,6 +105,7 @@ class UniversalMusicPlayer {
         this.fileInfo = document.getElementById('fileInfo') as HTMLElement;
         this.fileName = document.getElementById('fileName') as HTMLElement;
         this.clearFileBtn = document.getElementById('clearFile') as HTMLButtonElement;
+        this.exportXMLBtn = document.getElementById('exportXML') as HTMLButtonElement;
     }
 
     private bindEvents(): void {
@@ -89,11 +114,16 @@ class UniversalMusicPlayer {
         this.loadExampleBtn?.addEventListener('click', () => this.loadExample());
         this.clearBtn?.addEventListener('click', () => this.clearEditor());
         this.abcInput?.addEventListener('input', () => this.onInputChange());
+        this.tuneSelect?.addEventListener('change', () => this.selectTune(parseInt(this.tuneSelect.value, 10)));
+        this.accompanimentSelect?.addEventListener('change', () => this.selectAccompaniment());
+        this.accompanimentVolume?.addEventListener('input', () =>
+            this.audioManager.setAccompanimentVolume(parseFloat(this.accompanimentVolume.value)));
         this.tabABC?.addEventListener('click', () => this.switchTab('abc'));
         this.tabFile?.addEventListener('click', () => this.switchTab('file'));
         this.browseBtn?.addEventListener('click', () => this.fileInput?.click());
         this.fileInput?.addEventListener('change', (e) => this.handleFileSelect(e));
         this.clearFileBtn?.addEventListener('click', () => this.clearFile());
+        this.exportXMLBtn?.addEventListener('click', () => this.exportMusicXML());
 
         this.dropZone?.addEventListener('dragover', (e) => { e.preventDefault(); this.dropZone.classList.add('drag-over'); });
         this.dropZone?.addEventListener('dragleave', () => this.dropZone.classList.remove('drag-over'));
@@ -103,11 +133,20 @@ class UniversalMusicPlayer {
             if (e.dataTransfer?.files?.length) this.loadFile(e.dataTransfer.files[0]);
         });
 
+        // Files dropped anywhere else on the page load too, rather than the browser opening them
+        document.addEventListener('dragover', (e) => { if (e.dataTransfer?.types.includes('Files')) e.preventDefault(); });
+        document.addEventListener('drop', (e) => {
+            if (e.defaultPrevented || !e.dataTransfer?.files?.length) return;
+            e.preventDefault();
+            this.loadFile(e.dataTransfer.files[0]);
+        });
+
         document.addEventListener('keydown', (e) => this.handleKeyboard(e));
         window.addEventListener('beforeunload', () => this.cleanup());
 
         this.audioManager.on('noteStart', (noteId: string) => {
             this.svgRenderer.highlightNote(noteId);
+            this.lyricsDisplay.highlightNote(noteId);
             const midiNote = this.getMidiNoteFromId(noteId);
             if (midiNote !== null) this.pianoKeyboard.highlightKey(midiNote);
         });
@@ -146,16 +185,20 @@ class UniversalMusicPlayer {
 
     private async loadFile(file: File): Promise<void> {
         this.loadedFile = file;
-        this.fileName.textContent = file.name;
+        if (this.fileName) this.fileName.textContent = file.name;
         this.dropZone?.classList.add('hidden');
         this.fileInfo?.classList.remove('hidden');
         const fileType = this.detectFileType(file.name);
+        this.lyricsLine?.classList.add('hidden');
+        this.clearDiagnostics();
+        this.setScore(null);
 
         try {
             this.updateState(PlayerState.LOADING_SHARDS);
             if (fileType === 'midi') await this.loadMIDI(file);
             else if (fileType === 'audio') await this.loadAudio(file);
             else if (fileType === 'abc') await this.loadABCFile(file);
+            else if (fileType === 'musicxml') await this.loadMusicXML(file);
             else this.updateState(PlayerState.IDLE);
         } catch (error) {
             console.error('Error loading file:', error);
@@ -168,7 +211,7 @@ class UniversalMusicPlayer {
         if (['.mid', '.midi'].includes(ext)) return 'midi';
         if (['.mp3', '.wav', '.ogg', '.flac', '.m4a'].includes(ext)) return 'audio';
         if (['.abc'].includes(ext)) return 'abc';
-        if (['.xml', '.musicxml'].includes(ext)) return 'musicxml';
+        if (['.xml', '.musicxml', '.mxl'].includes(ext)) return 'musicxml';
         return 'unknown';
     }
 
@@ -192,15 +235,25 @@ class UniversalMusicPlayer {
         const text = await file.text();
         this.abcInput.value = text;
         this.switchTab('abc');
+        this.selectedTune = 0;
+        this.updateTunePicker();
         await this.parseAndPlayABC();
     }
 
+    private async loadMusicXML(file: File): Promise<void> {
+        const result = await this.musicXMLParser.parseFile(file);
+        this.showDiagnostics(result, null);
+        if (result.errors.length) { this.updateState(PlayerState.IDLE); return; }
+        await this.showScore(result);
+    }
+
     private clearFile(): void {
         this.loadedFile = null;
         this.midiNotes = [];
         this.audioFilePlayer.cleanup();
         this.dropZone?.classList.remove('hidden');
         this.fileInfo?.classList.add('hidden');
+        this.clearDiagnostics();
         this.showScorePlaceholder();
         this.updateState(PlayerState.IDLE);
     }
@@ -214,13 +267,10 @@ class UniversalMusicPlayer {
     private async play(): Promise<void> {
         if (this.state !== PlayerState.READY && this.state !== PlayerState.PAUSED) return;
         this.updateState(PlayerState.PLAYING);
-        if (this.loadedFile) {
-            const type = this.detectFileType(this.loadedFile.name);
-            if (type === 'audio') this.audioFilePlayer.play();
-            else if (type === 'midi') this.playMIDI();
-        } else {
-            this.audioManager.play();
-        }
+        const type = this.loadedFile ? this.detectFileType(this.loadedFile.name) : 'abc';
+        if (type === 'audio') this.audioFilePlayer.play();
+        else if (type === 'midi') this.playMIDI();
+        else this.audioManager.play();
     }
 
     private playMIDI(): void {
@@ -241,6 +291,7 @@ class UniversalMusicPlayer {
         this.audioManager.stop();
         this.audioFilePlayer.stop();
         this.svgRenderer.clearHighlights();
+        this.lyricsDisplay.reset();
         this.pianoKeyboard.clearHighlights();
         this.updateState((this.inputMode === 'abc' && this.abcInput?.value.trim()) || this.loadedFile ? PlayerState.READY : PlayerState.IDLE);
     }
@@ -250,16 +301,52 @@ class UniversalMusicPlayer {
         if (!content) return;
         try {
             this.updateState(PlayerState.LOADING_SHARDS);
-            const result = this.abcParser.parse(content);
-            if (result.errors.length) { this.updateState(PlayerState.IDLE); return; }
-            this.tempoDisplay.textContent = this.extractTempo(result.mom.headers.Q).toString();
-            this.svgRenderer.render(result.mom, this.scoreContainer);
-            await this.audioManager.prime(result);
-            this.updateState(PlayerState.READY);
+            this.updateTunePicker();
+            const tune = this.tunes[this.selectedTune];
+            const result = this.abcParser.parse(tune.source);
+            this.showDiagnostics(result, tune.lineOffset);
+            if (result.errors.length) { this.setScore(null); this.updateState(PlayerState.IDLE); return; }
+            await this.showScore(result);
             await this.play();
         } catch { this.updateState(PlayerState.IDLE); }
     }
 
+    /**
+     * Render a parsed score, from the editor or a MusicXML file, and prime it for playback
+     */
+    private async showScore(result: ParseResult): Promise<void> {
+        this.tempoDisplay.textContent = this.extractTempo(result.mom.headers.Q).toString();
+        this.indexScoreNotes(result.mom);
+        this.svgRenderer.render(result, this.scoreContainer);
+        if (this.lyricsLine) this.lyricsDisplay.render(result.mom, this.lyricsLine);
+        await this.audioManager.prime(result);
+        this.setScore(result);
+        this.updateState(PlayerState.READY);
+    }
+
+    private setScore(result: ParseResult | null): void {
+        this.score = result;
+        if (this.exportXMLBtn) this.exportXMLBtn.disabled = result === null;
+    }
+
+    /**
+     * Download the score shown as a MusicXML file named after its title
+     */
+    private exportMusicXML(): void {
+        if (!this.score) return;
+        const xml = new MusicXMLExporter().toMusicXML(this.score);
+        const name = this.score.mom.headers.T.replace(/[\\/:*?"<>|]+/g, '').trim() || 'score';
+
+        // The previous download has long started by now; revoking right after click() can cancel it
+        if (this.exportURL) URL.revokeObjectURL(this.exportURL);
+        this.exportURL = URL.createObjectURL(new Blob([xml], { type: 'application/vnd.recordare.musicxml+xml' }));
+
+        const link = document.createElement('a');
+        link.href = this.exportURL;
+        link.download = `${name}.musicxml`;
+        link.click();
+    }
+
     private loadExample(): void {
         if (this.abcInput) this.abcInput.value = `X:1\nT:Demo\nM:4/4\nL:1/8\nQ:1/4=120\nK:C\n|: C2 E2 G2 c2 | B2 d2 g2 f2 :|`;
         this.onInputChange();
@@ -268,24 +355,115 @@ class UniversalMusicPlayer {
     private clearEditor(): void {
         this.stop();
         if (this.abcInput) this.abcInput.value = '';
+        this.updateTunePicker();
+        this.clearDiagnostics();
         this.showScorePlaceholder();
         this.updateState(PlayerState.IDLE);
     }
 
     private showScorePlaceholder(): void {
+        this.setScore(null);
+        this.lyricsLine?.classList.add('hidden');
         this.scoreContainer.innerHTML = '<div class="score-placeholder"><p>Enter ABC+ or upload a file</p></div>';
     }
 
     private onInputChange(): void {
         if (this.state !== PlayerState.IDLE) { this.stop(); this.updateState(PlayerState.IDLE); }
+        this.updateTunePicker();
+    }
+
+    /**
+     * List the editor's tunes in the picker, which only shows for tunebooks
+     */
+    private updateTunePicker(): void {
+        const content = this.abcInput?.value.trim() ?? '';
+        this.tunes = content ? this.abcParser.splitTunebook(this.abcInput.value) : [];
+        if (this.selectedTune >= this.tunes.length) this.selectedTune = 0;
+        if (!this.tuneSelect) return;
+
+        this.tuneSelect.innerHTML = '';
+        this.tunes.forEach(({ metadata }, index) => {
+            const option = document.createElement('option');
+            option.value = String(index);
+            option.textContent = `${metadata.X}. ${metadata.T}`;
+            option.title = [metadata.C, `K:${metadata.K}`, `M:${metadata.M}`].filter(Boolean).join(' · ');
+            this.tuneSelect.appendChild(option);
+        });
+        this.tuneSelect.value = String(this.selectedTune);
+        this.tuneSelect.classList.toggle('hidden', this.tunes.length < 2);
+    }
+
+    /**
+     * List parse errors and warnings under the editor; clicking one selects its position.
+     * Diagnostics of imported files (no line offset) have no position in the editor
+     */
+    private showDiagnostics(result: ParseResult, lineOffset: number | null): void {
+        if (!this.diagnosticsList) return;
+        this.diagnosticsList.innerHTML = '';
+
+        const entries = [
+            ...result.errors.map(d => ({ ...d, severity: 'error' })),
+            ...result.warnings.map(d => ({ ...d, severity: 'warning' }))
+        ];
+        for (const { line, column, message, severity } of entries) {
+            const item = document.createElement('li');
+            item.className = `diagnostic diagnostic-${severity}`;
+            if (lineOffset === null) {
+                item.textContent = `${severity}: ${message}`;
+            } else {
+                const fileLine = line + lineOffset;
+                item.textContent = `${fileLine}:${column} ${severity}: ${message}`;
+                item.addEventListener('click', () => this.selectSourcePosition(fileLine, column));
+            }
+            this.diagnosticsList.appendChild(item);
+        }
+        this.diagnosticsList.classList.toggle('hidden', entries.length === 0);
+    }
+
+    private clearDiagnostics(): void {
+        if (!this.diagnosticsList) return;
+        this.diagnosticsList.innerHTML = '';
+        this.diagnosticsList.classList.add('hidden');
+    }
+
+    private selectSourcePosition(line: number, column: number): void {
+        if (!this.abcInput) return;
+        const lines = this.abcInput.value.split('\n');
+        const lineStart = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0);
+        const start = Math.min(lineStart + column - 1, this.abcInput.value.length);
+        const lineEnd = lineStart + (lines[line - 1]?.length ?? 0);
+        this.abcInput.focus();
+        this.abcInput.setSelectionRange(start, Math.max(start, lineEnd));
+    }
+
+    private async selectTune(index: number): Promise<void> {
+        this.selectedTune = index;
+        this.stop();
+        await this.parseAndPlayABC();
+    }
+
+    private async selectAccompaniment(): Promise<void> {
+        const style = (this.accompanimentSelect.value || null) as AccompanimentStyle | null;
+        this.stop();
+        await this.audioManager.setAccompanimentStyle(style);
     }
 
     private getMidiNoteFromId(id: string): number | null {
-        if (!id.startsWith('midi_')) return null;
+        if (!id.startsWith('midi_')) return this.scoreNotes.get(id) ?? null;
         const note = this.midiNotes[parseInt(id.replace('midi_', ''), 10)];
         return note ? note.midiNote : null;
     }
 
+    private indexScoreNotes(mom: MusicalObjectModel): void {
+        this.scoreNotes.clear();
+        for (const measure of mom.measures) {
+            for (const element of measure.elements) {
+                const notes = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+                for (const note of notes) this.scoreNotes.set(note.id, note.midiNote);
+            }
+        }
+    }
+
     private handleKeyboard(e: KeyboardEvent): void {
         if (e.target === this.abcInput) return;
         if (e.key === ' ') { e.preventDefault(); this.togglePlayPause(); }
@@ -305,7 +483,11 @@ class UniversalMusicPlayer {
         return m ? parseInt(m[3]) : 120;
     }
 
-    private cleanup(): void { this.audioManager.cleanup(); this.audioFilePlayer.cleanup(); }
+    private cleanup(): void {
+        this.audioManager.cleanup();
+        this.audioFilePlayer.cleanup();
+        if (this.exportURL) URL.revokeObjectURL(this.exportURL);
+    }
 }
 
 document.addEventListener('DOMContentLoaded', () => new UniversalMusicPlayer());
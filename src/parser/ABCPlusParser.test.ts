@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest';
+import { ABCPlusParser } from './ABCPlusParser';
+import type { ParseResult, Note, Rest, Chord } from '../types';
+
+function parse(abc: string): ParseResult {
+    return new ABCPlusParser().parse(abc);
+}
+
+function elementsOf(result: ParseResult, voice?: string): (Note | Rest | Chord)[] {
+    return voice === undefined ? [...result.mom.voices.values()][0] : result.mom.voices.get(voice)!;
+}
+
+function durationsOf(result: ParseResult, voice?: string): number[] {
+    return elementsOf(result, voice).map(element => element.duration);
+}
+
+function pitchesOf(result: ParseResult, voice?: string): number[] {
+    return elementsOf(result, voice).flatMap(element => 'midiNote' in element ? [element.midiNote] : []);
+}
+
+describe('ABCPlusParser', () => {
+    describe('key signatures and accidentals', () => {
+        it('applies the key signature to notes without accidentals', () => {
+            expect(pitchesOf(parse('X:1\nK:G\nF f c |]'))).toEqual([54, 66, 60]);
+            expect(pitchesOf(parse('X:1\nK:Bb\nB e E |]'))).toEqual([58, 63, 51]);
+            expect(pitchesOf(parse('X:1\nK:Am\nF G c |]'))).toEqual([53, 55, 60]);
+        });
+
+        it('applies the explicit accidentals of a key, naturals included', () => {
+            expect(pitchesOf(parse('X:1\nK:D =c\nc f |]'))).toEqual([60, 66]);
+            expect(pitchesOf(parse('X:1\nK:D exp _b clef=bass\nB F |]'))).toEqual([58, 53]);
+        });
+
+        it('keeps an accidental for the rest of the bar, then drops it', () => {
+            expect(pitchesOf(parse('X:1\nK:G\n^c c =F F | c F |]'))).toEqual([61, 61, 53, 53, 60, 54]);
+        });
+
+        it('reads double sharps and flats', () => {
+            expect(pitchesOf(parse('X:1\nK:C\n__B ^^C |]'))).toEqual([57, 50]);
+        });
+
+        it('reads quarter-tone accidentals as fractional pitches', () => {
+            expect(pitchesOf(parse('X:1\nL:1/4\nK:C\n^/c _/c c ^3/2c|]'))).toEqual([60.5, 59.5, 59.5, 61.5]);
+        });
+    });
+
+    describe('chords', () => {
+        it('sounds the notes of a chord together', () => {
+            const [chord, note] = elementsOf(parse('X:1\nL:1/8\nK:G\n[CEG]2 F |]')) as [Chord, Note];
+            expect(chord.notes.map(n => n.midiNote)).toEqual([48, 52, 55]);
+            expect(chord.notes.map(n => n.startTime)).toEqual([0, 0, 0]);
+            expect(note.midiNote).toBe(54);
+            expect(note.startTime).toBe(1 / 4);
+        });
+
+        it('lasts as long as its first note, times the chord length', () => {
+            expect(durationsOf(parse('X:1\nL:1/8\nK:C\n[c2e]g [FA]/ |]'))).toEqual([1 / 4, 1 / 8, 1 / 16]);
+        });
+
+        it('gives every chord and note its own ID', () => {
+            const ids = elementsOf(parse('X:1\nL:1/8\nK:C\n[CE] G [DF] |]'))
+                .flatMap(element => 'notes' in element ? [element.id, ...element.notes.map(n => n.id)] : [element.id]);
+            expect(new Set(ids).size).toBe(ids.length);
+        });
+    });
+
+    describe('ties and slurs', () => {
+        it('ties a note to the next note of its pitch, across the barline', () => {
+            const [first, second, third] = elementsOf(parse('X:1\nL:1/4\nK:C\nC ^F- | F G |]')) as Note[];
+            expect(first.tiedTo).toBeUndefined();
+            expect(second.tiedTo).toBe(third.id);
+            expect(third.midiNote).toBe(54);
+        });
+
+        it('ties the notes of a chord one by one', () => {
+            const [chord, next] = elementsOf(parse('X:1\nL:1/4\nK:C\n[C-E] [CG] |]')) as Chord[];
+            expect(chord.notes.map(note => note.tiedTo)).toEqual([next.notes[0].id, undefined]);
+        });
+
+        it('marks where each slur starts and ends', () => {
+            const notes = elementsOf(parse('X:1\nL:1/4\nK:C\n(C D) E (F |G) |]')) as Note[];
+            expect(notes.map(note => [note.slurStart ?? false, note.slurEnd ?? false])).toEqual([
+                [true, false], [false, true], [false, false], [true, false], [false, true]
+            ]);
+        });
+    });
+
+    describe('tuplets, broken rhythms and grace notes', () => {
+        it('fits a triplet into the time of two', () => {
+            const durations = durationsOf(parse('X:1\nL:1/8\nK:C\n(3abc d2 |]'));
+            durations.slice(0, 3).forEach(d => expect(d).toBeCloseTo(1 / 12));
+            expect(durations[3]).toBe(1 / 4);
+        });
+
+        it('reads the (p:q:r form', () => {
+            const durations = durationsOf(parse('X:1\nL:1/8\nK:C\n(5:4:5abcde (3:2:2a2b |]'));
+            durations.slice(0, 5).forEach(d => expect(d).toBeCloseTo(1 / 10));
+            expect(durations[5]).toBeCloseTo(1 / 6);
+            expect(durations[6]).toBeCloseTo(1 / 12);
+        });
+
+        it('dots the first note of a>b and the second of a<b', () => {
+            expect(durationsOf(parse('X:1\nL:1/8\nK:C\na>b c<d |]'))).toEqual([3 / 16, 1 / 16, 1 / 16, 3 / 16]);
+        });
+
+        it('takes grace notes out of no time', () => {
+            const result = parse('X:1\nL:1/8\nK:C\n{g}a b |]');
+            const [first, second] = elementsOf(result) as Note[];
+            expect(first.grace?.notes.map(note => note.midiNote)).toEqual([67]);
+            expect(second.startTime).toBe(1 / 8);
+        });
+    });
+
+    describe('voices', () => {
+        it('gives each voice its own timeline in shared measures', () => {
+            const result = parse('X:1\nL:1/4\nM:2/4\nK:C\nV:1\nCD|EF|\nV:2\nC,2|D,E,|]');
+            expect([...result.mom.voices.keys()]).toEqual(['1', '2']);
+            expect(pitchesOf(result, '2')).toEqual([36, 38, 40]);
+            expect(elementsOf(result, '2').map(element => element.startTime)).toEqual([0, 0.5, 0.75]);
+
+            expect(result.mom.measures).toHaveLength(2);
+            for (const measure of result.mom.measures) expect([...measure.voices.keys()]).toEqual(['1', '2']);
+        });
+    });
+
+    describe('tempo, meter and key changes', () => {
+        const TUNE = 'X:1\nM:4/4\nL:1/4\nQ:1/4=120\nK:C\nF G A B|[K:G][M:3/4] F G A|\nL:1/8\nQ:1/4=90\nF G A B c d|]';
+
+        it('maps the header values and each later change to its beat and measure', () => {
+            const changes = parse(TUNE).changes.map(({ type, position, measure, value }) => [type, position, measure, value]);
+            expect(changes).toEqual([
+                ['tempo', 0, 1, '1/4=120'], ['meter', 0, 1, '4/4'], ['length', 0, 1, '1/4'], ['key', 0, 1, 'C'],
+                ['key', 1, 2, 'G'], ['meter', 1, 2, '3/4'],
+                ['length', 1.75, 3, '1/8'], ['tempo', 1.75, 3, '1/4=90']
+            ]);
+        });
+
+        it('reads the notes after a change in the new key and unit length', () => {
+            const result = parse(TUNE);
+            expect(pitchesOf(result).slice(0, 5)).toEqual([53, 55, 57, 59, 54]);
+            expect(pitchesOf(result).slice(7, 8)).toEqual([54]);
+            expect(durationsOf(result).slice(6, 8)).toEqual([1 / 4, 1 / 8]);
+        });
+    });
+
+    describe('tunebooks', () => {
+        const BOOK = 'L:1/4\n%%swing 0.6\n\nX:1\nT:First\nK:G\nF G|]\n\nX:2\nT:Second\nC:Trad.\nM:3/4\nK:D\nF2 G|]';
+
+        it('splits a tunebook at each X: field, with the metadata of each tune', () => {
+            const tunes = new ABCPlusParser().splitTunebook(BOOK);
+            expect(tunes.map(tune => tune.metadata)).toEqual([
+                { X: 1, T: 'First', C: undefined, K: 'G', M: '4/4' },
+                { X: 2, T: 'Second', C: 'Trad.', K: 'D', M: '3/4' }
+            ]);
+            expect(tunes.map(tune => tune.startLine)).toEqual([3, 8]);
+        });
+
+        it('parses each tune with the file header it inherits', () => {
+            const tunes = new ABCPlusParser().parseTunebook(BOOK);
+            expect(tunes[1].source.startsWith('L:1/4\n%%swing 0.6\nX:2')).toBe(true);
+            expect(tunes.map(tune => durationsOf(tune.result))).toEqual([[1 / 4, 1 / 4], [1 / 2, 1 / 4]]);
+            expect(tunes.map(tune => pitchesOf(tune.result)[0])).toEqual([54, 54]);
+        });
+
+        it('reads text without an X: field as a single tune', () => {
+            expect(new ABCPlusParser().splitTunebook('K:C\nCDE|]')).toHaveLength(1);
+        });
+    });
+
+    describe('errors and warnings', () => {
+        it('reports each problem at its line and column', () => {
+            const result = parse('X:1\nM:4/4\nL:1/4\nK:C\nC D E F|\n  C D E|\nC [DF E|]');
+            expect(result.errors).toEqual([{ line: 7, column: 3, message: "Unclosed chord: missing ']'" }]);
+            expect(result.warnings).toEqual([{ line: 6, column: 8, message: 'Bar 2 in voice V1 lasts 3/4, but M:4/4 bars last 1' }]);
+        });
+
+        it('warns about unknown directives and characters and unmatched slurs, in source order', () => {
+            const result = parse('X:1\nL:1/4\n%%bogus 1\nK:C\nC D) E ? (F|]');
+            expect(result.errors).toEqual([]);
+            expect(result.warnings.map(({ line, column }) => [line, column])).toEqual([[3, 1], [5, 4], [5, 8], [5, 10]]);
+            expect(result.warnings.map(warning => warning.message)).toEqual([
+                'Unknown directive %%bogus', "Unmatched ')' in voice V1", "Unknown character '?'", 'Unclosed slur in voice V1'
+            ]);
+        });
+
+        it('reads a tune without K: in C major, with a warning', () => {
+            const result = parse('X:1\nT:No key\nF|]');
+            expect(pitchesOf(result)).toEqual([53]);
+            expect(result.warnings.map(warning => warning.message)).toEqual(['No K: field; the tune is read in C major']);
+        });
+
+        it('gives each tune of a tunebook the offset from its lines to the lines of the file', () => {
+            const tunes = new ABCPlusParser().splitTunebook('L:1/4\n\nX:1\nK:C\nC|]\nX:2\nK:C\nC [D|]');
+            expect(tunes.map(tune => tune.lineOffset)).toEqual([1, 4]);
+        });
+    });
+
+    describe('directives', () => {
+        it('anchors each directive to the beat and measure of the music after it', () => {
+            const { directives } = parse('X:1\nL:1/4\nM:2/4\n%%swing 0.6\nK:C\nC D|\n%%marker Verse\nE F|[I:mute] G A|]');
+            expect(directives.swing.map(({ position, measure, voice }) => [position, measure, voice])).toEqual([[0, 1, undefined]]);
+            expect(directives.marker.map(({ position, measure, attributes }) => [position, measure, attributes.value])).toEqual([[0.5, 2, 'Verse']]);
+            expect(directives.mute.map(({ position, measure }) => [position, measure])).toEqual([[1, 3]]);
+        });
+
+        it('scopes directives in the music of a voice, or naming one, to that voice', () => {
+            const { directives } = parse('X:1\nL:1/4\nM:2/4\nK:C\nV:1\nC D|\n%%mute\nE F|\nV:2\nC,2|\n%%swing 0.6 voice="1"\nD,2|]');
+            expect(directives.mute.map(({ position, voice }) => [position, voice])).toEqual([[0.5, '1']]);
+            expect(directives.swing.map(({ position, voice }) => [position, voice])).toEqual([[0.5, '1']]);
+        });
+    });
+
+    describe('decorations', () => {
+        const TUNE = 'X:1\nL:1/4\nK:C\n!mf!.C ~D !<(!E !trill!!3![CE] | !<)!F !fermata!z !p!G !bogus!A|]';
+
+        it('puts decorations and their shorthands on the next note, chord or rest', () => {
+            const decorations = elementsOf(parse(TUNE)).map(element => element.decorations?.map(({ type, value }) => value ? `${type} ${value}` : type));
+            expect(decorations).toEqual([
+                ['mf', 'staccato'], ['roll'], ['crescendo'], ['trill', 'fingering 3'], undefined, ['fermata'], ['p'], undefined
+            ]);
+        });
+
+        it('carries the dynamic level forward and marks the notes under a hairpin', () => {
+            const notes = elementsOf(parse(TUNE)).flatMap(element => 'notes' in element ? [element.notes[0]] : 'midiNote' in element ? [element] : []);
+            expect(notes.map(note => [note.dynamic, note.hairpin])).toEqual([
+                ['mf', undefined], ['mf', undefined], ['mf', 'crescendo'], ['mf', 'crescendo'], ['mf', 'crescendo'], ['p', undefined], ['p', undefined]
+            ]);
+        });
+
+        it('warns about unknown decorations', () => {
+            expect(parse(TUNE).warnings.map(warning => warning.message)).toEqual(['Unknown decoration !bogus!']);
+        });
+    });
+
+    describe('lyrics', () => {
+        it('sings one syllable per note, verse by verse', () => {
+            const result = parse('X:1\nL:1/4\nK:C\nC D E F|\nw: Hel-lo world_\nw: two');
+            const lyrics = (elementsOf(result) as Note[]).map(note => note.lyrics);
+            expect(lyrics).toEqual([
+                [{ verse: 1, text: 'Hel', hyphen: true }, { verse: 2, text: 'two' }],
+                [{ verse: 1, text: 'lo' }],
+                [{ verse: 1, text: 'world', extender: true }],
+                undefined
+            ]);
+        });
+
+        it('skips notes with * and the continuations of ties', () => {
+            const result = parse('X:1\nL:1/4\nK:C\nC D- D E|\nw: a * b');
+            const texts = (elementsOf(result) as Note[]).map(note => note.lyrics?.[0].text);
+            expect(texts).toEqual(['a', undefined, undefined, 'b']);
+        });
+    });
+
+    describe('chord symbols and annotations', () => {
+        const TUNE = 'X:1\nL:1/4\nK:C\n"Am7"A "^Allegro"B "_softly"c "G/B"d|"Hello"e|]';
+
+        it('reads chord symbols into the harmony at their beat', () => {
+            const { harmony } = parse(TUNE);
+            expect(harmony.map(({ text, root, quality, extensions, bass, position, measure }) =>
+                [text, root, quality, extensions, bass, position, measure])).toEqual([
+                ['Am7', 'A', 'minor', ['7'], undefined, 0, 1],
+                ['G/B', 'G', 'major', [], 'B', 0.75, 1]
+            ]);
+        });
+
+        it('keeps annotations with their placement, and text that is no chord symbol as one', () => {
+            const result = parse(TUNE);
+            expect(result.annotations.map(({ text, placement, position }) => [text, placement, position])).toEqual([
+                ['Allegro', 'above', 0.25], ['softly', 'below', 0.5], ['Hello', 'above', 1]
+            ]);
+            expect(result.warnings.map(warning => warning.message)).toEqual(["Unrecognised chord symbol 'Hello'"]);
+        });
+    });
+
+    describe('%%transpose', () => {
+        it('moves the whole tune from the start', () => {
+            const result = parse('X:1\nL:1/4\n%%transpose 2\nK:G\n"G"GABc|]');
+            expect(result.mom.headers.K).toBe('A');
+            expect(pitchesOf(result)).toEqual([57, 59, 61, 62]);
+            expect(result.harmony.map(symbol => symbol.text)).toEqual(['A']);
+        });
+
+        it('leaves the music before a %%transpose in the middle of the tune', () => {
+            const result = parse('X:1\nL:1/4\nM:4/4\nK:G\n"G"GABc|\n%%transpose 2\n"G"GABc|]');
+            expect(result.mom.headers.K).toBe('G');
+            expect(pitchesOf(result)).toEqual([55, 57, 59, 60, 57, 59, 61, 62]);
+            expect(result.harmony.map(symbol => symbol.text)).toEqual(['G', 'A']);
+            expect(result.changes.filter(change => change.type === 'key').map(change => [change.position, change.value]))
+                .toEqual([[0, 'G'], [1, 'A']]);
+        });
+    });
+
+    describe('voice properties', () => {
+        const TUNE = 'X:1\nL:1/4\n%%MIDI program 40\nV:T name="Tenor" clef=treble-8 stem=down\nV:B clef=bass octave=-1 middle=d instrument=cello\nK:C\n' +
+            'V:T\nc|]\nV:B\nC|]\nV:D perc\n%%MIDI channel 10\nC|]';
+
+        it('reads clef, octave, middle, stem and instrument, and %%MIDI settings', () => {
+            expect(parse(TUNE).mom.headers.V).toEqual([
+                { id: 'T', name: 'Tenor', clef: 'treble', clefOctave: -1, stem: 'down', program: 40 },
+                { id: 'B', clef: 'bass', octave: -1, middle: 'd', instrument: 'cello', program: 40 },
+                { id: 'D', clef: 'percussion', channel: 10, program: 40 }
+            ]);
+        });
+
+        it('sounds octave clefs and octave= an octave away', () => {
+            const result = parse(TUNE);
+            expect([pitchesOf(result, 'T'), pitchesOf(result, 'B'), pitchesOf(result, 'D')]).toEqual([[48], [36], [48]]);
+        });
+
+        it('warns about unknown clefs and stem directions', () => {
+            const result = parse('X:1\nL:1/4\nK:C\nV:X clef=weird stem=sideways\nC|]');
+            expect(result.warnings.map(warning => warning.message)).toEqual([
+                "Unknown clef 'weird'", "V: stem= must be up, down or auto, not 'sideways'"
+            ]);
+        });
+    });
+});
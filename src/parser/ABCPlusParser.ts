@@ -14,28 +14,249 @@ import type {
     Rest,
     Chord,
     Measure,
+    NavigationMark,
+    Decoration,
+    DynamicLevel,
+    GraceGroup,
+    ScoreChange,
     VoiceDefinition,
+    Clef,
     ParseError,
     ParseWarning,
-    DecorationType
+    TunebookEntry,
+    ParsedTune,
+    DecorationType,
+    Syllable,
+    Harmony,
+    Annotation,
+    AnnotationPlacement
 } from '../types';
+import { KeySignature } from '../theory/KeySignature';
+import { ChordSymbol } from '../theory/ChordSymbol';
+import { Transposer } from '../theory/Transposer';
+import { Tuning } from '../theory/Tuning';
+
+// Decoration and annotation texts that steer the playback order, lower-cased without spaces
+const NAVIGATION_MARKS: Record<string, NavigationMark> = {
+    'segno': 'segno',
+    'coda': 'coda',
+    'fine': 'fine',
+    'dacoda': 'dacoda',
+    'tocoda': 'dacoda',
+    'd.c.': 'D.C.',
+    'dacapo': 'D.C.',
+    'd.s.': 'D.S.',
+    'dalsegno': 'D.S.',
+    'd.c.alfine': 'D.C.alfine',
+    'd.c.alcoda': 'D.C.alcoda',
+    'd.s.alfine': 'D.S.alfine',
+    'd.s.alcoda': 'D.S.alcoda'
+};
+
+const DIRECTIVE_TYPES: Record<string, DirectiveType> = {
+    'dir': 'dir',
+    'fx': 'fx',
+    'analysis': 'analysis',
+    'game_state': 'game_state',
+    'loop': 'loop',
+    'art': 'art',
+    'ornaments': 'ornaments',
+    'marker': 'marker',
+    'swing': 'swing',
+    'swing-off': 'swing',
+    'mute': 'mute',
+    'mute-off': 'mute',
+    'vskip': 'vskip',
+    'sep': 'sep',
+    'measurenumbering': 'measurenumbering',
+    'frame': 'frame',
+    'fb': 'fb',
+    'transpose': 'transpose',
+    'tuning': 'tuning'
+};
+
+// Standard ABC layout and typesetting directives, accepted without effect on playback
+const FORMATTING_DIRECTIVES = new Set([
+    'abc-version', 'abc-charset', 'abc-creator', 'abc-include', 'abc-copyright', 'abc-edited-by',
+    'MIDI', 'score', 'staves', 'scale', 'pagewidth', 'pageheight', 'staffwidth', 'leftmargin',
+    'rightmargin', 'topmargin', 'botmargin', 'titlefont', 'subtitlefont', 'composerfont',
+    'gchordfont', 'vocalfont', 'annotationfont', 'partsfont', 'textfont', 'wordsfont',
+    'tempofont', 'infofont', 'text', 'center', 'begintext', 'endtext', 'newpage',
+    'linebreak', 'continueall', 'barnumbers', 'propagate-accidentals', 'writeout-accidentals'
+]);
+
+// Decorations written !name!, by ABC 2.1 name; dynamics and hairpins are handled separately
+const DECORATIONS: Record<string, DecorationType> = {
+    'trill': 'trill',
+    'trill(': 'trill',
+    'lowermordent': 'mordent',
+    'mordent': 'mordent',
+    'uppermordent': 'uppermordent',
+    'pralltriller': 'uppermordent',
+    'roll': 'roll',
+    'turn': 'turn',
+    'turnx': 'turn',
+    'invertedturn': 'invertedturn',
+    'invertedturnx': 'invertedturn',
+    'arpeggio': 'arpeggio',
+    '>': 'accent',
+    'accent': 'accent',
+    'emphasis': 'accent',
+    'marcato': 'marcato',
+    '^': 'marcato',
+    'fermata': 'fermata',
+    'invertedfermata': 'fermata',
+    'tenuto': 'tenuto',
+    'staccato': 'staccato',
+    'wedge': 'wedge',
+    'upbow': 'upbow',
+    'downbow': 'downbow',
+    'open': 'open',
+    'thumb': 'thumb',
+    'snap': 'snap',
+    'slide': 'slide',
+    'breath': 'breath',
+    'sfz': 'sfz'
+};
+
+// Single-character decoration shorthands (ABC 2.1, section 4.14)
+const DECORATION_SHORTHANDS: Record<string, string> = {
+    '.': 'staccato',
+    '~': 'roll',
+    'H': 'fermata',
+    'L': 'emphasis',
+    'M': 'lowermordent',
+    'O': 'coda',
+    'P': 'uppermordent',
+    'S': 'segno',
+    'T': 'trill',
+    'u': 'upbow',
+    'v': 'downbow'
+};
+
+const DYNAMICS = new Set<string>(['pppp', 'ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff', 'ffff']);
+
+const HAIRPINS: Record<string, { type: 'crescendo' | 'diminuendo'; start: boolean }> = {
+    'crescendo(': { type: 'crescendo', start: true },
+    '<(': { type: 'crescendo', start: true },
+    'crescendo)': { type: 'crescendo', start: false },
+    '<)': { type: 'crescendo', start: false },
+    'diminuendo(': { type: 'diminuendo', start: true },
+    '>(': { type: 'diminuendo', start: true },
+    'diminuendo)': { type: 'diminuendo', start: false },
+    '>)': { type: 'diminuendo', start: false }
+};
+
+// Prefixes that make quoted text an annotation rather than a chord symbol
+const ANNOTATION_PLACEMENTS: Record<string, AnnotationPlacement> = {
+    '^': 'above',
+    '_': 'below',
+    '<': 'left',
+    '>': 'right',
+    '@': 'free'
+};
+
+// Clef names of V: fields, by name or clef letter
+const CLEF_NAMES: Record<string, Clef> = {
+    'treble': 'treble',
+    'g': 'treble',
+    'bass': 'bass',
+    'f': 'bass',
+    'alto': 'alto',
+    'c': 'alto',
+    'tenor': 'tenor',
+    'perc': 'percussion',
+    'percussion': 'percussion',
+    'none': 'none'
+};
+
+// Typesetting-only decorations, accepted without effect
+const LAYOUT_DECORATIONS = new Set(['+', 'plus', 'trill)', 'shortphrase', 'mediumphrase', 'longphrase', 'editorial', 'courtesy', 'xstem', 'ped', 'ped-up']);
+
+/**
+ * Parsing state kept separately for each V: voice, so voices run on their own clock
+ */
+interface VoiceState {
+    id: string;
+    beatPosition: number;
+    measureIndex: number;                   // Index into the measure list shared by all voices
+    key: KeySignature;
+    unitLength: number;                     // Current L: value
+    barAccidentals: Map<string, number>;
+    pendingTies: Note[];
+    pendingSlurStarts: number;
+    slurDepth: number;
+    lastElement: Note | Rest | Chord | null;
+    tuplet: { factor: number; remaining: number } | null;
+    pendingBroken: number | null;
+    pendingGrace: GraceGroup | null;
+    pendingRepeatStart: boolean;
+    ending: number[] | null;                // Volta the voice is in, until a repeat or double bar
+    openSlurs: { line: number; column: number }[];
+    pendingDecorations: Decoration[];
+    dynamic: DynamicLevel | null;
+    hairpin: 'crescendo' | 'diminuendo' | null;
+    hairpinEnding: boolean;                 // The next element is the last under the hairpin
+    lyricNotes: Note[];                     // Notes of the voice's last music line, for w: lines
+    lyricBars: number[];                    // Index into lyricNotes where each later bar starts
+    lyricLine: number;                      // Source line lyricNotes were read from
+    lyricVerse: number;                     // w: lines already aligned with that music line
+    octaveShift: number;                    // Semitones from V: octave= and a clef's +8 or -8
+}
+
+type LyricItem =
+    | { kind: 'syllable'; text: string; hyphen: boolean }
+    | { kind: 'hold' }
+    | { kind: 'skip' }
+    | { kind: 'bar' };
+
+interface Token {
+    text: string;
+    column: number;
+}
 
 export class ABCPlusParser {
     private currentLine = 0;
     private currentColumn = 0;
     private errors: ParseError[] = [];
     private warnings: ParseWarning[] = [];
+    private keySignature = KeySignature.parse('C');
+    private unitLength = 1 / 8;
+    private meter = '4/4';
+    private changes: ScoreChange[] = [];
+    private noteIdCounter = 0;
+    private voiceStates = new Map<string, VoiceState>();
+    private voice!: VoiceState;
+    private voiceScoped = false;    // A V: field has been read in the body
+    private directives: DirectivesMap = this.emptyDirectives();
+    private words: string[] = [];   // W: lines in the body
+    private harmony: Harmony[] = [];
+    private annotations: Annotation[] = [];
+    private voiceDefinitions: VoiceDefinition[] = [];     // Header V: fields, then voices defined in the body
+    private midiDefaults: { program?: number; channel?: number } = {};   // %%MIDI outside any voice
 
     parse(abcContent: string): ParseResult {
         this.reset();
 
         const lines = abcContent.split('\n');
         const headers = this.parseHeaders(lines);
-        const directives = this.parseDirectives(lines);
         const { measures, voices } = this.parseBody(lines, headers);
 
+        // Directives, chord symbols and annotations of different voices were read in source
+        // order, not time order
+        const directives = this.directives;
+        for (const list of Object.values(directives) as Directive[][]) {
+            list.sort((a, b) => a.position - b.position);
+        }
+        this.harmony.sort((a, b) => a.position - b.position);
+        this.annotations.sort((a, b) => a.position - b.position);
+
         const totalDuration = measures.reduce((sum, m) => sum + m.duration, 0);
 
+        const bySource = (a: ParseWarning, b: ParseWarning) => a.line - b.line || a.column - b.column;
+        this.errors.sort(bySource);
+        this.warnings.sort(bySource);
+
         const mom: MusicalObjectModel = {
             headers,
             measures,
@@ -43,12 +264,49 @@ export class ABCPlusParser {
             voices
         };
 
-        return {
+        const result: ParseResult = {
             mom,
             directives,
+            changes: this.changes,
+            harmony: this.harmony,
+            annotations: this.annotations,
             errors: this.errors,
             warnings: this.warnings
         };
+        this.applyTranspositions(result);
+
+        return result;
+    }
+
+    /**
+     * Split a tunebook into its tunes at each X: field. Fields and %% directives before the
+     * first tune form the file header, which every tune inherits
+     */
+    splitTunebook(abcContent: string): TunebookEntry[] {
+        const lines = abcContent.split('\n');
+        const starts = lines.flatMap((line, index) => /^X:/.test(line.trim()) ? [index] : []);
+        if (starts.length === 0) starts.push(0);
+
+        const headerLines = lines.slice(0, starts[0]).filter(line => /^([A-Za-z]:|%%)/.test(line.trim()));
+        const fileHeader = headerLines.map(line => `${line.trim()}\n`).join('');
+
+        return starts.map((start, index) => {
+            const source = fileHeader + lines.slice(start, starts[index + 1] ?? lines.length).join('\n');
+            const headers = this.parseHeaders(source.split('\n'));
+            return {
+                metadata: { X: headers.X, T: headers.T, C: headers.C, K: headers.K, M: headers.M },
+                source,
+                startLine: start,
+                lineOffset: start - headerLines.length
+            };
+        });
+    }
+
+    /**
+     * Parse every tune of a tunebook separately
+     */
+    parseTunebook(abcContent: string): ParsedTune[] {
+        return this.splitTunebook(abcContent).map(entry => ({ ...entry, result: this.parse(entry.source) }));
     }
 
     private reset(): void {
@@ -56,6 +314,19 @@ export class ABCPlusParser {
         this.currentColumn = 0;
         this.errors = [];
         this.warnings = [];
+        this.keySignature = KeySignature.parse('C');
+        this.unitLength = 1 / 8;
+        this.meter = '4/4';
+        this.changes = [];
+        this.noteIdCounter = 0;
+        this.voiceStates.clear();
+        this.voiceScoped = false;
+        this.directives = this.emptyDirectives();
+        this.words = [];
+        this.harmony = [];
+        this.annotations = [];
+        this.voiceDefinitions = [];
+        this.midiDefaults = {};
     }
 
     // ==========================================
@@ -72,9 +343,12 @@ export class ABCPlusParser {
         };
 
         const voiceDefinitions: VoiceDefinition[] = [];
+        let hasKey = false;
 
-        for (const line of lines) {
-            const trimmed = line.trim();
+        for (let i = 0; i < lines.length; i++) {
+            const trimmed = lines[i].trim();
+            this.currentLine = i + 1;
+            this.currentColumn = 1;
 
             // Skip empty lines and comments
             if (!trimmed || trimmed.startsWith('%')) continue;
@@ -85,6 +359,7 @@ export class ABCPlusParser {
             const match = trimmed.match(/^([A-Z]):\s*(.*)$/);
             if (match) {
                 const [, field, value] = match;
+                this.checkField(field, value);
 
                 switch (field) {
                     case 'X':
@@ -111,10 +386,24 @@ export class ABCPlusParser {
                     case 'V':
                         voiceDefinitions.push(this.parseVoiceDefinition(value));
                         break;
+                    case 'W':
+                        (headers.W ??= []).push(value);
+                        break;
+                }
+
+                // K: is always the last header field
+                if (field === 'K') {
+                    hasKey = true;
+                    break;
                 }
             }
         }
 
+        if (!hasKey) {
+            this.currentLine = 1;
+            this.warn('No K: field; the tune is read in C major');
+        }
+
         if (voiceDefinitions.length > 0) {
             headers.V = voiceDefinitions;
         }
@@ -123,28 +412,86 @@ export class ABCPlusParser {
     }
 
     private parseVoiceDefinition(value: string): VoiceDefinition {
-        const parts = value.split(/\s+/);
-        const def: VoiceDefinition = { id: parts[0] || 'V1' };
-
-        // Parse additional attributes like name="Violin I" clef=treble
-        const nameMatch = value.match(/name="([^"]+)"/);
-        if (nameMatch) def.name = nameMatch[1];
+        const id = value.split(/\s+/)[0];
+        const def: VoiceDefinition = { id: id || 'V1' };
+        this.applyVoiceProperties(def, value.slice(id.length));
+        return def;
+    }
 
-        const shortMatch = value.match(/short(?:name)?="([^"]+)"/);
-        if (shortMatch) def.shortName = shortMatch[1];
+    /**
+     * Read the properties after a V: field's voice ID into its definition, e.g.
+     * name="Violin I" clef=bass-8 octave=-1 transpose=-2 middle=d stem=up instrument=cello.
+     * A clef may also be named on its own ("V:2 bass")
+     */
+    private applyVoiceProperties(def: VoiceDefinition, properties: string): void {
+        const regex = /(\w+)=(?:"([^"]*)"|(\S+))|(\S+)/g;
+        let match;
+        while ((match = regex.exec(properties)) !== null) {
+            const [, name, quoted, plain, word] = match;
+            if (word) {
+                if (!this.applyClef(def, word)) this.warn(`Unknown voice property '${word}'`);
+                continue;
+            }
 
-        const clefMatch = value.match(/clef=(\w+)/);
-        if (clefMatch) def.clef = clefMatch[1] as VoiceDefinition['clef'];
+            const value = quoted ?? plain;
+            switch (name.toLowerCase()) {
+                case 'name':
+                case 'nm':
+                    def.name = value;
+                    break;
+                case 'shortname':
+                case 'short':
+                case 'subname':
+                case 'snm':
+                    def.shortName = value;
+                    break;
+                case 'clef':
+                    if (!this.applyClef(def, value)) this.warn(`Unknown clef '${value}'`);
+                    break;
+                case 'octave':
+                case 'transpose':
+                    if (/^[+-]?\d+$/.test(value)) {
+                        def[name.toLowerCase() as 'octave' | 'transpose'] = parseInt(value, 10);
+                    } else {
+                        this.warn(`V: ${name}= needs a whole number, not '${value}'`);
+                    }
+                    break;
+                case 'middle':
+                case 'm':
+                    if (/^[_^=]*[A-Ga-g][,']*$/.test(value)) def.middle = value;
+                    else this.warn(`V: middle= needs a pitch, not '${value}'`);
+                    break;
+                case 'stem':
+                    if (value === 'up' || value === 'down' || value === 'auto') def.stem = value;
+                    else this.warn(`V: stem= must be up, down or auto, not '${value}'`);
+                    break;
+                case 'instrument':
+                    def.instrument = value;
+                    break;
+            }
+        }
+    }
 
-        return def;
+    /**
+     * Set a voice's clef from a name such as "bass", "treble-8" or "F"; false if it is not one
+     */
+    private applyClef(def: VoiceDefinition, value: string): boolean {
+        const match = value.toLowerCase().match(/^([a-z]+)\d?([+-]8)?$/);
+        const clef = match ? CLEF_NAMES[match[1]] : undefined;
+        if (!clef) return false;
+
+        def.clef = clef;
+        if (match![2]) def.clefOctave = match![2] === '-8' ? -1 : 1;
+        else delete def.clefOctave;
+        return true;
     }
 
     // ==========================================
     // Directive Parsing
     // ==========================================
 
-    private parseDirectives(lines: string[]): DirectivesMap {
-        const directives: DirectivesMap = {
+    private emptyDirectives(): DirectivesMap {
+        return {
             dir: [],
             fx: [],
             analysis: [],
@@ -155,42 +502,83 @@ export class ABCPlusParser {
             swing: [],
             mute: [],
             layout: [],
-            harmony: []
+            harmony: [],
+            transpose: [],
+            tuning: []
         };
+    }
 
-        let measureNumber = 0;
-        let beatPosition = 0;
+    /**
+     * Apply %%MIDI program [channel] n or %%MIDI channel n to the current voice, or as the
+     * default for every voice when no V: field has been read yet
+     */
+    private setMidi(setting: 'program' | 'channel', value: number, channel?: string): void {
+        const range = setting === 'program' ? [0, 127] : [1, 16];
+        if (value < range[0] || value > range[1]) {
+            this.warn(`%%MIDI ${setting} must be ${range[0]}-${range[1]}, not ${value}`);
+            return;
+        }
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
+        const target = this.voiceScoped ? this.definitionFor(this.voice.id) : this.midiDefaults;
+        target[setting] = value;
+        if (channel !== undefined) this.setMidi('channel', parseInt(channel, 10));
+    }
 
-            // Track measure for positioning
-            if (line.includes('|')) {
-                measureNumber += (line.match(/\|/g) || []).length;
-            }
+    /**
+     * Record a %% directive (or I: field) at the current voice's position, so it applies
+     * from the next note on. Once the music is split into voices, it applies to this voice
+     * only, as does any directive with a voice="..." attribute
+     */
+    private addDirective(line: string): void {
+        const voice = this.voice;
+
+        // %%MIDI program and channel choose the current voice's instrument, or every voice's
+        const program = line.match(/^%%MIDI\s+program\s+(?:(\d+)\s+)?(\d+)\s*$/);
+        const channel = line.match(/^%%MIDI\s+channel\s+(\d+)\s*$/);
+        if (program) {
+            this.setMidi('program', parseInt(program[2], 10), program[1]);
+            return;
+        }
+        if (channel) {
+            this.setMidi('channel', parseInt(channel[1], 10));
+            return;
+        }
 
-            // Parse %% directives
-            if (line.startsWith('%%')) {
-                const directive = this.parseDirective(line, measureNumber, beatPosition);
-                if (directive) {
-                    this.categorizeDirective(directive, directives);
-                }
-            }
+        const directive = this.parseDirective(line, voice.measureIndex + 1, voice.beatPosition);
+        if (!directive) return;
+
+        const scope = directive.attributes['voice'] ?? (this.voiceScoped ? voice.id : undefined);
+        if (scope) directive.voice = scope;
+
+        if (directive.type === 'transpose' && !Transposer.fromValue(this.transposeValue(directive), 'C')) {
+            this.warn(`%%transpose needs semitones or a key, not '${this.transposeValue(directive)}'`);
+            return;
+        }
+        if (directive.type === 'tuning' && !Tuning.fromDirective(directive)) {
+            this.warn(`%%tuning needs a known temperament or an A4 pitch of 300-600 Hz, not '${line.slice(8).trim()}'`);
+            return;
         }
 
-        return directives;
+        this.categorizeDirective(directive, this.directives);
     }
 
     private parseDirective(line: string, measure: number, position: number): Directive | null {
         const match = line.match(/^%%(\w+(?:-\w+)?)\s*(.*)$/);
-        if (!match) return null;
+        if (!match) {
+            this.warn(`Malformed directive '${line}'`);
+            return null;
+        }
 
         const [, name, rest] = match;
+        if (!(name in DIRECTIVE_TYPES) && !FORMATTING_DIRECTIVES.has(name)) {
+            this.warn(`Unknown directive %%${name}`);
+        }
         const type = this.getDirectiveType(name);
         const attributes = this.parseAttributes(rest);
 
         return {
             type,
+            name,
             position,
             measure,
             attributes
@@ -198,25 +586,7 @@ export class ABCPlusParser {
     }
 
     private getDirectiveType(name: string): DirectiveType {
-        const typeMap: Record<string, DirectiveType> = {
-            'dir': 'dir',
-            'fx': 'fx',
-            'analysis': 'analysis',
-            'game_state': 'game_state',
-            'loop': 'loop',
-            'art': 'art',
-            'marker': 'marker',
-            'swing': 'swing',
-            'swing-off': 'swing',
-            'mute': 'mute',
-            'mute-off': 'mute',
-            'vskip': 'vskip',
-            'sep': 'sep',
-            'measurenumbering': 'measurenumbering',
-            'frame': 'frame',
-            'fb': 'fb'
-        };
-        return typeMap[name] || 'dir';
+        return DIRECTIVE_TYPES[name] || 'dir';
     }
 
     private parseAttributes(attrString: string): Record<string, string> {
@@ -255,6 +625,7 @@ export class ABCPlusParser {
                 map.loop.push(directive);
                 break;
             case 'art':
+            case 'ornaments':
                 map.art.push(directive);
                 break;
             case 'marker':
@@ -275,6 +646,31 @@ export class ABCPlusParser {
             case 'fb':
                 map.harmony.push(directive);
                 break;
+            case 'transpose':
+                map.transpose.push(directive);
+                break;
+            case 'tuning':
+                map.tuning.push(directive);
+                break;
+        }
+    }
+
+    private transposeValue(directive: Directive): string {
+        return directive.attributes['semitones'] ?? directive.attributes['key'] ?? directive.attributes['value'] ?? '';
+    }
+
+    /**
+     * Apply %%transpose directives (to the whole tune, or to their voice, from where they
+     * stand) and V: transpose= settings to the finished score, so notation and playback are
+     * both in the new key
+     */
+    private applyTranspositions(result: ParseResult): void {
+        for (const directive of result.directives.transpose) {
+            const key = Transposer.keyAt(result.mom.headers.K, result.changes, directive.position, directive.voice);
+            Transposer.fromValue(this.transposeValue(directive), key)?.transpose(result, directive.voice, directive.position);
+        }
+        for (const { id, transpose } of result.mom.headers.V ?? []) {
+            if (transpose && result.mom.voices.has(id)) new Transposer(transpose).transpose(result, id);
         }
     }
 
@@ -289,13 +685,10 @@ export class ABCPlusParser {
         const measures: Measure[] = [];
         const voices = new Map<string, (Note | Rest | Chord)[]>();
 
-        let currentMeasure: Measure = this.createMeasure(1, 0);
-        let currentVoice = 'V1';
-        let beatPosition = 0;
-        let noteIdCounter = 0;
-
-        const defaultLength = this.parseFraction(headers.L);
+        this.unitLength = this.parseFraction(headers.L);
         const meterBeats = this.getMeterBeats(headers.M);
+        this.keySignature = KeySignature.parse(headers.K);
+        this.meter = headers.M;
 
         // Find body start (after K: header)
         let bodyStartIndex = 0;
@@ -306,75 +699,495 @@ export class ABCPlusParser {
             }
         }
 
-        // Initialize default voice
-        voices.set(currentVoice, []);
+        // Declared voices keep their header order; music before any V: line goes to the first
+        this.voiceDefinitions = headers.V ?? [];
+        for (const def of this.voiceDefinitions) voices.set(def.id, []);
+        this.switchVoice(headers.V?.[0]?.id ?? 'V1', voices);
+
+        // The change map opens with the header values
+        if (headers.Q) this.changes.push({ type: 'tempo', position: 0, measure: 1, value: headers.Q });
+        this.changes.push({ type: 'meter', position: 0, measure: 1, value: headers.M });
+        this.changes.push({ type: 'length', position: 0, measure: 1, value: headers.L });
+        this.changes.push({ type: 'key', position: 0, measure: 1, value: headers.K });
+
+        // Directives in the header apply from the first note, to every voice
+        for (let lineIndex = 0; lineIndex < bodyStartIndex; lineIndex++) {
+            const line = lines[lineIndex].trim();
+            if (!line.startsWith('%%')) continue;
+            this.currentLine = lineIndex + 1;
+            this.currentColumn = lines[lineIndex].indexOf('%%') + 1;
+            this.addDirective(line);
+        }
 
         for (let lineIndex = bodyStartIndex; lineIndex < lines.length; lineIndex++) {
             const line = lines[lineIndex].trim();
+            const indent = lines[lineIndex].length - lines[lineIndex].trimStart().length;
+            this.currentLine = lineIndex + 1;
+            this.currentColumn = indent + 1;
+
+            if (line.startsWith('%%')) {
+                this.addDirective(line);
+                continue;
+            }
 
-            // Skip empty lines, comments, and directives
+            // Skip empty lines and comments
             if (!line || line.startsWith('%')) continue;
 
-            // Voice change
-            const voiceMatch = line.match(/^V:(\S+)/);
-            if (voiceMatch) {
-                currentVoice = voiceMatch[1];
-                if (!voices.has(currentVoice)) {
-                    voices.set(currentVoice, []);
-                }
+            // Field lines in the body: voice, key, meter, unit length and tempo changes
+            const fieldMatch = line.match(/^([A-Za-z]):\s*(.*)$/);
+            if (fieldMatch) {
+                this.applyField(fieldMatch[1], fieldMatch[2], voices);
                 continue;
             }
 
-            // Skip inline voice declarations
-            if (line.startsWith('V:')) continue;
-
             // Parse notes and rests in the line
-            const tokens = this.tokenizeLine(line);
-
-            for (const token of tokens) {
-                if (token === '|' || token === '|]' || token === '||' || token === ':|' || token === '|:') {
-                    // Barline - finalize current measure
-                    if (currentMeasure.elements.length > 0) {
-                        currentMeasure.duration = beatPosition - currentMeasure.startTime;
-                        if (token === '|]') currentMeasure.barlineType = 'final';
-                        else if (token === '||') currentMeasure.barlineType = 'double';
-                        else if (token === '|:') currentMeasure.barlineType = 'repeat-start';
-                        else if (token === ':|') currentMeasure.barlineType = 'repeat-end';
-                        measures.push(currentMeasure);
+            const tokens = this.tokenizeLine(line, indent);
+
+            for (const { text: token, column } of tokens) {
+                const voice = this.voice;
+                this.currentColumn = column;
+
+                if (token === '|' || token === '|]' || token === '||' || token === ':|' || token === '|:' || token === '::') {
+                    this.endBar(token, measures);
+                    continue;
+                }
+
+                // First and second endings: [1, [2, [1,3, [1-3
+                const volta = token.match(/^\[(\d[\d,-]*)$/);
+                if (volta) {
+                    voice.ending = this.parseEnding(volta[1]);
+                    continue;
+                }
+
+                // Inline fields [K:D], [M:3/4], [L:1/16], [Q:1/4=90], [V:2]
+                const inlineField = token.match(/^\[([A-Za-z]):\s*(.*?)\]?$/);
+                if (inlineField) {
+                    this.applyField(inlineField[1], inlineField[2], voices);
+                    continue;
+                }
+
+                // Decorations !trill! and their shorthands ~, T, H, ...
+                if (token.startsWith('!') || token in DECORATION_SHORTHANDS) {
+                    this.addDecoration(token.startsWith('!') ? token.slice(1, -1) : DECORATION_SHORTHANDS[token], measures);
+                    continue;
+                }
+
+                // Chord symbols and annotations, which may be D.C., D.S., Fine, segno and coda marks
+                if (token.startsWith('"')) {
+                    this.addQuotedText(token.replace(/^"|"$/g, ''), measures);
+                    continue;
+                }
+
+                if (token === '(') {
+                    voice.pendingSlurStarts++;
+                    voice.openSlurs.push({ line: this.currentLine, column });
+                    continue;
+                }
+
+                if (token === ')') {
+                    if (voice.openSlurs.pop()) this.closeSlur();
+                    else this.warn(`Unmatched ')' in voice ${voice.id}`);
+                    continue;
+                }
+
+                if (token.startsWith('(')) {
+                    voice.tuplet = this.parseTuplet(token, this.meter);
+                    continue;
+                }
+
+                // Broken rhythm: ">" lengthens the previous note and shortens the next
+                if (token[0] === '>' || token[0] === '<') {
+                    const previous = voice.lastElement;
+                    if (previous) {
+                        const shorter = Math.pow(2, -token.length);
+                        const longer = 2 - shorter;
+                        const [first, second] = token[0] === '>' ? [longer, shorter] : [shorter, longer];
+                        voice.beatPosition += previous.duration * (first - 1);
+                        this.scaleElement(previous, first);
+                        voice.pendingBroken = second;
+                    } else {
+                        this.warn(`Broken rhythm '${token}' has no note before it`);
                     }
-                    currentMeasure = this.createMeasure(measures.length + 1, beatPosition);
                     continue;
                 }
 
-                // Skip chord symbols (text in quotes)
-                if (token.startsWith('"')) continue;
+                const measure = this.measureFor(measures);
 
-                // Parse note or rest
-                const element = this.parseElement(token, noteIdCounter++, beatPosition, currentVoice, currentMeasure.number, defaultLength);
+                if (token.startsWith('{')) {
+                    const grace = this.parseGraceNotes(token, voice.beatPosition, voice.id, measure.number, voice.unitLength);
+                    if (grace) voice.pendingGrace = grace;
+                    continue;
+                }
 
-                if (element) {
-                    currentMeasure.elements.push(element);
-                    voices.get(currentVoice)?.push(element);
-                    beatPosition += element.duration;
+                // Parse note, rest or chord
+                let element: Note | Rest | Chord | null;
+                let tieStarts: Note[] = [];
+                if (token.startsWith('[')) {
+                    const parsed = this.parseChord(token, voice.beatPosition, voice.id, measure.number, voice.unitLength);
+                    element = parsed?.chord ?? null;
+                    tieStarts = parsed?.tiedNotes ?? [];
+                } else {
+                    const tied = token.endsWith('-');
+                    element = this.parseElement(tied ? token.slice(0, -1) : token, voice.beatPosition, voice.id, measure.number, voice.unitLength);
+                    if (tied && element && 'midiNote' in element) tieStarts = [element];
                 }
+
+                if (!element) {
+                    this.warn(`Unrecognised ${token.startsWith('[') ? 'chord' : 'note'} '${token}'`);
+                    continue;
+                }
+
+                this.applyRhythmModifiers(element);
+                this.applyDecorations(element);
+                this.connectElement(element, tieStarts);
+                if (!measure.voices.has(voice.id)) measure.voices.set(voice.id, []);
+                measure.voices.get(voice.id)!.push(element);
+                voices.get(voice.id)?.push(element);
+                voice.beatPosition += element.duration;
+            }
+        }
+
+        // Close every voice's last bar, even without a final barline
+        for (const state of this.voiceStates.values()) {
+            const measure = measures[state.measureIndex];
+            if (measure?.voices.has(state.id)) this.closeMeasure(state, measure);
+
+            for (const { line, column } of state.openSlurs) {
+                this.warnings.push({ line, column, message: `Unclosed slur in voice ${state.id}` });
             }
         }
 
-        // Add final measure if it has content
-        if (currentMeasure.elements.length > 0) {
-            currentMeasure.duration = beatPosition - currentMeasure.startTime;
-            measures.push(currentMeasure);
+        // Voices that never received music (such as an unused default voice) are dropped
+        for (const [id, elements] of voices) {
+            if (elements.length === 0 && voices.size > 1) voices.delete(id);
+        }
+
+        // %%MIDI settings outside any voice apply to every voice without its own
+        const { program, channel } = this.midiDefaults;
+        if (program !== undefined || channel !== undefined) {
+            for (const id of voices.keys()) {
+                const def = this.definitionFor(id);
+                if (program !== undefined) def.program ??= program;
+                if (channel !== undefined) def.channel ??= channel;
+            }
+        }
+        if (this.voiceDefinitions.length > 0) headers.V = this.voiceDefinitions;
+
+        if (this.words.length > 0) headers.W = [...(headers.W ?? []), ...this.words];
+
+        // Keep the change map in time order (the sort is stable, so same-beat changes keep source order)
+        this.changes.sort((a, b) => a.position - b.position);
+
+        // Group each measure's elements by voice, in score order
+        for (const measure of measures) {
+            const grouped = new Map<string, (Note | Rest | Chord)[]>();
+            for (const id of voices.keys()) {
+                const elements = measure.voices.get(id);
+                if (elements) grouped.set(id, elements);
+            }
+            measure.voices = grouped;
+            measure.elements = [...grouped.values()].flat();
         }
 
         return { measures, voices };
     }
 
-    private tokenizeLine(line: string): string[] {
-        const tokens: string[] = [];
+    private switchVoice(id: string, voices: Map<string, (Note | Rest | Chord)[]>): void {
+        if (!voices.has(id)) voices.set(id, []);
+
+        let state = this.voiceStates.get(id);
+        if (!state) {
+            state = {
+                id,
+                beatPosition: 0,
+                measureIndex: 0,
+                key: this.keySignature,
+                unitLength: this.unitLength,
+                barAccidentals: new Map(),
+                pendingTies: [],
+                pendingSlurStarts: 0,
+                slurDepth: 0,
+                lastElement: null,
+                tuplet: null,
+                pendingBroken: null,
+                pendingGrace: null,
+                pendingRepeatStart: false,
+                ending: null,
+                openSlurs: [],
+                pendingDecorations: [],
+                dynamic: null,
+                hairpin: null,
+                hairpinEnding: false,
+                lyricNotes: [],
+                lyricBars: [],
+                lyricLine: 0,
+                lyricVerse: 0,
+                octaveShift: this.octaveShiftOf(id)
+            };
+            this.voiceStates.set(id, state);
+        }
+
+        this.voice = state;
+    }
+
+    /**
+     * The voice's definition, added to the tune's V: list when the voice has none
+     */
+    private definitionFor(id: string): VoiceDefinition {
+        let def = this.voiceDefinitions.find(d => d.id === id);
+        if (!def) {
+            def = { id };
+            this.voiceDefinitions.push(def);
+        }
+        return def;
+    }
+
+    /**
+     * Semitones between a voice's written notes and the notes it plays
+     */
+    private octaveShiftOf(id: string): number {
+        const def = this.voiceDefinitions.find(d => d.id === id);
+        return 12 * ((def?.octave ?? 0) + (def?.clefOctave ?? 0));
+    }
+
+    /**
+     * Apply a body field line or inline field, recording key, meter, length and tempo changes
+     */
+    private applyField(field: string, value: string, voices: Map<string, (Note | Rest | Chord)[]>): void {
+        this.checkField(field, value);
+        const voice = this.voice;
+        const position = voice.beatPosition;
+        const measure = voice.measureIndex + 1;
+
+        switch (field) {
+            case 'V': {
+                const id = value.split(/\s+/)[0];
+                this.switchVoice(id, voices);
+                this.voiceScoped = true;
+
+                // Properties on a body V: line add to (or start) the voice's definition
+                const properties = value.slice(id.length).trim();
+                if (properties) {
+                    this.applyVoiceProperties(this.definitionFor(id), properties);
+                    this.voice.octaveShift = this.octaveShiftOf(id);
+                }
+                break;
+            }
+            case 'I':
+                // Instruction fields are directives: [I:swing 0.6] is %%swing 0.6
+                this.addDirective(`%%${value}`);
+                break;
+            case 'K':
+                voice.key = KeySignature.parse(value);
+                this.changes.push({ type: 'key', position, measure, voice: voice.id, value });
+                break;
+            case 'L':
+                voice.unitLength = this.parseFraction(value);
+                this.changes.push({ type: 'length', position, measure, voice: voice.id, value });
+                break;
+            case 'M':
+                this.meter = value;
+                this.changes.push({ type: 'meter', position, measure, value });
+                break;
+            case 'Q':
+                this.changes.push({ type: 'tempo', position, measure, value });
+                break;
+            case 'w':
+                this.alignLyrics(value);
+                break;
+            case 'W':
+                this.words.push(value);
+                break;
+            // Other fields (titles, parts, notes) carry no music
+        }
+    }
+
+    /**
+     * The measure the current voice is filling, created by whichever voice reaches it first
+     */
+    private measureFor(measures: Measure[]): Measure {
+        const voice = this.voice;
+        if (!measures[voice.measureIndex]) {
+            measures.push(this.createMeasure(voice.measureIndex + 1, voice.beatPosition));
+        }
+
+        const measure = measures[voice.measureIndex];
+        if (voice.pendingRepeatStart) {
+            measure.repeatStart = true;
+            voice.pendingRepeatStart = false;
+        }
+        if (voice.ending && !measure.ending) measure.ending = voice.ending;
+        return measure;
+    }
+
+    private endBar(token: string, measures: Measure[]): void {
+        const voice = this.voice;
+        const measure = measures[voice.measureIndex];
+
+        if (measure?.voices.has(voice.id)) {
+            this.closeMeasure(voice, measure);
+            this.checkBarLength(measure, voice, token);
+            if (voice.lyricLine === this.currentLine) voice.lyricBars.push(voice.lyricNotes.length);
+            if (token === '|]') measure.barlineType = 'final';
+            else if (token === '||') measure.barlineType = 'double';
+            else if (token === '|:') measure.barlineType = 'repeat-start';
+            else if (token === ':|') measure.barlineType = 'repeat-end';
+            else if (token === '::') measure.barlineType = 'repeat-both';
+
+            // An ending runs until the next bar line that is more than a single bar
+            if (token !== '|') voice.ending = null;
+
+            // A bar another voice has already begun fixes where this voice resumes
+            voice.measureIndex++;
+            const next = measures[voice.measureIndex];
+            if (next) voice.beatPosition = next.startTime;
+        }
+
+        // A start repeat may come before the voice's first note
+        if (token === '|:' || token === '::') voice.pendingRepeatStart = true;
+
+        // Accidentals only last until the end of the bar
+        voice.barAccidentals.clear();
+    }
+
+    /**
+     * Warn about a bar whose length does not match the meter. Short bars are expected for
+     * pickups, at repeats and endings, and at the end of the tune
+     */
+    private checkBarLength(measure: Measure, voice: VoiceState, barline: string): void {
+        const expected = this.meterLength(this.meter);
+        if (expected === null) return;
+
+        const actual = voice.beatPosition - measure.startTime;
+        if (Math.abs(actual - expected) < 1e-6) return;
+
+        const shortAllowed = voice.measureIndex === 0 || measure.ending !== undefined || ['|]', ':|', '|:', '::'].includes(barline);
+        if (actual < expected && shortAllowed) return;
+
+        // A multi-bar rest (Z4) fills several bars at once
+        const elements = measure.voices.get(voice.id) ?? [];
+        if (elements.length === 1 && !('midiNote' in elements[0] || 'notes' in elements[0])) return;
+
+        this.warn(`Bar ${measure.number} in voice ${voice.id} lasts ${this.formatLength(actual)}, but M:${this.meter} bars last ${this.formatLength(expected)}`);
+    }
+
+    /**
+     * Volta numbers of an ending such as "1", "1,3" or "1-3"
+     */
+    private parseEnding(text: string): number[] {
+        const numbers: number[] = [];
+        for (const part of text.split(',')) {
+            const [from, to] = part.split('-').map(n => parseInt(n, 10));
+            if (isNaN(from)) continue;
+            for (let n = from; n <= (isNaN(to) ? from : to); n++) numbers.push(n);
+        }
+        return numbers;
+    }
+
+    /**
+     * Navigation mark named by a decoration (D.S.alcoda) or an annotation (To Coda)
+     */
+    static navigationMark(text: string): NavigationMark | null {
+        return NAVIGATION_MARKS[text.toLowerCase().replace(/\s+/g, '')] ?? null;
+    }
+
+    private addNavigationMark(mark: NavigationMark, measures: Measure[]): void {
+        const measure = this.measureFor(measures);
+        measure.navigation = [...(measure.navigation ?? []), mark];
+    }
+
+    /**
+     * Handle a decoration by name. Navigation marks belong to the measure, dynamics and
+     * hairpins change the voice's state, and the rest wait for the next note, chord or rest
+     */
+    private addDecoration(name: string, measures: Measure[]): void {
+        const voice = this.voice;
+
+        const mark = ABCPlusParser.navigationMark(name);
+        if (mark) {
+            this.addNavigationMark(mark, measures);
+            return;
+        }
+
+        if (DYNAMICS.has(name)) {
+            voice.dynamic = name as DynamicLevel;
+            voice.pendingDecorations.push({ type: name as DynamicLevel });
+            return;
+        }
+
+        const hairpin = HAIRPINS[name];
+        if (hairpin) {
+            if (hairpin.start) {
+                voice.hairpin = hairpin.type;
+                voice.pendingDecorations.push({ type: hairpin.type });
+            } else if (voice.hairpin) {
+                voice.hairpinEnding = true;
+            } else {
+                this.warn(`Hairpin end !${name}! without a start`);
+            }
+            return;
+        }
+
+        if (/^\d$/.test(name)) {
+            voice.pendingDecorations.push({ type: 'fingering', value: name });
+        } else if (DECORATIONS[name]) {
+            voice.pendingDecorations.push({ type: DECORATIONS[name] });
+        } else if (!LAYOUT_DECORATIONS.has(name)) {
+            this.warn(`Unknown decoration !${name}!`);
+        }
+    }
+
+    /**
+     * Attach waiting decorations to an element and stamp its notes with the voice's
+     * current dynamic level and hairpin
+     */
+    private applyDecorations(element: Note | Rest | Chord): void {
+        const voice = this.voice;
+
+        if (voice.pendingDecorations.length > 0) {
+            element.decorations = [...(element.decorations ?? []), ...voice.pendingDecorations];
+            voice.pendingDecorations = [];
+        }
+
+        const notes = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+        for (const note of notes) {
+            if (voice.dynamic) note.dynamic = voice.dynamic;
+            if (voice.hairpin) note.hairpin = voice.hairpin;
+        }
+
+        if (voice.hairpinEnding) {
+            voice.hairpin = null;
+            voice.hairpinEnding = false;
+        }
+    }
+
+    private closeMeasure(voice: VoiceState, measure: Measure): void {
+        measure.duration = Math.max(measure.duration, voice.beatPosition - measure.startTime);
+    }
+
+    /**
+     * Split a body line into tokens, reporting unknown characters and unclosed brackets.
+     * Columns are 1-based and count the indent trimmed from the line
+     */
+    private tokenizeLine(line: string, indent = 0): Token[] {
+        const tokens: Token[] = [];
+        const emit = (text: string, start: number) => tokens.push({ text, column: indent + start + 1 });
         let i = 0;
 
+        // Index of the closing character; if it is missing, or a character outside `allowed`
+        // comes first, report an error and end the token before that character
+        const closing = (close: string, start: number, what: string, allowed?: RegExp): number => {
+            let j = start + 1;
+            while (j < line.length && line[j] !== close && (!allowed || allowed.test(line[j]))) j++;
+            if (line[j] === close) return j;
+            this.currentColumn = indent + start + 1;
+            this.error(`Unclosed ${what}: missing '${close}'`);
+            return j - 1;
+        };
+
         while (i < line.length) {
             const char = line[i];
+            const start = i;
 
             // Skip whitespace
             if (char === ' ' || char === '\t') {
@@ -388,52 +1201,150 @@ export class ABCPlusParser {
                 if (line[i + 1] === ']') { barline = '|]'; i++; }
                 else if (line[i + 1] === '|') { barline = '||'; i++; }
                 else if (line[i + 1] === ':') { barline = '|:'; i++; }
-                tokens.push(barline);
+                emit(barline, start);
                 i++;
+
+                // Ending straight after the bar: |1, :|2
+                const volta = barline === '|' ? line.slice(i).match(/^\d[\d,-]*/) : null;
+                if (volta) {
+                    emit(`[${volta[0]}`, i);
+                    i += volta[0].length;
+                }
+                continue;
+            }
+
+            // End and start repeat: ::, :|:, :||:
+            const doubleRepeat = char === ':' ? line.slice(i).match(/^:(\|{0,2}):/) : null;
+            if (doubleRepeat) {
+                emit('::', start);
+                i += doubleRepeat[0].length;
                 continue;
             }
 
             if (char === ':' && line[i + 1] === '|') {
-                tokens.push(':|');
+                emit(':|', start);
                 i += 2;
+
+                const volta = line.slice(i).match(/^\d[\d,-]*/);
+                if (volta) {
+                    emit(`[${volta[0]}`, i);
+                    i += volta[0].length;
+                }
+                continue;
+            }
+
+            // Endings [1, [2
+            if (char === '[' && /^\d/.test(line.slice(i + 1))) {
+                const volta = line.slice(i).match(/^\[\d[\d,-]*/)!;
+                emit(volta[0], start);
+                i += volta[0].length;
+                continue;
+            }
+
+            // Inline fields [K:G]
+            if (char === '[' && /^[A-Za-z]:/.test(line.slice(i + 1))) {
+                const j = closing(']', i, 'inline field');
+                emit(line.slice(i, j + 1), start);
+                i = j + 1;
+                continue;
+            }
+
+            // Chords [CEG], but not inline fields such as [K:G]
+            if (char === '[' && /^(?:[\^_]\d*\/\d*|[\^_=])*[A-Ga-g]/.test(line.slice(i + 1)) && !/^[A-Za-z]:/.test(line.slice(i + 1))) {
+                let j = closing(']', i, 'chord', /[\^_=A-Ga-g',\d/-]/);
+                j++;
+                // Include chord-level duration and tie
+                while (j < line.length && (line[j].match(/\d/) || line[j] === '/')) j++;
+                if (line[j] === '-') j++;
+
+                emit(line.slice(i, j), start);
+                i = j;
+                continue;
+            }
+
+            // Tuplets (p:q:r
+            const tupletMatch = char === '(' ? line.slice(i).match(/^\((\d+)(:\d*)?(:\d*)?/) : null;
+            if (tupletMatch) {
+                emit(tupletMatch[0], start);
+                i += tupletMatch[0].length;
+                continue;
+            }
+
+            // Slurs
+            if (char === '(' || char === ')') {
+                emit(char, start);
+                i++;
+                continue;
+            }
+
+            // Broken rhythm
+            if (char === '>' || char === '<') {
+                let j = i;
+                while (line[j] === char) j++;
+                emit(line.slice(i, j), start);
+                i = j;
+                continue;
+            }
+
+            // Grace notes {g} or {/g}
+            if (char === '{') {
+                const j = closing('}', i, 'grace note group', /[\^_=A-Ga-g',\d/\s]/);
+                emit(line.slice(i, j + 1), start);
+                i = j + 1;
                 continue;
             }
 
             // Chord symbols in quotes
             if (char === '"') {
-                let j = i + 1;
-                while (j < line.length && line[j] !== '"') j++;
-                tokens.push(line.slice(i, j + 1));
+                const j = closing('"', i, 'chord symbol or annotation');
+                emit(line.slice(i, j + 1), start);
                 i = j + 1;
                 continue;
             }
 
             // Decorations !xxx!
             if (char === '!') {
-                let j = i + 1;
-                while (j < line.length && line[j] !== '!') j++;
-                // Skip decoration, it's handled in note parsing
+                const j = closing('!', i, 'decoration');
+                emit(line.slice(i, j + 1), start);
                 i = j + 1;
                 continue;
             }
 
             // Notes, rests, and modifiers
-            if (this.isNoteChar(char) || char === 'z' || char === 'Z' || char === '^' || char === '_' || char === '=') {
+            if (this.isNoteChar(char) || /[zZxX^_=]/.test(char)) {
                 let j = i;
-                // Include accidentals
+                // Include accidentals, and the fraction of a microtonal one (^/ or _3/2)
                 while (j < line.length && (line[j] === '^' || line[j] === '_' || line[j] === '=')) j++;
-                // Include note letter
-                if (j < line.length && this.isNoteChar(line[j])) j++;
+                const microtone = j > i ? line.slice(j).match(/^\d*\/\d*(?=[A-Ga-g])/) : null;
+                if (microtone) j += microtone[0].length;
+                // Include note letter or rest
+                if (j < line.length && (this.isNoteChar(line[j]) || /[zZxX]/.test(line[j]))) j++;
                 // Include octave markers
                 while (j < line.length && (line[j] === "'" || line[j] === ',')) j++;
                 // Include duration
                 while (j < line.length && (line[j].match(/\d/) || line[j] === '/')) j++;
+                // Include tie
+                if (line[j] === '-') j++;
 
-                tokens.push(line.slice(i, j));
+                emit(line.slice(i, j), start);
                 i = j;
                 continue;
             }
 
+            // Decoration shorthands
+            if (char in DECORATION_SHORTHANDS) {
+                emit(char, start);
+                i++;
+                continue;
+            }
+
+            // Spacers, line continuations and user-defined decoration symbols carry no sound
+            if (!/[`\\$*H-Wh-w]/.test(char)) {
+                this.currentColumn = indent + start + 1;
+                if (char === ']' || char === '}') this.error(`Unmatched '${char}'`);
+                else this.warn(`Unknown character '${char}'`);
+            }
+
             i++;
         }
 
@@ -446,7 +1357,6 @@ export class ABCPlusParser {
 
     private parseElement(
         token: string,
-        id: number,
         startTime: number,
         voice: string,
         measure: number,
@@ -454,24 +1364,29 @@ export class ABCPlusParser {
     ): Note | Rest | null {
         if (!token) return null;
 
-        // Rest
-        if (token.startsWith('z') || token.startsWith('Z')) {
-            const duration = this.parseDuration(token.slice(1), defaultLength);
-            return {
-                id: `rest_${id}`,
+        // Rest; Z and X count whole bars, x and X are invisible
+        if (/^[zZxX]/.test(token)) {
+            const duration = /^[ZX]/.test(token)
+                ? (parseInt(token.slice(1), 10) || 1) * (this.meterLength(this.meter) ?? 1)
+                : this.parseDuration(token.slice(1), defaultLength);
+            const rest: Rest = {
+                id: `rest_${this.nextId()}`,
                 duration,
                 startTime,
                 voice,
                 measure
-            } as Rest;
+            };
+            if (/^[xX]/.test(token)) rest.invisible = true;
+            return rest;
         }
 
         // Note
+        if (!/^(?:[\^_]\d*\/\d*|[\^_=])*[A-Ga-g]/.test(token)) return null;
         const { pitch, midiNote, lengthModifier } = this.parseNotePitch(token);
         const duration = this.parseDuration(lengthModifier, defaultLength);
 
         return {
-            id: `note_${id}`,
+            id: `note_${this.nextId()}`,
             pitch,
             midiNote,
             duration,
@@ -482,21 +1397,172 @@ export class ABCPlusParser {
         } as Note;
     }
 
+    private parseChord(
+        token: string,
+        startTime: number,
+        voice: string,
+        measure: number,
+        defaultLength: number
+    ): { chord: Chord; tiedNotes: Note[] } | null {
+        const close = token.lastIndexOf(']');
+        const inner = token.slice(1, close);
+        const chordTied = token.endsWith('-');
+        const multiplier = this.parseDuration(token.slice(close + 1).replace(/-$/, ''), 1);
+
+        const chordId = `chord_${this.nextId()}`;
+        const notes: Note[] = [];
+        const tiedNotes: Note[] = [];
+
+        for (const noteToken of inner.match(/(?:[\^_]\d*\/\d*|[\^_=])*[A-Ga-g][',]*[\d/]*-?/g) ?? []) {
+            const noteTied = noteToken.endsWith('-');
+            const note = this.parseElement(noteTied ? noteToken.slice(0, -1) : noteToken, startTime, voice, measure, defaultLength) as Note | null;
+            if (!note) continue;
+            note.duration *= multiplier;
+            notes.push(note);
+            if (noteTied || chordTied) tiedNotes.push(note);
+        }
+
+        if (notes.length === 0) return null;
+
+        // The first note of a chord determines its length (ABC 2.1, section 4.17)
+        const chord: Chord = {
+            id: chordId,
+            notes,
+            duration: notes[0].duration,
+            startTime,
+            voice,
+            measure
+        };
+
+        return { chord, tiedNotes };
+    }
+
+    /**
+     * Parse a tuplet marker: p notes in the time of q, applied to the next r notes
+     */
+    private parseTuplet(token: string, meter: string): { factor: number; remaining: number } {
+        const [pText, qText, rText] = token.slice(1).split(':');
+        const p = parseInt(pText, 10);
+
+        let q = qText ? parseInt(qText, 10) : NaN;
+        if (isNaN(q)) {
+            // Defaults from ABC 2.1, section 4.13
+            const numerator = parseInt(meter.split('/')[0], 10);
+            const compound = numerator % 3 === 0 && numerator > 3;
+            if (p === 3 || p === 6) q = 2;
+            else if (p === 2 || p === 4 || p === 8) q = 3;
+            else q = compound ? 3 : 2;
+        }
+
+        const r = rText ? parseInt(rText, 10) : NaN;
+
+        return { factor: q / p, remaining: isNaN(r) ? p : r };
+    }
+
+    private parseGraceNotes(
+        token: string,
+        startTime: number,
+        voice: string,
+        measure: number,
+        defaultLength: number
+    ): GraceGroup | null {
+        const acciaccatura = token[1] === '/';
+        const inner = token.slice(acciaccatura ? 2 : 1, token.endsWith('}') ? -1 : undefined);
+
+        const notes: Note[] = [];
+        for (const noteToken of inner.match(/(?:[\^_]\d*\/\d*|[\^_=])*[A-Ga-g][',]*[\d/]*/g) ?? []) {
+            const note = this.parseElement(noteToken, startTime, voice, measure, defaultLength);
+            if (note && 'midiNote' in note) notes.push(note);
+        }
+
+        return notes.length > 0 ? { notes, acciaccatura } : null;
+    }
+
+    private applyRhythmModifiers(element: Note | Rest | Chord): void {
+        const voice = this.voice;
+        if (voice.pendingBroken !== null) {
+            this.scaleElement(element, voice.pendingBroken);
+            voice.pendingBroken = null;
+        }
+
+        const tuplet = voice.tuplet;
+        if (tuplet && tuplet.remaining > 0) {
+            this.scaleElement(element, tuplet.factor);
+            tuplet.remaining--;
+        }
+    }
+
+    private scaleElement(element: Note | Rest | Chord, factor: number): void {
+        element.duration *= factor;
+        if ('notes' in element) {
+            for (const note of element.notes) note.duration *= factor;
+        }
+    }
+
+    /**
+     * Resolve ties and slur starts waiting on this voice's next element
+     */
+    private connectElement(element: Note | Rest | Chord, tieStarts: Note[]): void {
+        const voice = this.voice;
+        const notes = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+
+        // A tie joins the next note of the same pitch, even across a barline where the
+        // accidental would otherwise have lapsed
+        const continued = new Set<Note>();
+        for (const tied of voice.pendingTies) {
+            const target = notes.find(n => n.midiNote === tied.midiNote)
+                ?? notes.find(n => this.naturalPitch(n.pitch) === this.naturalPitch(tied.pitch));
+            if (target) {
+                tied.tiedTo = target.id;
+                target.midiNote = tied.midiNote;
+                continued.add(target);
+            }
+        }
+        voice.pendingTies = tieStarts;
+
+        // Lyrics skip rests and notes that only continue a tie
+        const sung = notes.find(n => !continued.has(n));
+        if (sung) this.addLyricNote(sung);
+
+        if (voice.pendingGrace && ('notes' in element || 'midiNote' in element)) {
+            element.grace = voice.pendingGrace;
+            voice.pendingGrace = null;
+        }
+
+        if (voice.pendingSlurStarts > 0 && notes.length > 0) {
+            for (const note of notes) note.slurStart = true;
+            voice.slurDepth += voice.pendingSlurStarts;
+            voice.pendingSlurStarts = 0;
+        }
+
+        voice.lastElement = element;
+    }
+
+    private closeSlur(): void {
+        const voice = this.voice;
+        const last = voice.lastElement;
+        if (voice.slurDepth === 0 || !last) return;
+
+        const notes = 'notes' in last ? last.notes : 'midiNote' in last ? [last] : [];
+        for (const note of notes) note.slurEnd = true;
+        voice.slurDepth--;
+    }
+
+    private naturalPitch(pitch: string): string {
+        return pitch.replace(/^(?:[\^_]\d*\/\d*|[\^_=])+/, '');
+    }
+
     private parseNotePitch(token: string): { pitch: string; midiNote: number; lengthModifier: string } {
         let i = 0;
-        let accidental = 0;
 
-        // Parse accidentals
-        while (i < token.length) {
-            if (token[i] === '^') { accidental++; i++; }
-            else if (token[i] === '_') { accidental--; i++; }
-            else if (token[i] === '=') { accidental = 0; i++; }
-            else break;
-        }
+        // Parse accidentals; a fraction after a sharp or flat makes it microtonal
+        const accidentalText = token.match(/^(?:[\^_]\d*\/\d*|[\^_=]*)/)![0];
+        i = accidentalText.length;
 
         // Parse note letter
         const letter = token[i];
         i++;
+        const letterStart = i - 1;
 
         // Parse octave modifiers
         let octaveShift = 0;
@@ -506,9 +1572,22 @@ export class ABCPlusParser {
             else break;
         }
 
+        // An explicit accidental applies to this pitch (in this octave) until the barline;
+        // otherwise an earlier accidental in the bar, then the key signature, decides
+        const barKey = token.slice(letterStart, i);
+        let accidental: number;
+        if (accidentalText) {
+            accidental = KeySignature.accidentalValue(accidentalText);
+            this.voice.barAccidentals.set(barKey, accidental);
+        } else if (this.voice.barAccidentals.has(barKey)) {
+            accidental = this.voice.barAccidentals.get(barKey)!;
+        } else {
+            accidental = this.voice.key.accidentalFor(letter);
+        }
+
         // Calculate MIDI note
         const baseMidi = this.letterToMidi(letter);
-        const midiNote = baseMidi + accidental + (octaveShift * 12);
+        const midiNote = baseMidi + accidental + (octaveShift * 12) + this.voice.octaveShift;
 
         const pitch = token.slice(0, i);
         const lengthModifier = token.slice(i);
@@ -534,17 +1613,18 @@ export class ABCPlusParser {
             return defaultLength * parseInt(numMatch[1], 10);
         }
 
-        // Handle fraction (/2, /4, etc.)
-        const fracMatch = modifier.match(/^\/(\d*)$/);
+        // Handle fraction (/2, /4, etc.); each bare slash halves ("//" is /4)
+        const fracMatch = modifier.match(/^(\/+)(\d*)$/);
         if (fracMatch) {
-            const divisor = fracMatch[1] ? parseInt(fracMatch[1], 10) : 2;
+            const divisor = fracMatch[2] ? parseInt(fracMatch[2], 10) : Math.pow(2, fracMatch[1].length);
             return defaultLength / divisor;
         }
 
-        // Handle full fraction (3/2, 1/4, etc.)
-        const fullFracMatch = modifier.match(/^(\d+)\/(\d+)$/);
+        // Handle full fraction (3/2, 1/4, etc.); "3/" is short for 3/2
+        const fullFracMatch = modifier.match(/^(\d+)\/(\d*)$/);
         if (fullFracMatch) {
-            return (parseInt(fullFracMatch[1], 10) / parseInt(fullFracMatch[2], 10)) * defaultLength;
+            const divisor = fullFracMatch[2] ? parseInt(fullFracMatch[2], 10) : 2;
+            return (parseInt(fullFracMatch[1], 10) / divisor) * defaultLength;
         }
 
         return defaultLength;
@@ -558,6 +1638,31 @@ export class ABCPlusParser {
         return 1 / 8; // Default
     }
 
+    /**
+     * Length of a bar in beats, or null for free meter (M:none)
+     */
+    private meterLength(meter: string): number | null {
+        if (meter === 'C' || meter === 'C|') return 1;
+
+        const match = meter.match(/^\(?([\d+]+)\)?\/(\d+)$/);
+        if (!match) return null;
+        const numerator = match[1].split('+').reduce((sum, n) => sum + (parseInt(n, 10) || 0), 0);
+        return numerator / parseInt(match[2], 10);
+    }
+
+    /**
+     * A length in beats as a fraction, e.g. 0.375 as "3/8"
+     */
+    private formatLength(length: number): string {
+        for (let denominator = 1; denominator <= 384; denominator++) {
+            const numerator = length * denominator;
+            if (Math.abs(numerator - Math.round(numerator)) < 1e-6) {
+                return denominator === 1 ? String(Math.round(numerator)) : `${Math.round(numerator)}/${denominator}`;
+            }
+        }
+        return length.toFixed(3);
+    }
+
     private getMeterBeats(meter: string): number {
         const match = meter.match(/(\d+)\/(\d+)/);
         if (match) {
@@ -566,12 +1671,194 @@ export class ABCPlusParser {
         return 4; // Default
     }
 
+    private nextId(): number {
+        return this.noteIdCounter++;
+    }
+
     private createMeasure(number: number, startTime: number): Measure {
         return {
             number,
             startTime,
             duration: 0,
-            elements: []
+            elements: [],
+            voices: new Map()
         };
     }
+
+    // ==========================================
+    // Chord Symbols & Annotations
+    // ==========================================
+
+    /**
+     * A quoted string is an annotation when it starts with a placement character, and
+     * otherwise a chord symbol, at the current beat of the voice
+     */
+    private addQuotedText(text: string, measures: Measure[]): void {
+        const voice = this.voice;
+        const position = voice.beatPosition;
+        const measure = voice.measureIndex + 1;
+        const placement = ANNOTATION_PLACEMENTS[text[0]];
+
+        if (placement) {
+            const content = text.slice(1);
+            this.annotations.push({ text: content, placement, position, measure, voice: voice.id });
+            const mark = ABCPlusParser.navigationMark(content);
+            if (mark) this.addNavigationMark(mark, measures);
+            return;
+        }
+
+        const symbol = ChordSymbol.parse(text);
+        if (!symbol) {
+            // Kept as text, as most ABC software prints unrecognised chord symbols unchanged
+            this.warn(`Unrecognised chord symbol '${text}'`);
+            this.annotations.push({ text, placement: 'above', position, measure, voice: voice.id });
+            return;
+        }
+
+        const harmony: Harmony = {
+            text,
+            root: symbol.root,
+            quality: symbol.quality,
+            extensions: symbol.extensions,
+            position,
+            measure,
+            voice: voice.id
+        };
+        if (symbol.bass) harmony.bass = symbol.bass;
+        this.harmony.push(harmony);
+    }
+
+    // ==========================================
+    // Lyrics
+    // ==========================================
+
+    /**
+     * Collect the notes of the current music line, which the w: lines below it align with
+     */
+    private addLyricNote(note: Note): void {
+        const voice = this.voice;
+        if (voice.lyricLine !== this.currentLine) {
+            voice.lyricNotes = [];
+            voice.lyricBars = [];
+            voice.lyricLine = this.currentLine;
+            voice.lyricVerse = 0;
+        }
+        voice.lyricNotes.push(note);
+    }
+
+    /**
+     * Attach a w: line's syllables to the notes of the music line above it. Each further
+     * w: line under the same music is the next verse
+     */
+    private alignLyrics(text: string): void {
+        const voice = this.voice;
+        const notes = voice.lyricNotes;
+        const verse = ++voice.lyricVerse;
+        let index = 0;
+        let previous: Syllable | null = null;
+
+        for (const item of this.lyricItems(text)) {
+            if (item.kind === 'bar') {
+                index = voice.lyricBars.find(start => start >= index) ?? notes.length;
+                continue;
+            }
+            if (index >= notes.length) {
+                if (item.kind === 'syllable') this.warn(`Lyrics '${item.text}' have no note to align with`);
+                break;
+            }
+
+            if (item.kind === 'syllable') {
+                previous = { verse, text: item.text };
+                if (item.hyphen) previous.hyphen = true;
+                (notes[index].lyrics ??= []).push(previous);
+            } else if (item.kind === 'hold' && previous) {
+                previous.extender = true;
+            }
+            index++;
+        }
+    }
+
+    /**
+     * Split a w: line into syllables and alignment marks: "-" between syllables of a word,
+     * "_" holding the last syllable, "*" skipping a note, "|" moving to the next bar,
+     * "~" joining words on one note and "\-" a printed hyphen
+     */
+    private lyricItems(text: string): LyricItem[] {
+        const items: LyricItem[] = [];
+        let current = '';
+        let pending = false;
+
+        const flush = (hyphen: boolean) => {
+            if (pending) items.push({ kind: 'syllable', text: current, hyphen });
+            current = '';
+            pending = false;
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (char === '\\' && text[i + 1] === '-') {
+                current += '-';
+                pending = true;
+                i++;
+            } else if (char === '-') {
+                // A hyphen after a space or another hyphen stands on a note of its own
+                if (pending) flush(true);
+                else items.push({ kind: 'syllable', text: '', hyphen: true });
+            } else if (/\s/.test(char)) {
+                flush(false);
+            } else if (char === '_' || char === '*' || char === '|') {
+                flush(false);
+                items.push({ kind: char === '_' ? 'hold' : char === '*' ? 'skip' : 'bar' });
+            } else {
+                current += char === '~' ? ' ' : char;
+                pending = true;
+            }
+        }
+        flush(false);
+
+        return items;
+    }
+
+    // ==========================================
+    // Diagnostics
+    // ==========================================
+
+    /**
+     * Report an error at the current line and column
+     */
+    private error(message: string): void {
+        this.errors.push({ line: this.currentLine, column: this.currentColumn, message });
+    }
+
+    /**
+     * Report a warning at the current line and column
+     */
+    private warn(message: string): void {
+        this.warnings.push({ line: this.currentLine, column: this.currentColumn, message });
+    }
+
+    /**
+     * Check the value of an X:, M:, L: or K: field, reporting values the player cannot use
+     */
+    private checkField(field: string, value: string): void {
+        switch (field) {
+            case 'X':
+                if (!/^\d+$/.test(value)) this.warn(`X: should be a tune number, not '${value}'`);
+                break;
+            case 'M':
+                if (value !== 'none' && this.meterLength(value) === null) this.error(`Invalid meter M:${value}`);
+                break;
+            case 'L':
+                if (!/^\d+\/\d+$/.test(value)) this.error(`Invalid unit note length L:${value}`);
+                break;
+            case 'K': {
+                const first = value.split(/\s+/)[0] ?? '';
+                const valid = !first || first.includes('=') ||
+                    /^([A-Ga-g][#b]?(m|(maj|min|ion|dor|phr|lyd|mix|aeo|loc)[a-z]*)?|none|HP|Hp|[\^_=]+[A-Ga-g])$/i.test(first);
+                if (!valid) this.error(`Unknown key K:${value}`);
+                break;
+            }
+        }
+    }
 }
@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { MXLReader } from './MXLReader';
+
+interface ZipEntry {
+    name: string;
+    text: string | Uint8Array;
+    method?: 'stored' | 'deflate' | 'stored-blocks';     // Deflate by default; stored-blocks deflates without compressing
+    encrypted?: boolean;
+}
+
+const SCORE = '<?xml version="1.0" encoding="UTF-8"?>\n<score-partwise version="4.0"><part-list/></score-partwise>\n';
+
+function container(path: string): string {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n<container><rootfiles>' +
+        `<rootfile full-path="${path}" media-type="application/vnd.recordare.musicxml+xml"/>` +
+        '</rootfiles></container>';
+}
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (crc & 1 ? 0xedb88320 : 0);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const source = new ReadableStream<BufferSource>({
+        start(controller) {
+            controller.enqueue(new Uint8Array(data));
+            controller.close();
+        }
+    });
+    const stream = source.pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Raw DEFLATE data of stored blocks, at most 65535 bytes each
+function storedBlocks(data: Uint8Array): Uint8Array {
+    const out: number[] = [];
+    for (let start = 0; start === 0 || start < data.length; start += 0xffff) {
+        const block = data.subarray(start, start + 0xffff);
+        const last = start + 0xffff >= data.length;
+        out.push(last ? 1 : 0, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff, ...block);
+    }
+    return new Uint8Array(out);
+}
+
+// Type of the first block of raw DEFLATE data: 0 stored, 1 fixed Huffman codes, 2 dynamic
+function blockType(data: Uint8Array): number {
+    return (data[0] >>> 1) & 3;
+}
+
+// A ZIP archive of the entries, as zip tools write it: local headers, then the central directory
+async function zip(entries: ZipEntry[]): Promise<ArrayBuffer> {
+    const locals: number[] = [];
+    const central: number[] = [];
+    const u16 = (out: number[], value: number) => out.push(value & 0xff, (value >>> 8) & 0xff);
+    const u32 = (out: number[], value: number) => { u16(out, value & 0xffff); u16(out, value >>> 16); };
+
+    for (const entry of entries) {
+        const name = new TextEncoder().encode(entry.name);
+        const data = typeof entry.text === 'string' ? new TextEncoder().encode(entry.text) : entry.text;
+        const method = entry.method ?? 'deflate';
+        const stored = method === 'stored';
+        const packed = stored ? data : method === 'stored-blocks' ? storedBlocks(data) : await deflate(data);
+        const offset = locals.length;
+
+        const header = (out: number[]) => {
+            u16(out, 20);
+            u16(out, entry.encrypted ? 1 : 0);
+            u16(out, stored ? 0 : 8);
+            u32(out, 0);
+            u32(out, crc32(data));
+            u32(out, packed.length);
+            u32(out, data.length);
+            u16(out, name.length);
+            u16(out, 0);
+        };
+
+        u32(locals, 0x04034b50);
+        header(locals);
+        locals.push(...name, ...packed);
+
+        u32(central, 0x02014b50);
+        u16(central, 20);
+        header(central);
+        u16(central, 0);
+        u16(central, 0);
+        u16(central, 0);
+        u32(central, 0);
+        u32(central, offset);
+        central.push(...name);
+    }
+
+    const end: number[] = [];
+    u32(end, 0x06054b50);
+    u16(end, 0);
+    u16(end, 0);
+    u16(end, entries.length);
+    u16(end, entries.length);
+    u32(end, central.length);
+    u32(end, locals.length);
+    u16(end, 0);
+
+    return new Uint8Array([...locals, ...central, ...end]).buffer;
+}
+
+describe('MXLReader', () => {
+    it('reads the score container.xml names', async () => {
+        const archive = await zip([
+            { name: 'mimetype', text: 'application/vnd.recordare.musicxml', method: 'stored' },
+            { name: 'META-INF/container.xml', text: container('score/song.musicxml') },
+            { name: 'score/song.musicxml', text: SCORE }
+        ]);
+        expect(new MXLReader().read(archive)).toBe(SCORE);
+    });
+
+    it('inflates stored, fixed and dynamic Huffman blocks', async () => {
+        const long = SCORE + '<!--' + 'note '.repeat(20000) + Array.from({ length: 5000 }, (_, i) => i.toString(36)).join(' ') + '-->';
+        const encoder = new TextEncoder();
+        expect(blockType(await deflate(encoder.encode(SCORE)))).toBe(1);
+        expect(blockType(await deflate(encoder.encode(long)))).toBe(2);
+
+        for (const [text, method] of [[SCORE, 'deflate'], [long, 'deflate'], [long, 'stored-blocks']] as const) {
+            const archive = await zip([{ name: 'META-INF/container.xml', text: container('a.xml') }, { name: 'a.xml', text, method }]);
+            expect(new MXLReader().read(archive)).toBe(text);
+        }
+    });
+
+    it('takes the only score when there is no container.xml', async () => {
+        expect(new MXLReader().read(await zip([{ name: 'tune.xml', text: SCORE }]))).toBe(SCORE);
+    });
+
+    it('decodes a UTF-16 score with a byte order mark', async () => {
+        const score = SCORE.replace('UTF-8', 'UTF-16');
+        const bytes = new Uint8Array(2 + score.length * 2);
+        bytes.set([0xff, 0xfe]);
+        for (let i = 0; i < score.length; i++) bytes[2 + i * 2] = score.charCodeAt(i);
+        expect(new MXLReader().read(await zip([{ name: 'tune.xml', text: bytes }]))).toBe(score);
+    });
+
+    it('rejects files that are not ZIP archives', () => {
+        expect(() => new MXLReader().read(new TextEncoder().encode(SCORE).buffer)).toThrow('Not a valid .mxl file');
+    });
+
+    it('rejects encrypted archives', async () => {
+        const archive = await zip([{ name: 'tune.xml', text: SCORE, encrypted: true }]);
+        expect(() => new MXLReader().read(archive)).toThrow('encrypted');
+    });
+
+    it('rejects entries that fail their checksum', async () => {
+        const archive = new Uint8Array(await zip([{ name: 'tune.xml', text: SCORE, method: 'stored' }]));
+        archive[30 + 'tune.xml'.length + 10] ^= 0xff;
+        expect(() => new MXLReader().read(archive.buffer)).toThrow('fails its checksum');
+    });
+
+    it('rejects archives whose container.xml names a missing score', async () => {
+        const archive = await zip([{ name: 'META-INF/container.xml', text: container('missing.xml') }, { name: 'tune.xml', text: SCORE }]);
+        expect(() => new MXLReader().read(archive)).toThrow('has no missing.xml');
+    });
+});
@@ -0,0 +1,384 @@
+/**
+ * MXL Reader
+ * Reads compressed MusicXML (.mxl): a ZIP archive whose META-INF/container.xml names the
+ * root score. ZIP and DEFLATE are read here, without external dependencies
+ */
+
+// Base lengths and extra bits of DEFLATE length codes 257-285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+// Base distances and extra bits of DEFLATE distance codes 0-29
+const DISTANCE_BASE = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+    257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+// Order in which a dynamic block sends the code lengths of its code length alphabet
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Media type of a MusicXML root file in container.xml
+const MUSICXML_MEDIA_TYPE = 'application/vnd.recordare.musicxml+xml';
+
+/**
+ * A file in the archive's central directory
+ */
+interface ZipEntry {
+    name: string;
+    method: number;             // 0 stored, 8 deflated
+    encrypted: boolean;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;             // Offset of the local file header
+}
+
+/**
+ * Canonical Huffman code: how many codes have each length, and the symbols in code order
+ */
+interface HuffmanTable {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+}
+
+export class MXLReader {
+    private static crcTable: Uint32Array | null = null;
+    private bytes = new Uint8Array(0);
+    private view = new DataView(this.bytes.buffer);
+
+    async readFile(file: File): Promise<string> {
+        return this.read(await file.arrayBuffer());
+    }
+
+    /**
+     * The root score's MusicXML text. Throws an Error naming the problem when the archive
+     * is corrupt, encrypted or holds no score
+     */
+    read(arrayBuffer: ArrayBuffer): string {
+        this.bytes = new Uint8Array(arrayBuffer);
+        this.view = new DataView(arrayBuffer);
+
+        const entries = this.readCentralDirectory();
+        const rootPath = this.rootPath(entries);
+        const entry = entries.get(rootPath);
+        if (!entry) throw new Error(`The .mxl archive has no ${rootPath}, which its container.xml names as the score`);
+
+        return this.decodeText(this.extract(entry));
+    }
+
+    // ==========================================
+    // ZIP
+    // ==========================================
+
+    /**
+     * The archive's files, from the central directory at its end
+     */
+    private readCentralDirectory(): Map<string, ZipEntry> {
+        const end = this.findEndOfCentralDirectory();
+        const count = this.view.getUint16(end + 10, true);
+        let position = this.view.getUint32(end + 16, true);
+        if (count === 0xffff || position === 0xffffffff) throw new Error('ZIP64 .mxl archives are not supported');
+
+        const entries = new Map<string, ZipEntry>();
+        for (let i = 0; i < count; i++) {
+            if (position + 46 > this.bytes.length || this.view.getUint32(position, true) !== CENTRAL_HEADER) {
+                throw new Error('Corrupt .mxl archive: damaged central directory');
+            }
+
+            const nameLength = this.view.getUint16(position + 28, true);
+            const extraLength = this.view.getUint16(position + 30, true);
+            const commentLength = this.view.getUint16(position + 32, true);
+            const name = new TextDecoder().decode(this.bytes.subarray(position + 46, position + 46 + nameLength));
+
+            entries.set(name, {
+                name,
+                method: this.view.getUint16(position + 10, true),
+                encrypted: (this.view.getUint16(position + 8, true) & 1) !== 0,
+                crc: this.view.getUint32(position + 16, true),
+                compressedSize: this.view.getUint32(position + 20, true),
+                size: this.view.getUint32(position + 24, true),
+                offset: this.view.getUint32(position + 42, true)
+            });
+            position += 46 + nameLength + extraLength + commentLength;
+        }
+        return entries;
+    }
+
+    /**
+     * Offset of the end of central directory record, searching back past an archive
+     * comment of up to 64 KB
+     */
+    private findEndOfCentralDirectory(): number {
+        const last = this.bytes.length - 22;
+        for (let position = last; position >= 0 && position >= last - 0xffff; position--) {
+            if (this.view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) return position;
+        }
+        throw new Error('Not a valid .mxl file: no ZIP directory found');
+    }
+
+    /**
+     * Path of the root score: the first MusicXML rootfile of META-INF/container.xml, or
+     * without a container, the only score outside META-INF
+     */
+    private rootPath(entries: Map<string, ZipEntry>): string {
+        const container = entries.get('META-INF/container.xml');
+        if (!container) {
+            const scores = [...entries.keys()].filter(name => !name.startsWith('META-INF/') && /\.(xml|musicxml)$/i.test(name));
+            if (scores.length === 1) return scores[0];
+            throw new Error('The .mxl archive has no META-INF/container.xml naming its score');
+        }
+
+        const doc = new DOMParser().parseFromString(this.decodeText(this.extract(container)), 'application/xml');
+        if (doc.querySelector('parsererror')) throw new Error('Corrupt .mxl archive: unreadable META-INF/container.xml');
+
+        const rootFiles = Array.from(doc.querySelectorAll('rootfile'));
+        const score = rootFiles.find(file => (file.getAttribute('media-type') ?? MUSICXML_MEDIA_TYPE) === MUSICXML_MEDIA_TYPE);
+        const path = score?.getAttribute('full-path');
+        if (!path) throw new Error('The .mxl container.xml names no MusicXML score');
+        return path;
+    }
+
+    /**
+     * A file's contents, inflated and checked against its CRC
+     */
+    private extract(entry: ZipEntry): Uint8Array {
+        if (entry.encrypted) throw new Error(`The .mxl archive is encrypted (${entry.name}); save it again without a password`);
+
+        const position = entry.offset;
+        if (position + 30 > this.bytes.length || this.view.getUint32(position, true) !== LOCAL_HEADER) {
+            throw new Error(`Corrupt .mxl archive: damaged header for ${entry.name}`);
+        }
+        const start = position + 30 + this.view.getUint16(position + 26, true) + this.view.getUint16(position + 28, true);
+        if (start + entry.compressedSize > this.bytes.length) throw new Error(`Corrupt .mxl archive: ${entry.name} is truncated`);
+        const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+        let contents: Uint8Array;
+        if (entry.method === 0) contents = data;
+        else if (entry.method === 8) contents = new Inflater(data, entry.name).inflate(entry.size);
+        else throw new Error(`The .mxl archive compresses ${entry.name} with unsupported method ${entry.method}`);
+
+        if (contents.length !== entry.size || this.crc32(contents) !== entry.crc) {
+            throw new Error(`Corrupt .mxl archive: ${entry.name} fails its checksum`);
+        }
+        return contents;
+    }
+
+    /**
+     * XML text, as UTF-16 when it starts with a byte order mark and otherwise UTF-8
+     */
+    private decodeText(bytes: Uint8Array): string {
+        if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+        if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+
+    private crc32(bytes: Uint8Array): number {
+        let table = MXLReader.crcTable;
+        if (!table) {
+            table = MXLReader.crcTable = new Uint32Array(256);
+            for (let n = 0; n < 256; n++) {
+                let c = n;
+                for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                table[n] = c >>> 0;
+            }
+        }
+
+        let crc = 0xffffffff;
+        for (const byte of bytes) crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+}
+
+/**
+ * DEFLATE (RFC 1951) decompressor for one archive entry
+ */
+class Inflater {
+    private data: Uint8Array;
+    private name: string;
+    private position = 0;           // Next byte to read
+    private bitBuffer = 0;
+    private bitCount = 0;
+    private output = new Uint8Array(0);
+    private length = 0;
+
+    constructor(data: Uint8Array, name: string) {
+        this.data = data;
+        this.name = name;
+    }
+
+    /**
+     * Inflate the whole stream. The expected size only sizes the output buffer
+     */
+    inflate(expectedSize: number): Uint8Array {
+        this.output = new Uint8Array(Math.max(expectedSize, 1024));
+
+        let last = false;
+        while (!last) {
+            last = this.bits(1) === 1;
+            const type = this.bits(2);
+            if (type === 0) this.storedBlock();
+            else if (type === 1) this.compressedBlock(...Inflater.fixedTables());
+            else if (type === 2) this.compressedBlock(...this.dynamicTables());
+            else this.corrupt('invalid block type');
+        }
+        return this.output.subarray(0, this.length);
+    }
+
+    private storedBlock(): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+        if (this.position + 4 > this.data.length) this.corrupt('truncated stored block');
+
+        const length = this.data[this.position] | (this.data[this.position + 1] << 8);
+        const check = this.data[this.position + 2] | (this.data[this.position + 3] << 8);
+        if (length !== (~check & 0xffff)) this.corrupt('stored block length mismatch');
+        this.position += 4;
+        if (this.position + length > this.data.length) this.corrupt('truncated stored block');
+
+        this.reserve(length);
+        this.output.set(this.data.subarray(this.position, this.position + length), this.length);
+        this.length += length;
+        this.position += length;
+    }
+
+    private compressedBlock(literals: HuffmanTable, distances: HuffmanTable): void {
+        for (;;) {
+            const symbol = this.decode(literals);
+            if (symbol < 256) {
+                this.reserve(1);
+                this.output[this.length++] = symbol;
+            } else if (symbol === 256) {
+                return;
+            } else {
+                const code = symbol - 257;
+                if (code >= LENGTH_BASE.length) this.corrupt('invalid length code');
+                const length = LENGTH_BASE[code] + this.bits(LENGTH_EXTRA[code]);
+
+                const distanceCode = this.decode(distances);
+                if (distanceCode >= DISTANCE_BASE.length) this.corrupt('invalid distance code');
+                const distance = DISTANCE_BASE[distanceCode] + this.bits(DISTANCE_EXTRA[distanceCode]);
+                if (distance > this.length) this.corrupt('distance before start of data');
+
+                // Copied byte by byte, as a match may overlap the bytes it produces
+                this.reserve(length);
+                for (let i = 0; i < length; i++, this.length++) {
+                    this.output[this.length] = this.output[this.length - distance];
+                }
+            }
+        }
+    }
+
+    /**
+     * Literal/length and distance codes sent at the start of a dynamic block
+     */
+    private dynamicTables(): [HuffmanTable, HuffmanTable] {
+        const literalCount = this.bits(5) + 257;
+        const distanceCount = this.bits(5) + 1;
+        const codeLengthCount = this.bits(4) + 4;
+
+        const codeLengths = new Uint8Array(19);
+        for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+        const codeLengthTable = Inflater.buildTable(codeLengths);
+
+        const lengths = new Uint8Array(literalCount + distanceCount);
+        for (let i = 0; i < lengths.length;) {
+            const symbol = this.decode(codeLengthTable);
+            if (symbol < 16) {
+                lengths[i++] = symbol;
+                continue;
+            }
+
+            let value = 0;
+            let repeat: number;
+            if (symbol === 16) {
+                if (i === 0) this.corrupt('repeated code length with no previous length');
+                value = lengths[i - 1];
+                repeat = 3 + this.bits(2);
+            } else if (symbol === 17) {
+                repeat = 3 + this.bits(3);
+            } else {
+                repeat = 11 + this.bits(7);
+            }
+            if (i + repeat > lengths.length) this.corrupt('too many code lengths');
+            lengths.fill(value, i, i + repeat);
+            i += repeat;
+        }
+
+        if (lengths[256] === 0) this.corrupt('no end-of-block code');
+        return [Inflater.buildTable(lengths.subarray(0, literalCount)), Inflater.buildTable(lengths.subarray(literalCount))];
+    }
+
+    /**
+     * The fixed codes of block type 1
+     */
+    private static fixedTables(): [HuffmanTable, HuffmanTable] {
+        const literals = new Uint8Array(288);
+        literals.fill(8, 0, 144);
+        literals.fill(9, 144, 256);
+        literals.fill(7, 256, 280);
+        literals.fill(8, 280, 288);
+        return [Inflater.buildTable(literals), Inflater.buildTable(new Uint8Array(30).fill(5))];
+    }
+
+    private static buildTable(lengths: Uint8Array): HuffmanTable {
+        const counts = new Uint16Array(16);
+        for (const length of lengths) counts[length]++;
+        counts[0] = 0;
+
+        const offsets = new Uint16Array(16);
+        for (let length = 1; length < 15; length++) offsets[length + 1] = offsets[length] + counts[length];
+
+        const symbols = new Uint16Array(lengths.length);
+        lengths.forEach((length, symbol) => {
+            if (length > 0) symbols[offsets[length]++] = symbol;
+        });
+        return { counts, symbols };
+    }
+
+    /**
+     * Read one symbol, a bit at a time: codes of each length are consecutive, starting
+     * where the shorter ones end
+     */
+    private decode(table: HuffmanTable): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let length = 1; length < 16; length++) {
+            code |= this.bits(1);
+            const count = table.counts[length];
+            if (code - first < count) return table.symbols[index + code - first];
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+        return this.corrupt('invalid Huffman code');
+    }
+
+    private bits(count: number): number {
+        while (this.bitCount < count) {
+            if (this.position >= this.data.length) this.corrupt('unexpected end of data');
+            this.bitBuffer |= this.data[this.position++] << this.bitCount;
+            this.bitCount += 8;
+        }
+        const value = this.bitBuffer & ((1 << count) - 1);
+        this.bitBuffer >>>= count;
+        this.bitCount -= count;
+        return value;
+    }
+
+    private reserve(count: number): void {
+        if (this.length + count <= this.output.length) return;
+        const grown = new Uint8Array(Math.max(this.output.length * 2, this.length + count));
+        grown.set(this.output);
+        this.output = grown;
+    }
+
+    private corrupt(reason: string): never {
+        throw new Error(`Corrupt .mxl archive: ${this.name} cannot be decompressed (${reason})`);
+    }
+}
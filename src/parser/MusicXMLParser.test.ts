@@ -0,0 +1,220 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { MusicXMLParser } from './MusicXMLParser';
+import type { ParseResult, Note, Rest, Chord } from '../types';
+
+const DUET = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <work><work-title>Duet</work-title></work>
+  <part-list>
+    <score-part id="P1"><part-name>Flute</part-name><part-abbreviation>Fl.</part-abbreviation></score-part>
+    <score-part id="P2"><part-name>Piano</part-name></score-part>
+  </part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>2</divisions><key><fifths>1</fifths></key><time><beats>3</beats><beat-type>4</beat-type></time><clef><sign>G</sign><line>2</line></clef></attributes>
+      <note><pitch><step>G</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type></note>
+      <note><grace slash="yes"/><pitch><step>B</step><octave>5</octave></pitch><voice>1</voice><type>eighth</type></note>
+      <note><pitch><step>A</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice></note>
+      <note><pitch><step>F</step><alter>1</alter><octave>5</octave></pitch><duration>2</duration><voice>1</voice></note>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>G</step><octave>5</octave></pitch><duration>6</duration><voice>1</voice></note>
+    </measure>
+  </part>
+  <part id="P2">
+    <measure number="1">
+      <attributes><divisions>4</divisions><staves>2</staves><clef number="1"><sign>G</sign><line>2</line></clef><clef number="2"><sign>F</sign><line>4</line></clef></attributes>
+      <note><pitch><step>B</step><octave>4</octave></pitch><duration>4</duration><voice>1</voice><staff>1</staff></note>
+      <note><chord/><pitch><step>D</step><octave>5</octave></pitch><duration>4</duration><voice>1</voice><staff>1</staff></note>
+      <note><chord/><pitch><step>G</step><octave>5</octave></pitch><duration>4</duration><voice>1</voice><staff>1</staff></note>
+      <forward><duration>4</duration></forward>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>4</duration><voice>1</voice><staff>1</staff></note>
+      <backup><duration>12</duration></backup>
+      <note><pitch><step>G</step><octave>2</octave></pitch><duration>12</duration><voice>5</voice><staff>2</staff></note>
+    </measure>
+    <measure number="2">
+      <note><rest measure="yes"/><duration>12</duration><voice>1</voice><staff>1</staff></note>
+      <backup><duration>12</duration></backup>
+      <note><pitch><step>G</step><octave>2</octave></pitch><duration>6</duration><voice>5</voice><staff>2</staff></note>
+      <note><pitch><step>D</step><octave>3</octave></pitch><duration>6</duration><voice>5</voice><staff>2</staff></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+const TIMEWISE = `<?xml version="1.0"?>
+<score-timewise version="4.0">
+  <movement-title>Timewise</movement-title>
+  <part-list><score-part id="S"><part-name>Soprano</part-name></score-part><score-part id="A"><part-name>Alto</part-name></score-part></part-list>
+  <measure number="1">
+    <part id="S"><attributes><divisions>1</divisions></attributes><note><pitch><step>E</step><octave>5</octave></pitch><duration>4</duration></note></part>
+    <part id="A"><attributes><divisions>1</divisions></attributes><note><pitch><step>C</step><octave>5</octave></pitch><duration>2</duration></note><note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>2</duration></note></part>
+  </measure>
+  <measure number="2">
+    <part id="S"><note><pitch><step>D</step><octave>5</octave></pitch><duration>4</duration></note></part>
+    <part id="A"><note><pitch><step>B</step><octave>4</octave></pitch><duration>4</duration></note></part>
+  </measure>
+</score-timewise>`;
+
+const MARKED = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <part-list><score-part id="P1"><part-name>Flute</part-name></score-part><score-part id="P2"><part-name>Cello</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>2</divisions><key><fifths>1</fifths></key><time symbol="common"><beats>4</beats><beat-type>4</beat-type></time><clef><sign>G</sign><line>2</line></clef></attributes>
+      <direction placement="above"><direction-type><rehearsal>A</rehearsal></direction-type></direction>
+      <direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit><beat-unit-dot/><per-minute>80</per-minute></metronome></direction-type><sound tempo="120"/></direction>
+      <direction placement="below"><direction-type><dynamics><mf/></dynamics></direction-type></direction>
+      <direction placement="below"><direction-type><wedge type="crescendo"/></direction-type></direction>
+      <harmony><root><root-step>G</root-step></root><kind>major</kind></harmony>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type><tie type="start"/><notations><tied type="start"/><slur type="start"/><articulations><staccato/><accent/></articulations></notations><lyric number="1"><syllabic>begin</syllabic><text>Hel</text></lyric></note>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type><tie type="stop"/><notations><tied type="stop"/></notations><lyric number="1"><syllabic>end</syllabic><text>lo</text><extend/></lyric></note>
+      <direction><direction-type><wedge type="stop"/></direction-type></direction>
+      <note><pitch><step>A</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type><notations><ornaments><trill-mark/></ornaments><fermata/></notations></note>
+      <harmony><root><root-step>B</root-step><root-alter>-1</root-alter></root><kind>dominant</kind><bass><bass-step>F</bass-step></bass></harmony>
+      <note><pitch><step>B</step><octave>4</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type><notations><slur type="stop"/><technical><fingering>3</fingering></technical></notations></note>
+      <note><chord/><pitch><step>D</step><octave>5</octave></pitch><duration>2</duration><voice>1</voice><type>quarter</type><notations><articulations><strong-accent/></articulations></notations></note>
+      <barline location="right"><bar-style>light-heavy</bar-style><repeat direction="backward"/></barline>
+    </measure>
+    <measure number="2">
+      <barline location="left"><bar-style>heavy-light</bar-style><repeat direction="forward"/><ending number="1, 2" type="start"/></barline>
+      <attributes><key><fifths>-2</fifths></key><time><beats>3</beats><beat-type>4</beat-type></time></attributes>
+      <direction><direction-type><words>To Coda</words></direction-type><sound tempo="90" dalsegno="segno"/></direction>
+      <note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>6</duration><voice>1</voice><type>half</type><dot/><notations><dynamics><sfz/></dynamics></notations></note>
+      <barline location="right"><ending number="1, 2" type="stop"/><repeat direction="backward"/></barline>
+    </measure>
+    <measure number="3">
+      <direction><direction-type><segno/></direction-type></direction>
+      <note><rest/><duration>6</duration><voice>1</voice></note>
+      <barline location="right"><bar-style>light-heavy</bar-style></barline>
+    </measure>
+  </part>
+  <part id="P2">
+    <measure number="1">
+      <attributes><divisions>1</divisions><key><fifths>1</fifths></key><time symbol="common"><beats>4</beats><beat-type>4</beat-type></time><clef><sign>F</sign><line>4</line></clef></attributes>
+      <note><pitch><step>G</step><octave>2</octave></pitch><duration>4</duration><voice>1</voice><type>whole</type></note>
+    </measure>
+    <measure number="2">
+      <attributes><key><fifths>0</fifths></key><time><beats>3</beats><beat-type>4</beat-type></time></attributes>
+      <note><pitch><step>C</step><octave>3</octave></pitch><duration>3</duration><voice>1</voice><type>half</type><dot/></note>
+    </measure>
+    <measure number="3">
+      <note><rest/><duration>3</duration><voice>1</voice></note>
+    </measure>
+  </part>
+</score-partwise>`;
+
+function parse(xml: string): ParseResult {
+    return new MusicXMLParser().parse(xml);
+}
+
+// Each voice's notes, chords and rests as pitches (z for a rest), onset and length
+function timelines(result: ParseResult): [string, [number | number[] | 'z', number, number][]][] {
+    return [...result.mom.voices].map(([id, elements]) => [id, elements.map(element => [
+        'notes' in element ? element.notes.map(note => note.midiNote) : 'midiNote' in element ? element.midiNote : 'z',
+        element.startTime,
+        element.duration
+    ])]);
+}
+
+describe('MusicXMLParser', () => {
+    it('reads the title, key, meter and a voice for each part, or each voice of a part with its staff', () => {
+        const { headers } = parse(DUET).mom;
+        expect([headers.T, headers.K, headers.M]).toEqual(['Duet', 'G', '3/4']);
+        expect(headers.V).toEqual([
+            { id: 'P1', name: 'Flute', shortName: 'Fl.', clef: 'treble', part: 'P1', staff: 1, partVoice: '1' },
+            { id: 'P2-1', name: 'Piano', clef: 'treble', part: 'P2', staff: 1, partVoice: '1' },
+            { id: 'P2-5', name: 'Piano', clef: 'bass', part: 'P2', staff: 2, partVoice: '5' }
+        ]);
+    });
+
+    it('follows chords, forward and backup through each voice', () => {
+        expect(timelines(parse(DUET))).toEqual([
+            ['P1', [[79, 0, 0.25], [81, 0.25, 0.25], [78, 0.5, 0.25], [79, 0.75, 0.75]]],
+            ['P2-1', [[[71, 74, 79], 0, 0.25], [72, 0.5, 0.25], ['z', 0.75, 0.75]]],
+            ['P2-5', [[43, 0, 0.75], [43, 0.75, 0.375], [50, 1.125, 0.375]]]
+        ]);
+    });
+
+    it('puts grace notes before the note they lead to', () => {
+        const [, second] = parse(DUET).mom.voices.get('P1')!;
+        expect('midiNote' in second && second.grace).toEqual(expect.objectContaining({ acciaccatura: true }));
+        expect('midiNote' in second && second.grace?.notes.map(note => note.midiNote)).toEqual([83]);
+    });
+
+    it('aligns the measures of every part', () => {
+        const measures = parse(DUET).mom.measures.map(({ number, startTime, duration, voices }) => [number, startTime, duration, [...voices.keys()]]);
+        expect(measures).toEqual([[1, 0, 0.75, ['P1', 'P2-1', 'P2-5']], [2, 0.75, 0.75, ['P1', 'P2-1', 'P2-5']]]);
+    });
+
+    it('reads timewise scores like partwise ones', () => {
+        const result = parse(TIMEWISE);
+        expect(result.mom.headers.T).toBe('Timewise');
+        expect(timelines(result)).toEqual([
+            ['S', [[76, 0, 1], [74, 1, 1]]],
+            ['A', [[72, 0, 0.5], [70, 0.5, 0.5], [71, 1, 1]]]
+        ]);
+    });
+
+    it('reports files that are not MusicXML', () => {
+        expect(parse('<score/>').errors.map(error => error.message)).toEqual(['Invalid MusicXML']);
+        expect(parse('<score-partwise').errors[0].message).toMatch(/^XML parse error/);
+    });
+
+    describe('notations, directions and barlines', () => {
+        const flute = () => parse(MARKED).mom.voices.get('P1')!;
+        const notesOf = (element: Note | Rest | Chord) => 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+
+        it('reads ties, slurs and lyrics', () => {
+            const notes = flute().flatMap(notesOf);
+            expect(notes[0].tiedTo).toBe(notes[1].id);
+            expect(notes.map(note => [note.slurStart ?? false, note.slurEnd ?? false])).toEqual([
+                [true, false], [false, false], [false, false], [false, true], [false, true], [false, false]
+            ]);
+            expect(notes.slice(0, 2).map(note => note.lyrics)).toEqual([
+                [{ verse: 1, text: 'Hel', hyphen: true }], [{ verse: 1, text: 'lo', extender: true }]
+            ]);
+        });
+
+        it('reads articulations, ornaments, fingerings, dynamics and wedges as decorations', () => {
+            expect(flute().map(element => element.decorations?.map(({ type, value }) => value ? `${type} ${value}` : type))).toEqual([
+                ['mf', 'crescendo', 'staccato', 'accent'], undefined, ['trill', 'fermata'], ['fingering 3', 'marcato'], ['sfz'], undefined
+            ]);
+            expect(flute().flatMap(notesOf).map(note => [note.dynamic, note.hairpin])).toEqual([
+                ['mf', 'crescendo'], ['mf', 'crescendo'], ['mf', undefined], ['mf', undefined], ['mf', undefined], ['mf', undefined]
+            ]);
+        });
+
+        it('reads chord symbols into the harmony and words into annotations', () => {
+            const result = parse(MARKED);
+            expect(result.harmony.map(({ text, position }) => [text, position])).toEqual([['G', 0], ['Bb7/F', 0.75]]);
+            expect(result.annotations.map(({ text, position }) => [text, position])).toEqual([['To Coda', 1]]);
+        });
+
+        it('reads repeats, endings and navigation marks onto the measures, preferring printed marks to <sound>', () => {
+            const measures = parse(MARKED).mom.measures.map(({ repeatStart, barlineType, ending, navigation }) => ({ repeatStart, barlineType, ending, navigation }));
+            expect(measures).toEqual([
+                { barlineType: 'repeat-both' },
+                { repeatStart: true, barlineType: 'repeat-end', ending: [1, 2], navigation: ['dacoda'] },
+                { barlineType: 'final', navigation: ['segno'] }
+            ]);
+        });
+
+        it('maps tempo, meter and key changes, with the keys of each part', () => {
+            expect(parse(MARKED).changes.map(({ type, position, voice, value }) => [type, position, voice, value])).toEqual([
+                ['tempo', 0, undefined, '3/8=80'], ['meter', 0, undefined, 'C'], ['key', 0, undefined, 'G'],
+                ['meter', 1, undefined, '3/4'], ['tempo', 1, undefined, '1/4=90'],
+                ['key', 1, 'P1', 'Bb'], ['key', 1, 'P2', 'C']
+            ]);
+        });
+    });
+
+    it('reads the instrument and MIDI program and channel of each part', () => {
+        const xml = DUET.replace('<part-abbreviation>Fl.</part-abbreviation>',
+            '<score-instrument id="P1-I1"><instrument-name>Alto Flute</instrument-name></score-instrument>' +
+            '<midi-instrument id="P1-I1"><midi-channel>2</midi-channel><midi-program>74</midi-program></midi-instrument>');
+        expect(parse(xml).mom.headers.V![0]).toEqual({
+            id: 'P1', name: 'Flute', clef: 'treble', instrument: 'Alto Flute', program: 73, channel: 2, part: 'P1', staff: 1, partVoice: '1'
+        });
+    });
+});
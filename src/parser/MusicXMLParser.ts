@@ -5,21 +5,169 @@
 
 import type {
     ParseResult,
-    MusicalObjectModel,
     ABCHeaders,
     DirectivesMap,
     Note,
     Rest,
-    Measure
+    Chord,
+    Measure,
+    ScoreChange,
+    VoiceDefinition,
+    Clef,
+    ParseWarning,
+    Decoration,
+    DecorationType,
+    DynamicLevel,
+    Syllable,
+    Harmony,
+    Annotation,
+    NavigationMark
 } from '../types';
+import { ABCPlusParser } from './ABCPlusParser';
+import { MXLReader } from './MXLReader';
+import { ChordSymbol } from '../theory/ChordSymbol';
+
+// Note values of <type> elements, in whole notes
+const TYPE_DURATIONS: Record<string, number> = {
+    'maxima': 8,
+    'long': 4,
+    'breve': 2,
+    'whole': 1,
+    'half': 1 / 2,
+    'quarter': 1 / 4,
+    'eighth': 1 / 8,
+    '16th': 1 / 16,
+    '32nd': 1 / 32,
+    '64th': 1 / 64,
+    '128th': 1 / 128
+};
+
+// MOM decorations for the marks inside <notations>, <articulations>, <ornaments> and <technical>
+const NOTATION_DECORATIONS: Record<string, DecorationType> = {
+    'accent': 'accent',
+    'strong-accent': 'marcato',
+    'staccato': 'staccato',
+    'staccatissimo': 'wedge',
+    'spiccato': 'wedge',
+    'tenuto': 'tenuto',
+    'breath-mark': 'breath',
+    'snap-pizzicato': 'snap',
+    'trill-mark': 'trill',
+    'mordent': 'mordent',
+    'inverted-mordent': 'uppermordent',
+    'turn': 'turn',
+    'inverted-turn': 'invertedturn',
+    'up-bow': 'upbow',
+    'down-bow': 'downbow',
+    'open-string': 'open',
+    'thumb-position': 'thumb',
+    'fermata': 'fermata',
+    'arpeggiate': 'arpeggio'
+};
+
+const DYNAMIC_LEVELS = new Set(['pppp', 'ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff', 'ffff']);
+
+// Accents written among the <dynamics>, all played as sforzando
+const SFORZANDI = new Set(['sf', 'sfz', 'sffz', 'sfp', 'sfpp', 'sfzp', 'fz', 'rf', 'rfz']);
+
+// Navigation marks of <sound> attributes
+const SOUND_NAVIGATION: Record<string, NavigationMark> = {
+    'segno': 'segno',
+    'coda': 'coda',
+    'dacapo': 'D.C.',
+    'dalsegno': 'D.S.',
+    'fine': 'fine',
+    'tocoda': 'dacoda'
+};
+
+// Chord symbol suffix for each <harmony> <kind>
+const KIND_SUFFIXES: Record<string, string> = {
+    'major': '',
+    'minor': 'm',
+    'augmented': 'aug',
+    'diminished': 'dim',
+    'dominant': '7',
+    'major-seventh': 'maj7',
+    'minor-seventh': 'm7',
+    'diminished-seventh': 'dim7',
+    'augmented-seventh': 'aug7',
+    'half-diminished': 'm7b5',
+    'major-minor': 'mmaj7',
+    'major-sixth': '6',
+    'minor-sixth': 'm6',
+    'dominant-ninth': '9',
+    'major-ninth': 'maj9',
+    'minor-ninth': 'm9',
+    'dominant-11th': '11',
+    'major-11th': 'maj11',
+    'minor-11th': 'm11',
+    'dominant-13th': '13',
+    'major-13th': 'maj13',
+    'minor-13th': 'm13',
+    'suspended-second': 'sus2',
+    'suspended-fourth': 'sus4',
+    'power': '5'
+};
+
+/**
+ * A <score-part> of the part list
+ */
+interface PartInfo {
+    id: string;
+    name?: string;
+    abbreviation?: string;
+    instrument?: string;        // <instrument-name>, when it differs from the part name
+    program?: number;           // General MIDI program, 0-127
+    channel?: number;
+}
+
+/**
+ * Marks waiting for a voice's next notes: the dynamic level in force, an open hairpin,
+ * and decorations for the next note, chord or rest
+ */
+interface VoiceMarks {
+    dynamic: DynamicLevel | null;
+    hairpin: 'crescendo' | 'diminuendo' | null;
+    hairpinEnding: boolean;                 // The next element is the last under the hairpin
+    decorations: Decoration[];
+}
+
+/**
+ * Reading state kept for each part, as its measures are read bar by bar alongside the others
+ */
+interface PartState {
+    part: PartInfo;
+    measures: Element[];                    // The part's <measure> (partwise) or <part> (timewise) elements
+    divisions: number;                      // Divisions of a quarter note
+    voiceIds: Map<string, string>;          // MOM voice ID by MusicXML voice number
+    last: Map<string, Note | Chord>;        // Each voice's last note or chord, which <chord/> adds to
+    pendingGrace: Map<string, { notes: Note[]; acciaccatura: boolean }>;
+    marks: Map<string, VoiceMarks>;         // Dynamics, hairpins and decorations of each voice
+    ties: Map<string, Note[]>;              // Each voice's notes tied to its next note of the same pitch
+    ending: number[] | null;                // Volta the part is in, until its ending stops
+    verses: Map<string, number>;            // Verse of each <lyric number>
+}
 
 export class MusicXMLParser {
-    private divisions = 1;
-    private currentTempo = 120;
+    private noteIdCounter = 0;
+    private warnings: ParseWarning[] = [];
+    private changes: ScoreChange[] = [];
+    private keyChanges: ScoreChange[] = [];     // Per voice, until merged by mergeKeyChanges
+    private harmony: Harmony[] = [];
+    private annotations: Annotation[] = [];
+    private directives: DirectivesMap = this.emptyDirectives();
 
+    /**
+     * Parse a .musicxml/.xml file, or the root score of a compressed .mxl archive
+     */
     async parseFile(file: File): Promise<ParseResult> {
-        const text = await file.text();
-        return this.parse(text);
+        if (!file.name.toLowerCase().endsWith('.mxl')) return this.parse(await file.text());
+
+        try {
+            return this.parse(await new MXLReader().readFile(file));
+        } catch (error) {
+            return this.errorResult(error instanceof Error ? error.message : String(error));
+        }
     }
 
     parse(xmlContent: string): ParseResult {
@@ -34,17 +182,38 @@ export class MusicXMLParser {
         if (!scorePartwise && !scoreTimewise) return this.errorResult('Invalid MusicXML');
 
         const root = scorePartwise || scoreTimewise!;
+        this.noteIdCounter = 0;
+        this.warnings = [];
+        this.changes = [];
+        this.keyChanges = [];
+        this.harmony = [];
+        this.annotations = [];
+        this.directives = this.emptyDirectives();
 
         try {
             const headers = this.parseHeaders(root);
-            const measures = this.parseMeasures(root);
+            const parts = this.parsePartList(root);
+            const partMeasures = scorePartwise ? this.partwiseMeasures(root) : this.timewiseMeasures(root);
+            const { measures, voices, definitions } = this.parseParts(parts, partMeasures);
+            if (definitions.length > 0) headers.V = definitions;
             const totalDuration = measures.reduce((sum, m) => sum + m.duration, 0);
 
+            // An opening tempo is the Q: header
+            const opening = this.changes.find(change => change.type === 'tempo' && change.position === 0);
+            if (opening) headers.Q = opening.value;
+
+            // Opening tempo and meter are already in the headers
+            const changes = [...this.changes.filter(change => change.position > 0), ...this.mergeKeyChanges(headers, voices.size)]
+                .sort((a, b) => a.position - b.position);
+
             return {
-                mom: { headers, measures, totalDuration, voices: new Map() },
-                directives: this.emptyDirectives(),
+                mom: { headers, measures, totalDuration, voices },
+                directives: this.directives,
+                changes: [...this.headerChanges(headers), ...changes],
+                harmony: this.harmony,
+                annotations: this.annotations,
                 errors: [],
-                warnings: []
+                warnings: this.warnings
             };
         } catch (error) {
             return this.errorResult(`Parse error: ${error}`);
@@ -62,11 +231,7 @@ export class MusicXMLParser {
         if (creator?.textContent) headers.C = creator.textContent;
 
         const time = root.querySelector('time');
-        if (time) {
-            const beats = time.querySelector('beats')?.textContent || '4';
-            const beatType = time.querySelector('beat-type')?.textContent || '4';
-            headers.M = `${beats}/${beatType}`;
-        }
+        if (time) headers.M = this.meterOf(time);
 
         const key = root.querySelector('key');
         if (key) {
@@ -75,74 +240,834 @@ export class MusicXMLParser {
             headers.K = this.fifthsToKey(fifths, mode);
         }
 
-        const tempo = root.querySelector('sound[tempo]');
-        if (tempo) {
-            this.currentTempo = parseFloat(tempo.getAttribute('tempo') || '120');
-            headers.Q = `1/4=${this.currentTempo}`;
-        }
+        return headers;
+    }
 
-        const divisions = root.querySelector('divisions');
-        if (divisions?.textContent) this.divisions = parseInt(divisions.textContent, 10);
+    // ==========================================
+    // Parts & Measures
+    // ==========================================
 
-        return headers;
+    private parsePartList(root: Element): PartInfo[] {
+        const partList = this.child(root, 'part-list');
+        if (!partList) return [];
+
+        return this.children(partList, 'score-part').map(scorePart => {
+            const part: PartInfo = {
+                id: scorePart.getAttribute('id') ?? '',
+                name: this.childText(scorePart, 'part-name') || undefined,
+                abbreviation: this.childText(scorePart, 'part-abbreviation') || undefined
+            };
+
+            // The part's first instrument; <midi-program> counts from 1
+            const instrument = this.child(scorePart, 'score-instrument');
+            const instrumentName = instrument ? this.childText(instrument, 'instrument-name') : undefined;
+            if (instrumentName && instrumentName !== part.name) part.instrument = instrumentName;
+
+            const midi = this.child(scorePart, 'midi-instrument');
+            const program = parseInt((midi && this.childText(midi, 'midi-program')) ?? '', 10);
+            const channel = parseInt((midi && this.childText(midi, 'midi-channel')) ?? '', 10);
+            if (program >= 1 && program <= 128) part.program = program - 1;
+            if (channel >= 1 && channel <= 16) part.channel = channel;
+            return part;
+        });
+    }
+
+    /**
+     * Each part's measures in a partwise score: <part id="P1"><measure>...
+     */
+    private partwiseMeasures(root: Element): Map<string, Element[]> {
+        const measures = new Map<string, Element[]>();
+        for (const part of this.children(root, 'part')) {
+            measures.set(part.getAttribute('id') ?? '', this.children(part, 'measure'));
+        }
+        return measures;
     }
 
-    private parseMeasures(root: Element): Measure[] {
+    /**
+     * Each part's measures in a timewise score: <measure><part id="P1">..., where the
+     * <part> element holds the part's music for that measure
+     */
+    private timewiseMeasures(root: Element): Map<string, Element[]> {
+        const measures = new Map<string, Element[]>();
+        for (const measure of this.children(root, 'measure')) {
+            for (const part of this.children(measure, 'part')) {
+                const id = part.getAttribute('id') ?? '';
+                if (!measures.has(id)) measures.set(id, []);
+                measures.get(id)!.push(part);
+            }
+        }
+        return measures;
+    }
+
+    /**
+     * Read every part bar by bar, so that bar n of each part shares one measure. A bar
+     * lasts as long as its longest part
+     */
+    private parseParts(parts: PartInfo[], partMeasures: Map<string, Element[]>): {
+        measures: Measure[];
+        voices: Map<string, (Note | Rest | Chord)[]>;
+        definitions: VoiceDefinition[];
+    } {
         const measures: Measure[] = [];
-        const measureElements = root.querySelectorAll('measure');
+        const voices = new Map<string, (Note | Rest | Chord)[]>();
+        const definitions: VoiceDefinition[] = [];
+
+        // Parts missing from the part list are still read, after the listed ones
+        const known = new Set(parts.map(part => part.id));
+        for (const id of partMeasures.keys()) {
+            if (!known.has(id)) parts.push({ id });
+        }
+
+        const states: PartState[] = [];
+        for (const part of parts) {
+            const elements = partMeasures.get(part.id);
+            if (!elements) {
+                this.warn(`Part ${part.id} is listed but has no music`);
+                continue;
+            }
+            const state = this.createPartState(part, elements, definitions);
+            for (const id of state.voiceIds.values()) voices.set(id, []);
+            states.push(state);
+        }
+
+        const measureCount = Math.max(0, ...states.map(state => state.measures.length));
+        for (const state of states) {
+            if (state.measures.length < measureCount) {
+                this.warn(`Part ${state.part.id} has ${state.measures.length} measures, not ${measureCount}`);
+            }
+        }
+
         let currentTime = 0;
-        let noteIdCounter = 0;
-
-        measureElements.forEach((measureEl, index) => {
-            const measure: Measure = { number: index + 1, startTime: currentTime, duration: 0, elements: [] };
-            let measureDuration = 0;
-
-            const noteElements = measureEl.querySelectorAll('note');
-            noteElements.forEach((noteEl) => {
-                const isRest = noteEl.querySelector('rest') !== null;
-                const isChord = noteEl.querySelector('chord') !== null;
-                const durationEl = noteEl.querySelector('duration');
-                const duration = durationEl ? parseInt(durationEl.textContent || '0', 10) / this.divisions : 0.25;
-
-                if (isRest) {
-                    measure.elements.push({
-                        id: `rest_${noteIdCounter++}`,
-                        duration,
-                        startTime: currentTime + measureDuration,
-                        measure: measure.number,
-                        voice: '1'
-                    } as Rest);
-                } else {
-                    const pitch = noteEl.querySelector('pitch');
-                    if (pitch) {
-                        const step = pitch.querySelector('step')?.textContent || 'C';
-                        const octave = parseInt(pitch.querySelector('octave')?.textContent || '4', 10);
-                        const alter = parseInt(pitch.querySelector('alter')?.textContent || '0', 10);
-                        const midiNote = this.pitchToMidi(step, octave, alter);
-                        const dynamics = noteEl.querySelector('dynamics');
-                        const velocity = dynamics ? this.dynamicsToVelocity(dynamics) : 0.8;
-
-                        measure.elements.push({
-                            id: `note_${noteIdCounter++}`,
-                            pitch: `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''}${octave}`,
-                            midiNote,
-                            duration,
-                            startTime: isChord ? currentTime + measureDuration - duration : currentTime + measureDuration,
-                            velocity,
-                            measure: measure.number,
-                            voice: '1'
-                        } as Note);
+        for (let index = 0; index < measureCount; index++) {
+            const measure: Measure = { number: index + 1, startTime: currentTime, duration: 0, elements: [], voices: new Map() };
+
+            for (const state of states) {
+                const element = state.measures[index];
+                if (element) measure.duration = Math.max(measure.duration, this.readMeasure(state, element, measure, measures, voices));
+            }
+
+            // Group the measure's elements by voice, in score order
+            const grouped = new Map<string, (Note | Rest | Chord)[]>();
+            for (const id of voices.keys()) {
+                const elements = measure.voices.get(id);
+                if (elements) grouped.set(id, elements);
+            }
+            measure.voices = grouped;
+            measure.elements = [...grouped.values()].flat();
+
+            currentTime += measure.duration;
+            measures.push(measure);
+        }
+
+        return { measures, voices, definitions };
+    }
+
+    /**
+     * Set up a part for reading: one MOM voice for each <voice> number it uses, named after
+     * the part, with the clef of the staff it starts on and a note of its part and staff
+     */
+    private createPartState(part: PartInfo, measures: Element[], definitions: VoiceDefinition[]): PartState {
+        const staves = new Map<string, string>();      // Staff of each voice's first note
+        for (const measure of measures) {
+            for (const note of this.children(measure, 'note')) {
+                const voice = this.childText(note, 'voice') || '1';
+                if (!staves.has(voice)) staves.set(voice, this.childText(note, 'staff') || '1');
+            }
+        }
+        if (staves.size === 0) staves.set('1', '1');
+
+        const clefs = new Map<string, Element>();      // Opening clef of each staff
+        for (const attributes of measures[0] ? this.children(measures[0], 'attributes') : []) {
+            for (const clef of this.children(attributes, 'clef')) {
+                const staff = clef.getAttribute('number') ?? '1';
+                if (!clefs.has(staff)) clefs.set(staff, clef);
+            }
+        }
+
+        const voiceIds = new Map<string, string>();
+        for (const [voice, staff] of staves) {
+            const id = staves.size === 1 ? part.id : `${part.id}-${voice}`;
+            voiceIds.set(voice, id);
+
+            // Where the voice came from, so that an export can rebuild the part
+            const def: VoiceDefinition = { id, part: part.id, staff: parseInt(staff, 10) || 1, partVoice: voice };
+            if (part.name) def.name = part.name;
+            if (part.abbreviation) def.shortName = part.abbreviation;
+            if (part.instrument) def.instrument = part.instrument;
+            if (part.program !== undefined) def.program = part.program;
+            if (part.channel !== undefined) def.channel = part.channel;
+            const clef = clefs.get(staff);
+            if (clef) Object.assign(def, this.parseClef(clef));
+            definitions.push(def);
+        }
+
+        const marks = new Map<string, VoiceMarks>();
+        for (const id of voiceIds.values()) {
+            marks.set(id, { dynamic: null, hairpin: null, hairpinEnding: false, decorations: [] });
+        }
+
+        return {
+            part,
+            measures,
+            divisions: 1,
+            voiceIds,
+            last: new Map(),
+            pendingGrace: new Map(),
+            marks,
+            ties: new Map(),
+            ending: null,
+            verses: new Map()
+        };
+    }
+
+    /**
+     * Clef and octave of a <clef>: sign G, F, C (on line 3 or 4) or percussion
+     */
+    private parseClef(clef: Element): { clef?: Clef; clefOctave?: number } {
+        const sign = this.childText(clef, 'sign')?.toUpperCase();
+        const line = this.childText(clef, 'line');
+        const octave = parseInt(this.childText(clef, 'clef-octave-change') || '0', 10);
+
+        let name: Clef | undefined;
+        if (sign === 'G') name = 'treble';
+        else if (sign === 'F') name = 'bass';
+        else if (sign === 'C') name = line === '4' ? 'tenor' : 'alto';
+        else if (sign === 'PERCUSSION') name = 'percussion';
+        else if (sign === 'NONE') name = 'none';
+        if (!name) return {};
+
+        return octave !== 0 ? { clef: name, clefOctave: Math.sign(octave) } : { clef: name };
+    }
+
+    /**
+     * Read one part's music in a measure: notes at a time cursor that <backup> moves back
+     * (for the next voice or staff) and <forward> moves on, with the directions, chord
+     * symbols and barlines between them. Returns how far the part reaches
+     */
+    private readMeasure(
+        state: PartState,
+        element: Element,
+        measure: Measure,
+        previous: Measure[],
+        voices: Map<string, (Note | Rest | Chord)[]>
+    ): number {
+        let cursor = 0;
+        let extent = 0;
+        if (state.ending) measure.ending ??= state.ending;
+
+        for (const child of Array.from(element.children)) {
+            switch (child.tagName) {
+                case 'attributes':
+                    this.readAttributes(state, child, measure, measure.startTime + cursor);
+                    break;
+                case 'backup':
+                    cursor = Math.max(0, cursor - this.durationOf(child, state));
+                    break;
+                case 'forward':
+                    cursor += this.durationOf(child, state);
+                    break;
+                case 'note':
+                    cursor += this.readNote(state, child, measure, cursor, voices);
+                    break;
+                case 'direction':
+                    this.readDirection(state, child, measure, measure.startTime + cursor + this.offsetOf(child, state));
+                    break;
+                case 'harmony':
+                    this.readHarmony(state, child, measure, measure.startTime + cursor + this.offsetOf(child, state));
+                    break;
+                case 'sound':
+                    this.readSound(child, measure, measure.startTime + cursor);
+                    break;
+                case 'barline':
+                    this.readBarline(state, child, measure, previous[previous.length - 1]);
+                    break;
+            }
+            extent = Math.max(extent, cursor);
+        }
+
+        return extent;
+    }
+
+    /**
+     * Divisions, and key and time changes, from an <attributes> element
+     */
+    private readAttributes(state: PartState, attributes: Element, measure: Measure, position: number): void {
+        const divisions = this.childText(attributes, 'divisions');
+        if (divisions) state.divisions = parseInt(divisions, 10) || state.divisions;
+
+        const key = this.child(attributes, 'key');
+        if (key && this.child(key, 'fifths')) {
+            const value = this.fifthsToKey(parseInt(this.childText(key, 'fifths')!, 10) || 0, this.childText(key, 'mode') || 'major');
+            for (const voice of state.voiceIds.values()) {
+                this.keyChanges.push({ type: 'key', position, measure: measure.number, voice, value });
+            }
+        }
+
+        const time = this.child(attributes, 'time');
+        if (time) this.addChange({ type: 'meter', position, measure: measure.number, value: this.meterOf(time) });
+    }
+
+    /**
+     * Meter of a <time>: "3/4", or C and C| for the common and cut time symbols
+     */
+    private meterOf(time: Element): string {
+        const symbol = time.getAttribute('symbol');
+        if (symbol === 'common') return 'C';
+        if (symbol === 'cut') return 'C|';
+        return `${this.childText(time, 'beats') || '4'}/${this.childText(time, 'beat-type') || '4'}`;
+    }
+
+    /**
+     * Key changes every voice makes at the same time become one change for the whole
+     * score; the rest stay with their voice. Opening keys that match K: are dropped
+     */
+    private mergeKeyChanges(headers: ABCHeaders, voiceCount: number): ScoreChange[] {
+        const groups = new Map<string, ScoreChange[]>();
+        for (const change of this.keyChanges) {
+            const id = `${change.position}|${change.value}`;
+            if (!groups.has(id)) groups.set(id, []);
+            groups.get(id)!.push(change);
+        }
+
+        const changes: ScoreChange[] = [];
+        for (const group of groups.values()) {
+            const { position, measure, value } = group[0];
+            if (position === 0 && value === headers.K) continue;
+            if (new Set(group.map(change => change.voice)).size === voiceCount) {
+                changes.push({ type: 'key', position, measure, value });
+            } else {
+                changes.push(...group);
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Add a tempo or meter change, once, however many parts repeat it
+     */
+    private addChange(change: ScoreChange): void {
+        const exists = this.changes.some(other =>
+            other.type === change.type && other.position === change.position && other.voice === change.voice
+        );
+        if (!exists) this.changes.push(change);
+    }
+
+    /**
+     * Add a <note> to its voice, returning how far it moves the cursor. Chord notes join
+     * the note before them; grace notes wait for the next note of their voice
+     */
+    private readNote(
+        state: PartState,
+        noteEl: Element,
+        measure: Measure,
+        cursor: number,
+        voices: Map<string, (Note | Rest | Chord)[]>
+    ): number {
+        const voiceId = state.voiceIds.get(this.childText(noteEl, 'voice') || '1') ?? [...state.voiceIds.values()][0];
+        const isChord = this.child(noteEl, 'chord') !== null;
+        const isGrace = this.child(noteEl, 'grace') !== null;
+        const duration = isGrace ? 0 : this.durationOf(noteEl, state);
+        const advance = isChord ? 0 : duration;
+
+        // Cue notes take up time but are not played
+        if (this.child(noteEl, 'cue')) return advance;
+
+        const last = state.last.get(voiceId);
+        const startTime = isChord && last ? last.startTime : measure.startTime + cursor;
+        const marks = state.marks.get(voiceId)!;
+
+        if (this.child(noteEl, 'rest')) {
+            if (isGrace) return 0;
+            const rest = {
+                id: `rest_${this.noteIdCounter++}`,
+                duration,
+                startTime,
+                measure: measure.number,
+                voice: voiceId
+            } as Rest;
+            this.readNotations(noteEl, rest, marks);
+            this.applyMarks(rest, marks);
+            this.addElement(rest, measure, voices);
+            return advance;
+        }
+
+        const note = this.createNote(noteEl, voiceId, measure.number, startTime, duration);
+        if (!note) return advance;
+        const tieStart = this.readNotations(noteEl, note, marks);
+        const lyrics = this.readLyrics(noteEl, state);
+        if (lyrics.length > 0) note.lyrics = lyrics;
+
+        if (isGrace) {
+            const type = this.childText(noteEl, 'type');
+            note.duration = TYPE_DURATIONS[type ?? ''] ?? 1 / 8;
+            let grace = state.pendingGrace.get(voiceId);
+            if (!grace) {
+                grace = { notes: [], acciaccatura: this.child(noteEl, 'grace')!.getAttribute('slash') === 'yes' };
+                state.pendingGrace.set(voiceId, grace);
+            }
+            grace.notes.push(note);
+            return 0;
+        }
+
+        this.tie(state, note, tieStart);
+
+        if (isChord && last) {
+            this.addToChord(last, note, measure, voices, state);
+            return 0;
+        }
+
+        const grace = state.pendingGrace.get(voiceId);
+        if (grace) {
+            note.grace = grace;
+            state.pendingGrace.delete(voiceId);
+        }
+        this.applyMarks(note, marks);
+        this.addElement(note, measure, voices);
+        state.last.set(voiceId, note);
+        return advance;
+    }
+
+    private createNote(noteEl: Element, voice: string, measure: number, startTime: number, duration: number): Note | null {
+        // Unpitched (percussion) notes are placed by their display pitch
+        const pitch = this.child(noteEl, 'pitch');
+        const unpitched = this.child(noteEl, 'unpitched');
+        if (!pitch && !unpitched) return null;
+
+        const step = (pitch ? this.childText(pitch, 'step') : this.childText(unpitched!, 'display-step')) || 'C';
+        const octave = parseInt((pitch ? this.childText(pitch, 'octave') : this.childText(unpitched!, 'display-octave')) || '4', 10);
+        const alter = pitch ? parseFloat(this.childText(pitch, 'alter') || '0') : 0;
+
+        return {
+            id: `note_${this.noteIdCounter++}`,
+            pitch: `${step}${alter > 0 ? '#' : alter < 0 ? 'b' : ''}${octave}`,
+            midiNote: this.pitchToMidi(step, octave, alter),
+            duration,
+            startTime,
+            velocity: 0.8,
+            measure,
+            voice
+        };
+    }
+
+    /**
+     * Read a note's <notations>: slurs onto the note, articulations, ornaments and other
+     * marks into its decorations, and dynamics into the voice's marks. Returns whether a
+     * tie starts at the note
+     */
+    private readNotations(noteEl: Element, element: Note | Rest, marks: VoiceMarks): boolean {
+        let tieStart = this.children(noteEl, 'tie').some(tie => tie.getAttribute('type') === 'start');
+        const decorations: Decoration[] = [];
+        const addMark = (mark: Element) => {
+            if (mark.tagName === 'fingering') {
+                decorations.push({ type: 'fingering', value: mark.textContent?.trim() ?? '' });
+            } else if (NOTATION_DECORATIONS[mark.tagName]) {
+                decorations.push({ type: NOTATION_DECORATIONS[mark.tagName] });
+            }
+        };
+
+        for (const notations of this.children(noteEl, 'notations')) {
+            for (const item of Array.from(notations.children)) {
+                const type = item.getAttribute('type');
+                switch (item.tagName) {
+                    case 'tied':
+                        if (type === 'start') tieStart = true;
+                        break;
+                    case 'slur':
+                        if ('midiNote' in element && type === 'start') element.slurStart = true;
+                        if ('midiNote' in element && type === 'stop') element.slurEnd = true;
+                        break;
+                    case 'articulations':
+                    case 'ornaments':
+                    case 'technical':
+                        Array.from(item.children).forEach(addMark);
+                        break;
+                    case 'dynamics':
+                        this.addDynamics(item, marks);
+                        break;
+                    default:
+                        addMark(item);
+                }
+            }
+        }
+
+        if (decorations.length > 0) element.decorations = [...(element.decorations ?? []), ...decorations];
+        return tieStart;
+    }
+
+    /**
+     * Tie the voice's waiting note of the same pitch to this one, and leave this one
+     * waiting if its own tie starts
+     */
+    private tie(state: PartState, note: Note, tieStart: boolean): void {
+        const waiting = state.ties.get(note.voice) ?? [];
+        const index = waiting.findIndex(other => other.midiNote === note.midiNote);
+        if (index >= 0) {
+            waiting[index].tiedTo = note.id;
+            waiting.splice(index, 1);
+        }
+        if (tieStart) waiting.push(note);
+        state.ties.set(note.voice, waiting);
+    }
+
+    /**
+     * A note's <lyric> syllables. Numbered lyrics keep their number as the verse; named
+     * ones are numbered in order of appearance
+     */
+    private readLyrics(noteEl: Element, state: PartState): Syllable[] {
+        const syllables: Syllable[] = [];
+        for (const lyric of this.children(noteEl, 'lyric')) {
+            const text = this.childText(lyric, 'text');
+            if (text === undefined) continue;
+
+            const number = lyric.getAttribute('number') ?? lyric.getAttribute('name') ?? '1';
+            if (!state.verses.has(number)) {
+                state.verses.set(number, /^\d+$/.test(number) ? parseInt(number, 10) : state.verses.size + 1);
+            }
+
+            const syllable: Syllable = { verse: state.verses.get(number)!, text };
+            const syllabic = this.childText(lyric, 'syllabic');
+            if (syllabic === 'begin' || syllabic === 'middle') syllable.hyphen = true;
+            if (this.child(lyric, 'extend')) syllable.extender = true;
+            syllables.push(syllable);
+        }
+        return syllables;
+    }
+
+    /**
+     * Attach the voice's waiting decorations to an element and stamp its notes with the
+     * current dynamic level and hairpin, as the ABC parser does
+     */
+    private applyMarks(element: Note | Rest | Chord, marks: VoiceMarks): void {
+        if (marks.decorations.length > 0) {
+            element.decorations = [...marks.decorations, ...(element.decorations ?? [])];
+            marks.decorations = [];
+        }
+
+        const notes = 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+        for (const note of notes) {
+            if (marks.dynamic) note.dynamic = marks.dynamic;
+            if (marks.hairpin) note.hairpin = marks.hairpin;
+        }
+
+        if (marks.hairpinEnding) {
+            marks.hairpin = null;
+            marks.hairpinEnding = false;
+        }
+    }
+
+    /**
+     * Add a note to the voice's last note or chord, making a chord of a single note. The
+     * chord takes the decorations, lyrics and slurs of all its notes
+     */
+    private addToChord(
+        last: Note | Chord,
+        note: Note,
+        measure: Measure,
+        voices: Map<string, (Note | Rest | Chord)[]>,
+        state: PartState
+    ): void {
+        let chord: Chord;
+        if ('notes' in last) {
+            chord = last;
+            chord.notes.push(note);
+        } else {
+            chord = {
+                id: `chord_${this.noteIdCounter++}`,
+                notes: [last, note],
+                duration: last.duration,
+                startTime: last.startTime,
+                voice: last.voice,
+                measure: last.measure
+            };
+            if (last.grace) {
+                chord.grace = last.grace;
+                delete last.grace;
+            }
+            if (last.decorations) {
+                chord.decorations = last.decorations;
+                delete last.decorations;
+            }
+
+            for (const list of [voices.get(last.voice), measure.voices.get(last.voice)]) {
+                const index = list ? list.lastIndexOf(last) : -1;
+                if (index >= 0) list![index] = chord;
+            }
+            state.last.set(last.voice, chord);
+        }
+
+        if (note.decorations) {
+            const types = new Set((chord.decorations ?? []).map(decoration => `${decoration.type}${decoration.value ?? ''}`));
+            const added = note.decorations.filter(decoration => !types.has(`${decoration.type}${decoration.value ?? ''}`));
+            if (added.length > 0) chord.decorations = [...(chord.decorations ?? []), ...added];
+            delete note.decorations;
+        }
+
+        const first = chord.notes[0];
+        if (note.lyrics && !first.lyrics) first.lyrics = note.lyrics;
+        delete note.lyrics;
+        if (first.dynamic) note.dynamic = first.dynamic;
+        if (first.hairpin) note.hairpin = first.hairpin;
+
+        // Slurs belong to the whole chord
+        const slurStart = chord.notes.some(n => n.slurStart);
+        const slurEnd = chord.notes.some(n => n.slurEnd);
+        for (const n of chord.notes) {
+            if (slurStart) n.slurStart = true;
+            if (slurEnd) n.slurEnd = true;
+        }
+    }
+
+    private addElement(element: Note | Rest | Chord, measure: Measure, voices: Map<string, (Note | Rest | Chord)[]>): void {
+        if (!measure.voices.has(element.voice)) measure.voices.set(element.voice, []);
+        measure.voices.get(element.voice)!.push(element);
+        voices.get(element.voice)?.push(element);
+    }
+
+    /**
+     * An element's <duration> in whole notes
+     */
+    private durationOf(element: Element, state: PartState): number {
+        return parseInt(this.childText(element, 'duration') || '0', 10) / (state.divisions * 4);
+    }
+
+    // ==========================================
+    // Directions, Chord Symbols & Barlines
+    // ==========================================
+
+    /**
+     * Read a <direction>: dynamics and wedges for its voice (or every voice of the part),
+     * words as annotations, rehearsal marks as markers, navigation marks and tempos
+     */
+    private readDirection(state: PartState, direction: Element, measure: Measure, position: number): void {
+        const voice = this.childText(direction, 'voice');
+        const voiceIds = voice && state.voiceIds.has(voice) ? [state.voiceIds.get(voice)!] : [...state.voiceIds.values()];
+        const placement = direction.getAttribute('placement') === 'below' ? 'below' : 'above';
+        let marked = false;         // A printed mark names the jump more exactly than <sound>
+
+        for (const type of this.children(direction, 'direction-type')) {
+            for (const mark of Array.from(type.children)) {
+                switch (mark.tagName) {
+                    case 'dynamics':
+                        for (const id of voiceIds) this.addDynamics(mark, state.marks.get(id)!);
+                        break;
+                    case 'wedge':
+                        for (const id of voiceIds) this.addWedge(mark, state.marks.get(id)!);
+                        break;
+                    case 'words': {
+                        const text = mark.textContent?.trim();
+                        if (!text) break;
+                        this.annotations.push({ text, placement, position, measure: measure.number, voice: voiceIds[0] });
+                        const navigation = ABCPlusParser.navigationMark(text);
+                        if (navigation) this.addNavigationMark(measure, navigation);
+                        marked ||= navigation !== null;
+                        break;
+                    }
+                    case 'rehearsal': {
+                        const text = mark.textContent?.trim();
+                        if (text) {
+                            this.directives.marker.push({ type: 'marker', name: 'marker', position, measure: measure.number, attributes: { value: text } });
+                        }
+                        break;
+                    }
+                    case 'segno':
+                    case 'coda':
+                        this.addNavigationMark(measure, mark.tagName);
+                        marked = true;
+                        break;
+                    case 'metronome': {
+                        const tempo = this.metronomeTempo(mark);
+                        if (tempo) this.addChange({ type: 'tempo', position, measure: measure.number, value: tempo });
+                        break;
                     }
                 }
-                if (!isChord) measureDuration += duration;
-            });
+            }
+        }
 
-            measure.duration = measureDuration;
-            currentTime += measureDuration;
-            measures.push(measure);
-        });
+        const sound = this.child(direction, 'sound');
+        if (sound) this.readSound(sound, measure, position, !marked);
+    }
 
-        return measures;
+    /**
+     * Dynamic levels set the voice's level and mark its next note; sforzandi only mark it
+     */
+    private addDynamics(dynamics: Element, marks: VoiceMarks): void {
+        for (const { tagName } of Array.from(dynamics.children)) {
+            if (DYNAMIC_LEVELS.has(tagName)) {
+                marks.dynamic = tagName as DynamicLevel;
+                marks.decorations.push({ type: tagName as DynamicLevel });
+            } else if (SFORZANDI.has(tagName)) {
+                marks.decorations.push({ type: 'sfz' });
+            }
+        }
+    }
+
+    /**
+     * A crescendo or diminuendo wedge opens a hairpin from the voice's next note. A stop
+     * closes it where it stands, or after the next note if no note is under it yet
+     */
+    private addWedge(wedge: Element, marks: VoiceMarks): void {
+        const type = wedge.getAttribute('type');
+        if (type === 'crescendo' || type === 'diminuendo') {
+            marks.hairpin = type;
+            marks.hairpinEnding = false;
+            marks.decorations.push({ type });
+        } else if (type === 'stop' && marks.hairpin) {
+            if (marks.decorations.some(decoration => decoration.type === marks.hairpin)) marks.hairpinEnding = true;
+            else marks.hairpin = null;
+        }
+    }
+
+    /**
+     * Tempo of a <metronome>, as a Q: value such as "1/4=100" or "3/8=60"
+     */
+    private metronomeTempo(metronome: Element): string | null {
+        const unit = TYPE_DURATIONS[this.childText(metronome, 'beat-unit') ?? ''];
+        const perMinute = parseFloat((this.childText(metronome, 'per-minute') ?? '').replace(/^[^\d]*/, ''));
+        if (!unit || isNaN(perMinute)) return null;
+
+        const dots = this.children(metronome, 'beat-unit-dot').length;
+        const length = unit * (2 - Math.pow(2, -dots));
+        let denominator = 1;
+        while (!Number.isInteger(length * denominator)) denominator *= 2;
+        return `${length * denominator}/${denominator}=${perMinute}`;
+    }
+
+    /**
+     * A <sound>'s tempo (in quarter notes a minute) and, unless the direction already
+     * printed them, its navigation attributes
+     */
+    private readSound(sound: Element, measure: Measure, position: number, navigation = true): void {
+        const tempo = parseFloat(sound.getAttribute('tempo') ?? '');
+        if (!isNaN(tempo) && tempo > 0) {
+            this.addChange({ type: 'tempo', position, measure: measure.number, value: `1/4=${tempo}` });
+        }
+
+        if (!navigation) return;
+        for (const [attribute, mark] of Object.entries(SOUND_NAVIGATION)) {
+            if (sound.hasAttribute(attribute)) this.addNavigationMark(measure, mark);
+        }
+    }
+
+    private addNavigationMark(measure: Measure, mark: NavigationMark): void {
+        if (!measure.navigation?.includes(mark)) measure.navigation = [...(measure.navigation ?? []), mark];
+    }
+
+    /**
+     * A <harmony> chord symbol, from its root, kind and bass. Symbols ChordSymbol cannot
+     * read are kept as annotations
+     */
+    private readHarmony(state: PartState, harmonyEl: Element, measure: Measure, position: number): void {
+        const root = this.child(harmonyEl, 'root');
+        const kind = this.child(harmonyEl, 'kind');
+        const kindValue = kind?.textContent?.trim() || 'major';
+        if (!root || kindValue === 'none') return;
+
+        const bass = this.child(harmonyEl, 'bass');
+        const suffix = KIND_SUFFIXES[kindValue] ?? kind?.getAttribute('text') ?? '';
+        const text = this.stepName(root, 'root') + suffix + (bass ? `/${this.stepName(bass, 'bass')}` : '');
+        const voice = [...state.voiceIds.values()][0];
+
+        const symbol = ChordSymbol.parse(text);
+        if (!symbol) {
+            this.warn(`Unrecognised chord symbol '${text}' in measure ${measure.number}`);
+            this.annotations.push({ text, placement: 'above', position, measure: measure.number, voice });
+            return;
+        }
+
+        const harmony: Harmony = {
+            text,
+            root: symbol.root,
+            quality: symbol.quality,
+            extensions: symbol.extensions,
+            position,
+            measure: measure.number,
+            voice
+        };
+        if (symbol.bass) harmony.bass = symbol.bass;
+        this.harmony.push(harmony);
+    }
+
+    /**
+     * Letter and accidental of a <root> or <bass>, e.g. "Bb"
+     */
+    private stepName(element: Element, prefix: string): string {
+        const step = this.childText(element, `${prefix}-step`) || 'C';
+        const alter = parseFloat(this.childText(element, `${prefix}-alter`) || '0');
+        return step + (alter > 0 ? '#' : alter < 0 ? 'b' : '');
+    }
+
+    /**
+     * Repeats, endings and bar styles of a <barline>. A forward repeat on the left of a
+     * measure also changes the barline closing the measure before
+     */
+    private readBarline(state: PartState, barline: Element, measure: Measure, previous: Measure | undefined): void {
+        const left = barline.getAttribute('location') === 'left';
+        const repeat = this.child(barline, 'repeat')?.getAttribute('direction');
+        const ending = this.child(barline, 'ending');
+        const style = this.childText(barline, 'bar-style');
+
+        if (repeat === 'forward') {
+            measure.repeatStart = true;
+            if (previous) {
+                const closesRepeat = previous.barlineType === 'repeat-end' || previous.barlineType === 'repeat-both';
+                previous.barlineType = closesRepeat ? 'repeat-both' : 'repeat-start';
+            }
+        } else if (repeat === 'backward') {
+            measure.barlineType = 'repeat-end';
+        } else if (!left && !measure.barlineType?.startsWith('repeat')) {
+            if (style === 'light-heavy') measure.barlineType = 'final';
+            else if (style === 'light-light') measure.barlineType = 'double';
+        }
+
+        if (ending) {
+            const type = ending.getAttribute('type');
+            if (type === 'start') {
+                state.ending = this.parseEnding(ending.getAttribute('number') ?? '');
+                measure.ending ??= state.ending;
+            } else if (type === 'stop' || type === 'discontinue') {
+                state.ending = null;
+            }
+        }
+    }
+
+    /**
+     * Volta numbers of an <ending number>, such as "1", "1, 2" or "1-3"
+     */
+    private parseEnding(text: string): number[] {
+        const numbers: number[] = [];
+        for (const part of text.split(',')) {
+            const [from, to] = part.split('-').map(n => parseInt(n, 10));
+            if (isNaN(from)) continue;
+            for (let n = from; n <= (isNaN(to) ? from : to); n++) numbers.push(n);
+        }
+        return numbers;
+    }
+
+    /**
+     * A direction's <offset> from the cursor, in whole notes
+     */
+    private offsetOf(element: Element, state: PartState): number {
+        return parseInt(this.childText(element, 'offset') || '0', 10) / (state.divisions * 4);
+    }
+
+    // ==========================================
+    // Utilities
+    // ==========================================
+
+    private children(element: Element, name: string): Element[] {
+        return Array.from(element.children).filter(child => child.tagName === name);
+    }
+
+    private child(element: Element, name: string): Element | null {
+        return Array.from(element.children).find(child => child.tagName === name) ?? null;
+    }
+
+    private childText(element: Element, name: string): string | undefined {
+        return this.child(element, name)?.textContent?.trim();
+    }
+
+    private warn(message: string): void {
+        this.warnings.push({ line: 0, column: 0, message });
     }
 
     private pitchToMidi(step: string, octave: number, alter: number): number {
@@ -162,25 +1087,27 @@ export class MusicXMLParser {
         return fifths >= 0 ? majorKeys[Math.min(fifths, 7)] : majorFlats[Math.min(-fifths, 7)];
     }
 
-    private dynamicsToVelocity(dynamics: Element): number {
-        const marks = ['ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff'];
-        const velocities = [0.2, 0.3, 0.4, 0.55, 0.7, 0.85, 0.95, 1.0];
-        for (let i = 0; i < marks.length; i++) {
-            if (dynamics.querySelector(marks[i])) return velocities[i];
-        }
-        return 0.8;
+    private headerChanges(headers: ABCHeaders): ScoreChange[] {
+        const changes: ScoreChange[] = [];
+        if (headers.Q) changes.push({ type: 'tempo', position: 0, measure: 1, value: headers.Q });
+        changes.push({ type: 'meter', position: 0, measure: 1, value: headers.M });
+        changes.push({ type: 'key', position: 0, measure: 1, value: headers.K });
+        return changes;
     }
 
     private errorResult(message: string): ParseResult {
         return {
             mom: { headers: { X: 1, T: '', M: '4/4', L: '1/8', K: 'C' }, measures: [], totalDuration: 0, voices: new Map() },
             directives: this.emptyDirectives(),
+            changes: [],
+            harmony: [],
+            annotations: [],
             errors: [{ message, line: 0, column: 0 }],
             warnings: []
         };
     }
 
     private emptyDirectives(): DirectivesMap {
-        return { dir: [], fx: [], analysis: [], game_state: [], loop: [], art: [], marker: [], swing: [], mute: [], layout: [], harmony: [] };
+        return { dir: [], fx: [], analysis: [], game_state: [], loop: [], art: [], marker: [], swing: [], mute: [], layout: [], harmony: [], transpose: [], tuning: [] };
     }
 }
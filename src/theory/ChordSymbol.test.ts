@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ChordSymbol } from './ChordSymbol';
+
+describe('ChordSymbol', () => {
+    it.each([
+        ['Am7', 'A', 'minor', ['7'], undefined],
+        ['G/B', 'G', 'major', [], 'B'],
+        ['F#m7b5', 'F#', 'half-diminished', ['7'], undefined],
+        ['Dsus', 'D', 'suspended', ['sus4'], undefined],
+        ['G7sus4', 'G', 'suspended', ['7', 'sus4'], undefined],
+        ['Bbmaj7', 'Bb', 'major', ['maj7'], undefined],
+        ['C6/9', 'C', 'major', ['6/9'], undefined],
+        ['E5', 'E', 'power', [], undefined],
+        ['(D7)', 'D', 'major', ['7'], undefined]
+    ])('reads %s', (text, root, quality, extensions, bass) => {
+        expect({ ...ChordSymbol.parse(text) }).toEqual({ root, quality, extensions, ...(bass ? { bass } : {}) });
+    });
+
+    it('rejects text that is not a chord symbol', () => {
+        expect(ChordSymbol.parse('Fine')).toBeNull();
+        expect(ChordSymbol.parse('Cxyz')).toBeNull();
+    });
+
+    it('spells out the pitch classes of the chord, root first', () => {
+        expect(ChordSymbol.parse('Am7')!.pitchClasses()).toEqual([9, 0, 4, 7]);
+        expect(ChordSymbol.parse('Bbdim7')!.pitchClasses()).toEqual([10, 1, 4, 7]);
+        expect(ChordSymbol.parse('C9')!.pitchClasses()).toEqual([0, 4, 7, 10, 2]);
+        expect(ChordSymbol.parse('G7b5')!.pitchClasses()).toEqual([7, 11, 1, 5]);
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Chord Symbol
+ * Parses guitar chord symbols such as "Am7", "G/B", "F#m7b5" or "Dsus4" into root, quality,
+ * extensions and bass note
+ */
+
+import type { ChordQuality } from '../types';
+
+const LETTER_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Quality spellings, longest first so "min" is not read as "m" followed by "in"
+const QUALITIES: [string, ChordQuality][] = [
+    ['m7b5', 'half-diminished'],
+    ['min', 'minor'],
+    ['dim', 'diminished'],
+    ['aug', 'augmented'],
+    ['sus', 'suspended'],
+    ['ø', 'half-diminished'],
+    ['°', 'diminished'],
+    ['o', 'diminished'],
+    ['+', 'augmented'],
+    ['-', 'minor'],
+    ['m', 'minor']
+];
+
+// Intervals above the root of the triad (or power chord) each quality is built on
+const TRIADS: Record<ChordQuality, number[]> = {
+    'major': [0, 4, 7],
+    'minor': [0, 3, 7],
+    'diminished': [0, 3, 6],
+    'half-diminished': [0, 3, 6, 10],
+    'augmented': [0, 4, 8],
+    'suspended': [0, 5, 7],
+    'power': [0, 7]
+};
+
+// Extensions, longest first; the bare numbers imply the chord's seventh
+const EXTENSION_PATTERN = /^(maj13|maj11|maj9|maj7|Maj7|M7|Δ7|Δ|add\d+|sus[24]|6\/9|69|13|11|9|7|6|5|[b#]\d+)/;
+
+export class ChordSymbol {
+    readonly root: string;
+    readonly quality: ChordQuality;
+    readonly extensions: string[];
+    readonly bass?: string;
+
+    private constructor(root: string, quality: ChordQuality, extensions: string[], bass?: string) {
+        this.root = root;
+        this.quality = quality;
+        this.extensions = extensions;
+        if (bass) this.bass = bass;
+    }
+
+    /**
+     * Parse a chord symbol, or return null when the text is not one. Alternative chords in
+     * parentheses, "(G7)", are read as the chord they contain
+     */
+    static parse(text: string): ChordSymbol | null {
+        const cleaned = text.trim().replace(/^\((.*)\)$/, '$1').replace(/♯/g, '#').replace(/♭/g, 'b');
+        const match = cleaned.match(/^([A-G][#b]?)((?:[^/]|\/9)*)(?:\/([A-G][#b]?))?$/);
+        if (!match) return null;
+
+        const [, root, rest, bass] = match;
+        let remaining = rest.replace(/[()\s,]/g, '');
+        let quality: ChordQuality = 'major';
+
+        // "maj" belongs to the extension (maj7), not to the quality
+        if (!/^(maj|Maj|M)/.test(remaining)) {
+            for (const [spelling, name] of QUALITIES) {
+                if (remaining.startsWith(spelling)) {
+                    quality = name;
+                    remaining = remaining.slice(spelling.length);
+                    break;
+                }
+            }
+        }
+
+        // "sus" alone is a sus4
+        const extensions: string[] = [];
+        if (quality === 'suspended') {
+            const step = /^[24]/.test(remaining) ? remaining[0] : '4';
+            if (/^[24]/.test(remaining)) remaining = remaining.slice(1);
+            extensions.push(`sus${step}`);
+        }
+        if (quality === 'half-diminished' && !remaining.startsWith('7')) extensions.push('7');
+        while (remaining) {
+            const extension = remaining.match(EXTENSION_PATTERN);
+            if (!extension) return null;
+            extensions.push(ChordSymbol.normalizeExtension(extension[1]));
+            remaining = remaining.slice(extension[1].length);
+        }
+
+        // A suspension written after the seventh ("G7sus4") still replaces the third;
+        // a lone "5" is a power chord
+        if (extensions.some(e => e.startsWith('sus'))) quality = 'suspended';
+        if (quality === 'major' && extensions.length === 1 && extensions[0] === '5') {
+            return new ChordSymbol(root, 'power', [], bass);
+        }
+
+        return new ChordSymbol(root, quality, extensions, bass);
+    }
+
+    /**
+     * Pitch classes (0 = C) of the chord's notes, root first; the bass note is not included
+     */
+    pitchClasses(): number[] {
+        const intervals = [...TRIADS[this.quality]];
+        const add = (interval: number) => {
+            if (!intervals.includes(interval)) intervals.push(interval);
+        };
+        const seventh = this.quality === 'diminished' ? 9 : 10;
+
+        for (const extension of this.extensions) {
+            if (extension === 'sus2') intervals[1] = 2;
+            else if (extension === 'sus4') intervals[1] = 5;
+            else if (extension === '6') add(9);
+            else if (extension === '6/9') { add(9); add(14); }
+            else if (extension.startsWith('maj')) {
+                add(11);
+                this.addUpperExtensions(parseInt(extension.slice(3), 10), add);
+            } else if (extension.startsWith('add')) {
+                add(ChordSymbol.degreeInterval(parseInt(extension.slice(3), 10)));
+            } else if (/^[b#]/.test(extension)) {
+                const degree = parseInt(extension.slice(1), 10);
+                const interval = ChordSymbol.degreeInterval(degree) + (extension[0] === '#' ? 1 : -1);
+                const fifth = intervals.indexOf(7);
+                if (degree === 5 && fifth >= 0) intervals[fifth] = interval;
+                else add(interval);
+            } else {
+                const degree = parseInt(extension, 10);
+                if (degree >= 7) add(seventh);
+                this.addUpperExtensions(degree, add);
+            }
+        }
+
+        const rootClass = ChordSymbol.pitchClass(this.root);
+        return [...new Set(intervals.map(interval => (rootClass + interval) % 12))];
+    }
+
+    /**
+     * Pitch class (0 = C) of a note name such as "F#" or "Bb"
+     */
+    static pitchClass(name: string): number {
+        const value = LETTER_PITCH_CLASSES[name[0]] + (name[1] === '#' ? 1 : name[1] === 'b' ? -1 : 0);
+        return (value + 12) % 12;
+    }
+
+    /**
+     * Ninths, elevenths and thirteenths include the extensions below them
+     */
+    private addUpperExtensions(degree: number, add: (interval: number) => void): void {
+        for (const upper of [9, 11, 13]) {
+            if (upper <= degree) add(ChordSymbol.degreeInterval(upper));
+        }
+    }
+
+    private static degreeInterval(degree: number): number {
+        const major = [0, 2, 4, 5, 7, 9, 11];
+        return major[(degree - 1) % 7] + Math.floor((degree - 1) / 7) * 12;
+    }
+
+    private static normalizeExtension(extension: string): string {
+        if (['Maj7', 'M7', 'Δ', 'Δ7'].includes(extension)) return 'maj7';
+        if (extension === '69') return '6/9';
+        return extension;
+    }
+}
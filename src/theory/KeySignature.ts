@@ -0,0 +1,175 @@
+/**
+ * Key Signature
+ * Parses ABC 2.1 K: field values into per-letter accidentals
+ */
+
+export type KeyMode =
+    | 'major' | 'minor' | 'dorian' | 'phrygian'
+    | 'lydian' | 'mixolydian' | 'locrian';
+
+// Position of each mode relative to its major (ionian) key on the circle of fifths
+const MODE_OFFSETS: Record<KeyMode, number> = {
+    major: 0,
+    lydian: 1,
+    mixolydian: -1,
+    dorian: -2,
+    minor: -3,
+    phrygian: -4,
+    locrian: -5
+};
+
+// Only the first three letters of a mode name are significant in ABC 2.1
+const MODE_ALIASES: Record<string, KeyMode> = {
+    '': 'major',
+    'maj': 'major',
+    'ion': 'major',
+    'm': 'minor',
+    'min': 'minor',
+    'aeo': 'minor',
+    'dor': 'dorian',
+    'phr': 'phrygian',
+    'lyd': 'lydian',
+    'mix': 'mixolydian',
+    'loc': 'locrian'
+};
+
+const LETTER_FIFTHS: Record<string, number> = { 'F': -1, 'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5 };
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+const FLAT_ORDER = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+
+export class KeySignature {
+    readonly tonic: string;
+    readonly mode: KeyMode;
+    readonly fifths: number;
+    readonly accidentals: Record<string, number>;
+
+    private constructor(tonic: string, mode: KeyMode, fifths: number, accidentals: Record<string, number>) {
+        this.tonic = tonic;
+        this.mode = mode;
+        this.fifths = fifths;
+        this.accidentals = accidentals;
+    }
+
+    /**
+     * Parse a K: field value such as "G", "Ador", "Bb minor", "D exp ^f _b" or "HP"
+     */
+    static parse(value: string): KeySignature {
+        const words = value.trim().split(/\s+/).filter(w => w && !/^[A-Za-z]\w*=/.test(w));
+
+        let tonic = 'C';
+        let mode: KeyMode = 'major';
+        let fifths = 0;
+        let index = 0;
+        let explicit = false;
+
+        const first = words[0] ?? '';
+
+        if (first === 'HP') {
+            // Highland pipes: written without a signature
+            return new KeySignature('A', 'mixolydian', 0, {});
+        }
+        if (first === 'Hp') {
+            return new KeySignature('A', 'mixolydian', 2, { 'F': 1, 'C': 1, 'G': 0 });
+        }
+
+        const tonicMatch = first.match(/^([A-Ga-g])([#b]?)([A-Za-z]*)$/);
+        if (tonicMatch && first.toLowerCase() !== 'none') {
+            const [, letter, sign, modeText] = tonicMatch;
+            tonic = letter.toUpperCase() + sign;
+            index = 1;
+
+            let resolvedMode = KeySignature.resolveMode(modeText);
+            if (!modeText && words[1]) {
+                // Mode may also be given as a separate word: "G mixolydian"
+                const separateMode = KeySignature.resolveMode(words[1]);
+                if (separateMode) {
+                    resolvedMode = separateMode;
+                    index = 2;
+                }
+            }
+            mode = resolvedMode ?? 'major';
+
+            fifths = LETTER_FIFTHS[tonic[0]] + (sign === '#' ? 7 : sign === 'b' ? -7 : 0) + MODE_OFFSETS[mode];
+        } else if (first.toLowerCase() === 'none') {
+            index = 1;
+        }
+
+        if (words[index]?.toLowerCase() === 'exp') {
+            explicit = true;
+            index++;
+        }
+
+        const accidentals = explicit ? {} : KeySignature.accidentalsForFifths(fifths);
+
+        // Additional accidentals modify (or, with "exp", replace) the signature
+        for (const word of words.slice(index)) {
+            const accMatch = word.match(/^(\^\^|\^|__|_|=)([A-Ga-g])$/);
+            if (!accMatch) continue;
+            const [, acc, letter] = accMatch;
+            accidentals[letter.toUpperCase()] = KeySignature.accidentalValue(acc);
+        }
+
+        return new KeySignature(tonic, mode, fifths, accidentals);
+    }
+
+    /**
+     * Semitone offset applied by the key to a note letter (case-insensitive)
+     */
+    accidentalFor(letter: string): number {
+        return this.accidentals[letter.toUpperCase()] ?? 0;
+    }
+
+    /**
+     * Semitone value of an ABC accidental prefix ("^", "__", "=", ...). A microtonal sharp
+     * or flat gives its fraction of a semitone: ^/ is +1/2, _3/2 is -3/2, ^1/4 is +1/4
+     */
+    static accidentalValue(accidental: string): number {
+        const microtone = accidental.match(/^([\^_])(\d*)\/(\d*)$/);
+        if (microtone) {
+            const [, sign, numerator, denominator] = microtone;
+            return (sign === '^' ? 1 : -1) * parseInt(numerator || '1', 10) / parseInt(denominator || '2', 10);
+        }
+
+        let value = 0;
+        for (const char of accidental) {
+            if (char === '^') value++;
+            else if (char === '_') value--;
+        }
+        return value;
+    }
+
+    /**
+     * ABC accidental prefix for a semitone value, the reverse of accidentalValue
+     */
+    static accidentalText(value: number): string {
+        if (value === 0) return '=';
+        if (!Number.isInteger(value)) {
+            // The smallest fraction of a semitone that gives the value, with ABC's defaults
+            // of 1 for the numerator and 2 for the denominator left out
+            const size = Math.abs(value);
+            let denominator = 2;
+            while (denominator < 64 && Math.abs(size * denominator - Math.round(size * denominator)) > 1e-9) denominator *= 2;
+            const numerator = Math.round(size * denominator);
+            return (value > 0 ? '^' : '_') + (numerator === 1 ? '' : numerator) + '/' + (denominator === 2 ? '' : denominator);
+        }
+        return (value > 0 ? '^' : '_').repeat(Math.abs(value));
+    }
+
+    private static resolveMode(text: string): KeyMode | null {
+        const key = text.toLowerCase().slice(0, 3);
+        return key in MODE_ALIASES ? MODE_ALIASES[key] : null;
+    }
+
+    private static accidentalsForFifths(fifths: number): Record<string, number> {
+        const accidentals: Record<string, number> = {};
+        const clamped = Math.max(-7, Math.min(7, fifths));
+
+        if (clamped > 0) {
+            for (const letter of SHARP_ORDER.slice(0, clamped)) accidentals[letter] = 1;
+        } else if (clamped < 0) {
+            for (const letter of FLAT_ORDER.slice(0, -clamped)) accidentals[letter] = -1;
+        }
+
+        return accidentals;
+    }
+}
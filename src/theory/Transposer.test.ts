@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Transposer } from './Transposer';
+import { ABCPlusParser } from '../parser/ABCPlusParser';
+
+describe('Transposer', () => {
+    it('spells semitone transpositions in the key with fewer accidentals', () => {
+        expect(new Transposer(1).transposeKey('D')).toBe('Eb');
+        expect(new Transposer(6).transposeKey('C')).toBe('Gb');
+        expect(new Transposer(-2).transposeKey('Bbmix')).toBe('Abmix');
+    });
+
+    it('transposes to a named key by the smaller interval', () => {
+        const transposer = Transposer.toKey('D', 'Eb');
+        expect(transposer.semitones).toBe(1);
+        expect(transposer.transposeKey('Dm')).toBe('Ebm');
+        expect(Transposer.fromValue('Bb', 'G')?.semitones).toBe(3);
+        expect(Transposer.fromValue('-3', 'G')?.semitones).toBe(-3);
+        expect(Transposer.fromValue('up', 'G')).toBeNull();
+    });
+
+    it('moves notes, their spelling against the new key, and chord symbols', () => {
+        const result = new Transposer(1).transpose(new ABCPlusParser().parse('X:1\nL:1/4\nK:D\n"D/F#"^cd=f|]'));
+        const notes = [...result.mom.voices.values()][0].flatMap(element => 'midiNote' in element ? [[element.pitch, element.midiNote]] : []);
+        expect(result.mom.headers.K).toBe('Eb');
+        expect(notes).toEqual([['d', 62], ['e', 63], ['_g', 66]]);
+        expect(result.harmony[0].text).toBe('Eb/G');
+    });
+
+    it('moves one voice on its own for V: transpose=', () => {
+        const result = new ABCPlusParser().parse('X:1\nL:1/4\nK:D\nV:1\nDF|]\nV:2 transpose=-3\nDF|]');
+        const pitches = [...result.mom.voices].map(([id, elements]) => [id, elements.map(element => 'midiNote' in element && element.midiNote)]);
+        expect(pitches).toEqual([['1', [50, 54]], ['2', [47, 51]]]);
+        expect(result.changes.filter(change => change.type === 'key').map(change => [change.voice, change.value]))
+            .toEqual([[undefined, 'D'], ['2', 'B']]);
+    });
+});
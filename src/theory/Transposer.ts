@@ -0,0 +1,240 @@
+/**
+ * Transposer
+ * Moves a parsed score to another key: sounding pitches, note spellings, key signatures
+ * and chord symbols
+ */
+
+import type { ParseResult, Note, Rest, Chord, ScoreChange } from '../types';
+import { KeySignature } from './KeySignature';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+// Letters in circle-of-fifths order; a name's position on the line of fifths is its index
+// here, plus 7 per sharp and minus 7 per flat
+const FIFTHS_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+export class Transposer {
+    readonly semitones: number;
+    private fifths: number | null;     // The interval on the line of fifths, once known
+
+    /**
+     * Transpose by semitones. The interval is spelled to give the new key the fewest
+     * accidentals, unless `fifths` fixes it (2 for a major second, -10 for a diminished third)
+     */
+    constructor(semitones: number, fifths?: number) {
+        this.semitones = semitones;
+        this.fifths = fifths ?? null;
+    }
+
+    /**
+     * Transposition from one key (a K: value) to another, by the smaller interval
+     */
+    static toKey(from: string, to: string): Transposer {
+        const fromTonic = Transposer.namePosition(KeySignature.parse(from).tonic);
+        const toTonic = Transposer.namePosition(KeySignature.parse(to).tonic);
+        const fifths = toTonic - fromTonic;
+
+        let semitones = ((fifths * 7) % 12 + 12) % 12;
+        if (semitones > 6) semitones -= 12;
+        return new Transposer(semitones, fifths);
+    }
+
+    /**
+     * Transposition named by a %%transpose directive or V: transpose= value: a number of
+     * semitones, or the key to transpose to from `key`. Null when the value is neither
+     */
+    static fromValue(value: string, key: string): Transposer | null {
+        const trimmed = value.trim();
+        if (/^[+-]?\d+$/.test(trimmed)) return new Transposer(parseInt(trimmed, 10));
+        if (/^[A-G][#b]?/.test(trimmed)) return Transposer.toKey(key, trimmed);
+        return null;
+    }
+
+    /**
+     * Transpose a parse result in place, the whole score or only one voice, and return it.
+     * With `from`, only the music at or after that beat position moves: the key in force
+     * there is changed from that point, and earlier notes, keys and chord symbols stay
+     */
+    transpose(result: ParseResult, voice?: string, from = 0): ParseResult {
+        const { mom } = result;
+        const inVoice = (id?: string) => voice === undefined || id === voice;
+        const inRange = (position: number) => position >= from - 1e-9;
+
+        // Keys in force before transposing; each note is written against its key moved
+        const keyChanges = result.changes.filter(change => change.type === 'key');
+        const keyBefore = (position: number, id?: string) => Transposer.keyAt(mom.headers.K, keyChanges, position, id);
+        const fifths = this.intervalFor(keyBefore(from, voice));
+        const keyAt = (note: Note) => KeySignature.parse(this.transposeKey(keyBefore(note.startTime, note.voice), fifths));
+
+        for (const [id, elements] of mom.voices) {
+            if (!inVoice(id)) continue;
+            for (const element of elements) {
+                if (!inRange(element.startTime)) continue;
+                for (const note of this.notesOf(element)) this.transposeNote(note, keyAt(note), fifths);
+                if ('grace' in element && element.grace) {
+                    for (const note of element.grace.notes) this.transposeNote(note, keyAt(note), fifths);
+                }
+            }
+        }
+
+        // Keys that open the transposed stretch, before their values move below
+        const opening: ScoreChange[] = [];
+        const startsAt = (id?: string) => keyChanges.some(change => change.voice === id && Math.abs(change.position - from) < 1e-9);
+        const measure = this.measureAt(result, from);
+
+        if (voice === undefined && from === 0) {
+            mom.headers.K = this.transposeKey(mom.headers.K, fifths);
+        } else if (voice === undefined) {
+            // Voices in a key of their own keep it, moved; the shared key moves if any voice uses it
+            const own = [...mom.voices.keys()].filter(id => keyBefore(from, id) !== keyBefore(from));
+            if (own.length < mom.voices.size && !startsAt(undefined)) {
+                opening.push({ type: 'key', position: from, measure, value: this.transposeKey(keyBefore(from), fifths) });
+            }
+            for (const id of own) {
+                if (!startsAt(id)) opening.push({ type: 'key', position: from, measure, voice: id, value: this.transposeKey(keyBefore(from, id), fifths) });
+            }
+        } else if (!startsAt(voice)) {
+            // The voice leaves the shared key; it goes on in its own
+            opening.push({ type: 'key', position: from, measure, voice, value: this.transposeKey(keyBefore(from, voice), fifths) });
+        }
+
+        for (const change of keyChanges) {
+            if (inVoice(change.voice) && inRange(change.position)) change.value = this.transposeKey(change.value, fifths);
+        }
+        if (opening.length > 0) {
+            const index = result.changes.findIndex(change => change.position > from + 1e-9);
+            result.changes.splice(index < 0 ? result.changes.length : index, 0, ...opening);
+        }
+
+        for (const symbol of result.harmony) {
+            if (!inVoice(symbol.voice) || !inRange(symbol.position)) continue;
+            symbol.root = this.transposeName(symbol.root, fifths);
+            if (symbol.bass) symbol.bass = this.transposeName(symbol.bass, fifths);
+            symbol.text = symbol.text
+                .replace(/^(\(?)([A-G][#b♯♭]?)/, (_, open: string, root: string) => open + this.transposeName(root, fifths))
+                .replace(/\/([A-G][#b♯♭]?)(\)?)$/, (_, bass: string, close: string) => `/${this.transposeName(bass, fifths)}${close}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * The K: value in force at a beat position, for one voice or the shared key, from the
+     * header key and a time-ordered change map
+     */
+    static keyAt(headerKey: string, changes: ScoreChange[], position: number, voice?: string): string {
+        let value = headerKey;
+        for (const change of changes) {
+            if (change.position > position + 1e-9) break;
+            if (change.type === 'key' && (change.voice === undefined || change.voice === voice)) value = change.value;
+        }
+        return value;
+    }
+
+    /**
+     * A K: field value in the new key, keeping its mode and any further settings
+     */
+    transposeKey(value: string, fifths = this.intervalFor(value)): string {
+        return value.replace(/^(\s*)([A-G][#b]?)/, (_, space: string, tonic: string) => space + this.transposeName(tonic, fifths));
+    }
+
+    // ==========================================
+    // Spelling
+    // ==========================================
+
+    /**
+     * The interval on the line of fifths: as given, or the spelling of the semitones that
+     * leaves the transposed key with the fewest accidentals (flats on a tie)
+     */
+    private intervalFor(key: string): number {
+        if (this.fifths !== null) return this.fifths;
+
+        const keyFifths = KeySignature.parse(key).fifths;
+        const fifths = ((this.semitones * 7) % 12 + 12) % 12;
+        return Math.abs(keyFifths + fifths - 12) <= Math.abs(keyFifths + fifths) ? fifths - 12 : fifths;
+    }
+
+    /**
+     * Move a note by the interval: its letter moves by the interval's steps, and the
+     * accidental makes up the semitones
+     */
+    private transposeNote(note: Note, newKey: KeySignature, fifths: number): void {
+        const letterMatch = note.pitch.match(/[A-Ga-g]/);
+        const midiNote = note.midiNote + this.semitones;
+
+        let letter = letterMatch
+            ? LETTERS[(LETTERS.indexOf(letterMatch[0].toUpperCase()) + ((fifths * 4) % 7 + 7)) % 7]
+            : this.spell(midiNote);
+        let { octave, accidental } = this.place(letter, midiNote);
+        if (Math.abs(accidental) > 2) {
+            letter = this.spell(midiNote);
+            ({ octave, accidental } = this.place(letter, midiNote));
+        }
+
+        // Accidentals are written where the new key does not give them
+        const written = accidental === newKey.accidentalFor(letter) ? '' : KeySignature.accidentalText(accidental);
+        const name = octave > 0 ? letter.toLowerCase() + "'".repeat(octave - 1) : letter + ','.repeat(-octave);
+
+        note.midiNote = midiNote;
+        note.pitch = written + name;
+    }
+
+    /**
+     * ABC octave (0 for C-B, 1 for c-b) and accidental of a letter sounding as a MIDI note
+     */
+    private place(letter: string, midiNote: number): { octave: number; accidental: number } {
+        const natural = 48 + LETTER_SEMITONES[LETTERS.indexOf(letter)];
+        const octave = Math.round((midiNote - natural) / 12);
+        return { octave, accidental: midiNote - natural - octave * 12 };
+    }
+
+    /**
+     * A plain spelling for a note with no letter of its own: natural, or sharp
+     */
+    private spell(midiNote: number): string {
+        const pitchClass = ((Math.floor(midiNote) % 12) + 12) % 12;     // Microtones take the letter below
+        const natural = LETTER_SEMITONES.indexOf(pitchClass);
+        return LETTERS[natural >= 0 ? natural : LETTER_SEMITONES.indexOf(pitchClass - 1)];
+    }
+
+    /**
+     * A note name ("F#", "Bb") moved by the interval, as respelled when it would need a
+     * triple sharp or flat
+     */
+    private transposeName(name: string, fifths: number): string {
+        const normalized = name.replace('♯', '#').replace('♭', 'b');
+        let position = Transposer.namePosition(normalized) + fifths;
+        while (position > 19) position -= 12;
+        while (position < -15) position += 12;
+
+        const letter = FIFTHS_ORDER[((position + 1) % 7 + 7) % 7];
+        const accidental = Math.floor((position + 1) / 7);
+        return letter + (accidental > 0 ? '#'.repeat(accidental) : 'b'.repeat(-accidental));
+    }
+
+    /**
+     * Position of a note name on the line of fifths, with C at 0
+     */
+    private static namePosition(name: string): number {
+        const sharps = (name.match(/#/g) ?? []).length;
+        const flats = name.slice(1).split('').filter(char => char === 'b').length;
+        return FIFTHS_ORDER.indexOf(name[0].toUpperCase()) - 1 + 7 * (sharps - flats);
+    }
+
+    /**
+     * Number of the measure sounding at a beat position
+     */
+    private measureAt(result: ParseResult, position: number): number {
+        let number = 1;
+        for (const measure of result.mom.measures) {
+            if (measure.startTime > position + 1e-9) break;
+            number = measure.number;
+        }
+        return number;
+    }
+
+    private notesOf(element: Note | Rest | Chord): Note[] {
+        return 'notes' in element ? element.notes : 'midiNote' in element ? [element] : [];
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Tuning } from './Tuning';
+import type { Directive } from '../types';
+
+function fromDirective(attributes: Record<string, string>): Tuning | null {
+    const directive: Directive = { type: 'tuning', name: 'tuning', position: 0, measure: 1, attributes };
+    return Tuning.fromDirective(directive);
+}
+
+describe('Tuning', () => {
+    it('tunes A4 to the reference pitch', () => {
+        expect(new Tuning().frequency(69)).toBeCloseTo(440);
+        expect(new Tuning('equal', 415).frequency(69)).toBeCloseTo(415);
+        expect(new Tuning().frequency(60)).toBeCloseTo(261.63, 2);
+    });
+
+    it('puts quarter tones halfway between semitones', () => {
+        expect(new Tuning().frequency(69.5)).toBeCloseTo(440 * Math.pow(2, 0.5 / 12));
+    });
+
+    it('reads a temperament and reference from plain words', () => {
+        const tuning = fromDirective({ value: 'werckmeister 415Hz' });
+        expect([tuning?.temperament, tuning?.reference]).toEqual(['werckmeister', 415]);
+        expect(fromDirective({ value: 'meantone 432' })?.reference).toBe(432);
+    });
+
+    it('keeps numbers outside 300-600 without Hz in the temperament name', () => {
+        for (const value of ['werckmeister 3', 'werckmeister3', 'Werckmeister III']) {
+            const tuning = fromDirective({ value });
+            expect([tuning?.temperament, tuning?.reference]).toEqual(['werckmeister', 440]);
+        }
+        expect(fromDirective({ value: 'werckmeister 3 415' })?.reference).toBe(415);
+    });
+
+    it('rejects unknown temperaments and references outside 300-600 Hz', () => {
+        expect(fromDirective({ value: 'pythagorean' })).toBeNull();
+        expect(fromDirective({ value: '200Hz' })).toBeNull();
+        expect(fromDirective({ temperament: 'equal', reference: '700' })).toBeNull();
+    });
+});
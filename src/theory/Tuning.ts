@@ -0,0 +1,98 @@
+/**
+ * Tuning
+ * Frequencies of (possibly fractional) MIDI notes in a temperament, from a reference pitch for A4
+ */
+
+import type { Directive } from '../types';
+
+export type Temperament = 'equal' | 'meantone' | 'werckmeister' | 'vallotti';
+
+// Cents above C of each pitch class, C to B
+const TEMPERAMENT_CENTS: Record<Temperament, number[]> = {
+    equal: [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100],
+    // Quarter-comma meantone: pure major thirds, with the wolf fifth between G# and Eb
+    meantone: [0, 76.0, 193.2, 310.3, 386.3, 503.4, 579.5, 696.6, 772.6, 889.7, 1006.8, 1082.9],
+    // Werckmeister III: the fifths C-G-D-A and B-F# narrowed by a quarter of the Pythagorean comma
+    werckmeister: [0, 90.2, 192.2, 294.1, 390.2, 498.0, 588.3, 696.1, 792.2, 888.3, 996.1, 1092.2],
+    // Vallotti: the six fifths from F to B narrowed by a sixth of the comma, the rest pure
+    vallotti: [0, 94.1, 196.1, 298.0, 392.2, 502.0, 592.2, 698.0, 796.1, 894.1, 1000.0, 1090.2]
+};
+
+// Temperament names accepted by %%tuning, lower-case
+const TEMPERAMENT_NAMES: Record<string, Temperament> = {
+    'equal': 'equal',
+    'et': 'equal',
+    '12tet': 'equal',
+    'meantone': 'meantone',
+    'quarter-comma': 'meantone',
+    'werckmeister': 'werckmeister',
+    'werckmeister3': 'werckmeister',
+    'werckmeisteriii': 'werckmeister',
+    'vallotti': 'vallotti'
+};
+
+export class Tuning {
+    readonly temperament: Temperament;
+    readonly reference: number;         // Frequency of A4, in Hz
+    private offsets: number[];          // Cents each pitch class lies from equal temperament, A at 0
+
+    constructor(temperament: Temperament = 'equal', reference = 440) {
+        this.temperament = temperament;
+        this.reference = reference;
+
+        const cents = TEMPERAMENT_CENTS[temperament];
+        const fromEqual = cents.map((value, pitchClass) => value - pitchClass * 100);
+        this.offsets = fromEqual.map(offset => offset - fromEqual[9]);
+    }
+
+    /**
+     * Temperament for a name such as "meantone" or "Werckmeister III"; null if unknown
+     */
+    static temperamentFor(name: string): Temperament | null {
+        return TEMPERAMENT_NAMES[name.toLowerCase().replace(/\s+/g, '')] ?? null;
+    }
+
+    /**
+     * Tuning set by a %%tuning directive: temperament="meantone" reference="415", or the
+     * same as plain words ("%%tuning werckmeister 415Hz"). In plain words a number is the
+     * reference only with an Hz suffix or within 300-600, so "werckmeister 3" names the
+     * temperament. Null if the directive names an unknown temperament or a reference pitch
+     * outside 300-600 Hz
+     */
+    static fromDirective(directive: Directive): Tuning | null {
+        const { attributes } = directive;
+        const given = attributes['reference'] ?? attributes['a4'];
+        const text = [attributes['temperament'], attributes['value']]
+            .filter(part => part !== undefined)
+            .join(' ');
+
+        let reference = given !== undefined ? parseFloat(given) : 440;
+        const name = text
+            .replace(/(?:^|\s)(\d+(?:\.\d+)?)\s*(hz)?(?=\s|$)/gi, (match, hertz: string, unit?: string) => {
+                const value = parseFloat(hertz);
+                if (!unit && (value < 300 || value > 600)) return match;
+                reference = value;
+                return ' ';
+            })
+            .trim();
+
+        const temperament = name ? Tuning.temperamentFor(name) : 'equal';
+        if (!temperament || !(reference >= 300 && reference <= 600)) return null;
+        return new Tuning(temperament, reference);
+    }
+
+    /**
+     * Frequency of a MIDI note. Between semitones (quarter tones and other microtones) the
+     * temperament's offsets are interpolated
+     */
+    frequency(midiNote: number): number {
+        const below = Math.floor(midiNote);
+        const fraction = midiNote - below;
+        const cents = this.offsetOf(below) * (1 - fraction) + this.offsetOf(below + 1) * fraction;
+        return this.reference * Math.pow(2, (midiNote - 69 + cents / 100) / 12);
+    }
+
+    private offsetOf(midiNote: number): number {
+        return this.offsets[((midiNote % 12) + 12) % 12];
+    }
+}
@@ -29,16 +29,29 @@ export interface ABCHeaders {
     Q?: string;          // Tempo (e.g., "1/4=120")
     K: string;           // Key signature
     V?: VoiceDefinition[];  // Voice definitions
+    W?: string[];        // Words printed after the tune (W: lines)
 }
 
 export interface VoiceDefinition {
     id: string;
     name?: string;
     shortName?: string;
-    clef?: 'treble' | 'bass' | 'alto' | 'tenor';
-    instrument?: string;
+    clef?: Clef;
+    clefOctave?: number;     // -1 for treble-8 (sounds an octave below the written notes), 1 for +8
+    octave?: number;         // Octaves the notes are moved by, as written and as heard (octave=)
+    transpose?: number;      // Semitones (transpose=)
+    middle?: string;         // Pitch on the middle staff line (middle=), e.g. "d"
+    stem?: 'up' | 'down' | 'auto';
+    instrument?: string;     // Instrument name (instrument=)
+    program?: number;        // General MIDI program, 0-127 (%%MIDI program)
+    channel?: number;        // MIDI channel, 1-16; 10 is percussion (%%MIDI channel)
+    part?: string;           // MusicXML part the voice was read from (<part id>)
+    staff?: number;          // Staff of that part the voice starts on, from 1
+    partVoice?: string;      // The voice's <voice> number in that part
 }
 
+export type Clef = 'treble' | 'bass' | 'alto' | 'tenor' | 'percussion' | 'none';
+
 // ============================================
 // Musical Object Model (MOM)
 // ============================================
@@ -46,16 +59,20 @@ export interface VoiceDefinition {
 export interface Note {
     id: string;
     pitch: string;       // ABC pitch notation (e.g., "C", "c", "c'", "_B,")
-    midiNote: number;    // MIDI note number (0-127)
+    midiNote: number;    // MIDI note number (0-127); may fall between semitones (quarter tones)
     duration: number;    // Duration in beats
     startTime: number;   // Start time in beats from beginning
     velocity: number;    // 0-1 range
     voice: string;       // Voice ID
     measure: number;     // Measure number
     decorations?: Decoration[];
+    dynamic?: DynamicLevel;                      // Carried forward from the voice's last dynamic mark
+    hairpin?: 'crescendo' | 'diminuendo';        // Set while a hairpin is open
     tiedTo?: string;     // ID of note this is tied to
     slurStart?: boolean;
     slurEnd?: boolean;
+    grace?: GraceGroup;  // Grace notes played before this note
+    lyrics?: Syllable[]; // One per verse sung on this note (the first note of a chord)
 }
 
 export interface Rest {
@@ -64,6 +81,8 @@ export interface Rest {
     startTime: number;
     voice: string;
     measure: number;
+    invisible?: boolean;   // x or X: keeps time without being printed
+    decorations?: Decoration[];
 }
 
 export interface Chord {
@@ -73,6 +92,20 @@ export interface Chord {
     startTime: number;
     voice: string;
     measure: number;
+    decorations?: Decoration[];
+    grace?: GraceGroup;
+}
+
+export interface GraceGroup {
+    notes: Note[];          // Written grace notes; they take their time from the main note
+    acciaccatura: boolean;  // {/g}: played as short as possible
+}
+
+export interface Syllable {
+    verse: number;       // 1 for the first w: line under the music, 2 for the next, ...
+    text: string;
+    hyphen?: boolean;    // The word continues on the next syllable
+    extender?: boolean;  // Held over the following notes (w: "_")
 }
 
 export interface Decoration {
@@ -83,16 +116,33 @@ export interface Decoration {
 export type DecorationType =
     | 'fermata' | 'accent' | 'staccato' | 'tenuto'
     | 'marcato' | 'trill' | 'mordent' | 'turn'
-    | 'p' | 'pp' | 'ppp' | 'mp' | 'mf' | 'f' | 'ff' | 'fff'
+    | 'uppermordent' | 'roll' | 'invertedturn' | 'arpeggio'
+    | 'upbow' | 'downbow' | 'breath' | 'wedge' | 'snap' | 'slide' | 'open' | 'thumb'
+    | DynamicLevel | 'sfz'
     | 'crescendo' | 'diminuendo'
     | 'fingering' | 'text';
 
+export type DynamicLevel = 'pppp' | 'ppp' | 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff' | 'fff' | 'ffff';
+
 export interface Measure {
     number: number;
     startTime: number;
     duration: number;
-    elements: (Note | Rest | Chord)[];
-    barlineType?: 'single' | 'double' | 'final' | 'repeat-start' | 'repeat-end';
+    elements: (Note | Rest | Chord)[];                 // All voices, grouped voice by voice
+    voices: Map<string, (Note | Rest | Chord)[]>;      // The same elements, keyed by voice ID
+    barlineType?: 'single' | 'double' | 'final' | 'repeat-start' | 'repeat-end' | 'repeat-both';
+    repeatStart?: boolean;       // A repeated section begins with this measure
+    ending?: number[];           // Volta numbers this measure belongs to (e.g., [1] or [1, 2])
+    navigation?: NavigationMark[];
+}
+
+export type NavigationMark =
+    | 'segno' | 'coda' | 'fine' | 'dacoda'
+    | 'D.C.' | 'D.S.' | 'D.C.alfine' | 'D.C.alcoda' | 'D.S.alfine' | 'D.S.alcoda';
+
+export interface PerformedMeasure {
+    measure: Measure;
+    startTime: number;    // Start time in beats in the unfolded performance
 }
 
 export interface MusicalObjectModel {
@@ -102,6 +152,49 @@ export interface MusicalObjectModel {
     voices: Map<string, (Note | Rest | Chord)[]>;
 }
 
+// ============================================
+// Tempo, Meter & Key Changes
+// ============================================
+
+export type ScoreChangeType = 'tempo' | 'meter' | 'key' | 'length';
+
+export interface ScoreChange {
+    type: ScoreChangeType;
+    position: number;    // Beat position in score
+    measure: number;
+    voice?: string;      // Key and unit length changes belong to one voice; tempo and meter to all
+    value: string;       // Field value as written (e.g., "1/4=96", "3/4", "Dm")
+}
+
+// ============================================
+// Harmony & Annotations
+// ============================================
+
+export type ChordQuality =
+    | 'major' | 'minor' | 'diminished' | 'half-diminished'
+    | 'augmented' | 'suspended' | 'power';
+
+export interface Harmony {
+    text: string;          // Chord symbol as written, e.g. "Am7", "G/B"
+    root: string;          // Letter with an optional # or b
+    quality: ChordQuality;
+    extensions: string[];  // e.g. ["7"], ["maj7"], ["sus4"], ["9", "#11"], ["add9"]
+    bass?: string;         // Bass note of a slash chord
+    position: number;      // Beat position in score
+    measure: number;
+    voice: string;
+}
+
+export type AnnotationPlacement = 'above' | 'below' | 'left' | 'right' | 'free';
+
+export interface Annotation {
+    text: string;
+    placement: AnnotationPlacement;   // From the ^ _ < > @ prefix
+    position: number;
+    measure: number;
+    voice: string;
+}
+
 // ============================================
 // ABC+ Directives
 // ============================================
@@ -109,12 +202,14 @@ export interface MusicalObjectModel {
 export type DirectiveType =
     | 'dir' | 'fx' | 'analysis' | 'game_state'
     | 'loop' | 'art' | 'marker' | 'swing' | 'mute'
-    | 'vskip' | 'sep' | 'measurenumbering' | 'frame' | 'fb';
+    | 'vskip' | 'sep' | 'measurenumbering' | 'frame' | 'fb' | 'ornaments' | 'transpose' | 'tuning';
 
 export interface Directive {
     type: DirectiveType;
+    name: string;          // As written after %%, e.g. "swing-off" for type "swing"
     position: number;      // Beat position in score
     measure: number;
+    voice?: string;        // Set when the directive applies to one voice only
     attributes: Record<string, string>;
 }
 
@@ -124,12 +219,14 @@ export interface DirectivesMap {
     analysis: Directive[];
     game_state: Directive[];
     loop: Directive[];
-    art: Directive[];
+    art: Directive[];      // art, ornaments
     marker: Directive[];
     swing: Directive[];
     mute: Directive[];
     layout: Directive[];   // vskip, sep, measurenumbering
     harmony: Directive[];  // frame, fb
+    transpose: Directive[];
+    tuning: Directive[];
 }
 
 // ============================================
@@ -139,10 +236,32 @@ export interface DirectivesMap {
 export interface ParseResult {
     mom: MusicalObjectModel;
     directives: DirectivesMap;
+    changes: ScoreChange[];  // Time-ordered, starting with the header values
+    harmony: Harmony[];      // Chord symbols, in time order
+    annotations: Annotation[];
     errors: ParseError[];
     warnings: ParseWarning[];
 }
 
+export interface TuneMetadata {
+    X: number;
+    T: string;
+    C?: string;
+    K: string;
+    M: string;
+}
+
+export interface TunebookEntry {
+    metadata: TuneMetadata;
+    source: string;      // The tune's ABC, preceded by the file header it inherits
+    startLine: number;   // Line of the tune's X: field in the file (0-based)
+    lineOffset: number;  // Added to a diagnostic's line, gives its line in the file
+}
+
+export interface ParsedTune extends TunebookEntry {
+    result: ParseResult;
+}
+
 export interface ParseError {
     line: number;
     column: number;